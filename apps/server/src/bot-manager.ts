@@ -1,29 +1,65 @@
-import type { RoomWithGame, InternalGameState } from "./room-manager";
-import type { Player } from "@acme/shared";
+import type { RoomWithGame } from "./room-manager";
+import type { BotProfile, Player } from "@acme/shared";
+import { nextRandom, type InternalGameState } from "@acme/engine";
+import { BOT_IDENTITIES, DEFAULT_BOT_PROFILE, getBotTuning, LARGE_PILE, sampleDelay } from "./bot-profiles";
+import type { BotTuning } from "./bot-profiles";
+import { systemScheduler, type Scheduler, type Timer } from "./scheduler";
 
 /**
  * Bot Manager - Handles bot behavior and actions
  */
 export class BotManager {
-  private botTimeouts = new Map<string, NodeJS.Timeout>(); // botId -> timeout
+  private botTimeouts = new Map<string, Timer>(); // botId -> timeout
+
+  constructor(
+    private random: () => number = Math.random,
+    private scheduler: Scheduler = systemScheduler // Time and the bots' reaction timers
+  ) {}
 
   /**
    * Generates a unique bot ID
    */
   generateBotId(): string {
-    return `bot-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    return `bot-${this.scheduler.now()}-${this.random().toString(36).substr(2, 9)}`;
+  }
+
+  /**
+   * Draws from the game's bot stream so bot decisions replay with the seed, apart from the deal
+   */
+  private roll(internalGame: InternalGameState): number {
+    return nextRandom(internalGame.botRng);
+  }
+
+  /**
+   * Gets the tuning for a bot in a room (bots without a profile play as normal/balanced)
+   */
+  private tuningFor(room: RoomWithGame, botId: string): BotTuning {
+    return getBotTuning(room.players.find((p) => p.id === botId)?.bot);
   }
 
   /**
    * Creates a bot player
+   * Picks a name and avatar not already used by the given players
    */
-  createBotPlayer(botId: string): Player {
+  createBotPlayer(
+    botId: string,
+    profile: BotProfile = DEFAULT_BOT_PROFILE,
+    existingPlayers: Player[] = []
+  ): Player {
+    const taken = new Set(existingPlayers.map((p) => p.name));
+    const available = BOT_IDENTITIES.filter((identity) => !taken.has(identity.name));
+    const pool = available.length > 0 ? available : BOT_IDENTITIES;
+    const identity = pool[Math.floor(this.random() * pool.length)];
+
     return {
       id: botId,
-      name: "Bot",
-      joinedAt: Date.now(),
+      name: identity.name,
+      joinedAt: this.scheduler.now(),
       ready: true, // Bots are always ready
       isBot: true,
+      reconnecting: false,
+      avatar: identity.avatar,
+      bot: { ...profile },
     };
   }
 
@@ -36,7 +72,7 @@ export class BotManager {
     for (const bot of bots) {
       const timeout = this.botTimeouts.get(bot.id);
       if (timeout) {
-        clearTimeout(timeout);
+        timeout.cancel();
         this.botTimeouts.delete(bot.id);
       }
     }
@@ -78,10 +114,10 @@ export class BotManager {
       return;
     }
 
-    // Human-like delay: 600-1200ms
-    const delay = 600 + Math.random() * 600;
+    // Human-like delay (600-1200ms for a normal bot)
+    const delay = sampleDelay(this.tuningFor(room, botId).flipDelay, () => this.roll(internalGame));
     
-    const timeout = setTimeout(() => {
+    const timeout = this.scheduler.schedule(() => {
       this.botTimeouts.delete(botId);
       onFlip(botId);
     }, delay);
@@ -103,17 +139,24 @@ export class BotManager {
 
     const { internalGame } = room;
     const claim = internalGame.claim;
+    const tuning = this.tuningFor(room, botId);
 
     // No active claim window
     if (!claim) {
-      // Small chance of false claim (5%)
-      if (Math.random() < 0.05 && internalGame.pile.length > 0) {
+      // Only dealt-in players with cards on the table can slap
+      const botStatus = internalGame.statuses[botId];
+      if (!botStatus || botStatus === "OUT") {
+        return;
+      }
+
+      // Small chance of false claim (5% for a normal bot)
+      if (internalGame.pile.length > 0 && this.roll(internalGame) < tuning.falseSlapRate) {
         // Don't create a new timeout if one already exists for this bot
         if (this.botTimeouts.has(botId)) {
           return;
         }
-        const delay = 300 + Math.random() * 200; // 300-500ms for false claim
-        const timeout = setTimeout(() => {
+        const delay = 300 + this.roll(internalGame) * 200; // 300-500ms for false claim
+        const timeout = this.scheduler.schedule(() => {
           this.botTimeouts.delete(botId);
           onClaim(botId); // No claimId = false claim
         }, delay);
@@ -133,32 +176,29 @@ export class BotManager {
       return;
     }
 
-    // Calculate claim probability
-    let claimProbability = 0.5; // Base 50% (reduced from 70%)
-    
-    // Increase probability if pile is large (>6 cards)
-    if (internalGame.pile.length > 6) {
-      claimProbability = 0.65; // 65% for large piles (reduced from 85%)
+    // Calculate claim probability (50% for a normal bot)
+    let claimProbability = tuning.claimProbability;
+
+    // Increase probability if pile is large (65% for a normal bot)
+    if (internalGame.pile.length > LARGE_PILE) {
+      claimProbability = tuning.largePileClaimProbability;
     }
 
     // Decide if bot should claim
-    if (Math.random() < claimProbability) {
+    if (this.roll(internalGame) < claimProbability) {
       // Don't create a new timeout if one already exists for this bot
       if (this.botTimeouts.has(botId)) {
         return;
       }
       
       // Longer delay for gestures to simulate completion time
-      let delay: number;
-      if (claim.gestureType) {
-        // For gestures: 2000-4000ms (2-4 seconds) to simulate gesture completion
-        delay = 2000 + Math.random() * 2000;
-      } else {
-        // Regular claim: 500-1200ms (increased from 300-900ms for slower reaction)
-        delay = 500 + Math.random() * 700;
-      }
+      // (2-4s for gestures and 500-1200ms for a regular claim with a normal bot)
+      const delay = sampleDelay(
+        claim.gestureType ? tuning.gesture : tuning.reaction,
+        () => this.roll(internalGame)
+      );
       
-      const timeout = setTimeout(() => {
+      const timeout = this.scheduler.schedule(() => {
         this.botTimeouts.delete(botId);
         // Pass the claimId for valid claims
         onClaim(botId, claim.id);
@@ -193,10 +233,8 @@ export class BotManager {
         this.handleBotTurn(room, bot.id, onFlip);
       }
 
-      // Check if there's an active claim window
-      if (internalGame.claim) {
-        this.handleBotClaim(room, bot.id, onClaim);
-      }
+      // Claim an open window, or occasionally false-slap when there is none
+      this.handleBotClaim(room, bot.id, onClaim);
     }
   }
 }
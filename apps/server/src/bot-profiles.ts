@@ -0,0 +1,130 @@
+import type { BotDifficulty, BotPersonality, BotProfile } from "@acme/shared";
+
+/**
+ * Range of delays in milliseconds
+ */
+export interface DelayRange {
+  min: number;
+  max: number;
+}
+
+/**
+ * Tunable numbers behind a bot's behaviour
+ */
+export interface BotTuning {
+  flipDelay: DelayRange; // Time to flip on its turn
+  reaction: DelayRange; // Time to claim a MATCH
+  gesture: DelayRange; // Time to complete a SPECIAL gesture
+  claimProbability: number; // Chance of claiming an open window
+  largePileClaimProbability: number; // Same, when the pile has more than LARGE_PILE cards
+  falseSlapRate: number; // Chance of slapping with no claim open, per state update
+}
+
+/**
+ * Pile size above which bots get greedier
+ */
+export const LARGE_PILE = 6;
+
+/**
+ * Default profile for bots created without one
+ */
+export const DEFAULT_BOT_PROFILE: BotProfile = { difficulty: "normal", personality: "balanced" };
+
+/**
+ * Base tuning per difficulty ("normal" keeps the original solo bot's ranges and odds, but its delays
+ * now cluster around the middle of each range instead of being uniform, see sampleDelay)
+ */
+const DIFFICULTIES: Record<BotDifficulty, BotTuning> = {
+  easy: {
+    flipDelay: { min: 900, max: 1600 },
+    reaction: { min: 900, max: 1800 },
+    gesture: { min: 3000, max: 5500 },
+    claimProbability: 0.35,
+    largePileClaimProbability: 0.5,
+    falseSlapRate: 0.02,
+  },
+  normal: {
+    flipDelay: { min: 600, max: 1200 },
+    reaction: { min: 500, max: 1200 },
+    gesture: { min: 2000, max: 4000 },
+    claimProbability: 0.5,
+    largePileClaimProbability: 0.65,
+    falseSlapRate: 0.05,
+  },
+  hard: {
+    flipDelay: { min: 500, max: 900 },
+    reaction: { min: 350, max: 800 },
+    gesture: { min: 1500, max: 2800 },
+    claimProbability: 0.75,
+    largePileClaimProbability: 0.85,
+    falseSlapRate: 0.04,
+  },
+  insane: {
+    flipDelay: { min: 400, max: 700 },
+    reaction: { min: 200, max: 450 },
+    gesture: { min: 900, max: 1600 },
+    claimProbability: 0.95,
+    largePileClaimProbability: 1,
+    falseSlapRate: 0.03,
+  },
+};
+
+/**
+ * Multipliers a personality applies on top of the difficulty
+ */
+interface PersonalityModifier {
+  reaction: number;
+  gesture: number;
+  claimProbability: number;
+  falseSlapRate: number;
+}
+
+const PERSONALITIES: Record<BotPersonality, PersonalityModifier> = {
+  balanced: { reaction: 1, gesture: 1, claimProbability: 1, falseSlapRate: 1 },
+  cautious: { reaction: 1.15, gesture: 1.1, claimProbability: 0.8, falseSlapRate: 0.2 },
+  trigger_happy: { reaction: 0.8, gesture: 0.9, claimProbability: 1.15, falseSlapRate: 3 },
+  slow_gesturer: { reaction: 1, gesture: 1.6, claimProbability: 1, falseSlapRate: 1 },
+};
+
+/**
+ * Names and avatars handed out to bots (each bot in a room gets a different one)
+ */
+export const BOT_IDENTITIES: ReadonlyArray<{ name: string; avatar: string }> = [
+  { name: "Taquito", avatar: "🌮" },
+  { name: "Michi", avatar: "🐱" },
+  { name: "Capi", avatar: "🦫" },
+  { name: "Churrito", avatar: "🥖" },
+  { name: "Donita", avatar: "🍩" },
+  { name: "Robotín", avatar: "🤖" },
+  { name: "Pixel", avatar: "👾" },
+  { name: "Chispa", avatar: "⚡" },
+];
+
+const scale = (range: DelayRange, factor: number): DelayRange => ({
+  min: Math.round(range.min * factor),
+  max: Math.round(range.max * factor),
+});
+
+/**
+ * Combines a difficulty and a personality into concrete numbers
+ */
+export function getBotTuning(profile: BotProfile = DEFAULT_BOT_PROFILE): BotTuning {
+  const base = DIFFICULTIES[profile.difficulty];
+  const modifier = PERSONALITIES[profile.personality];
+  return {
+    flipDelay: base.flipDelay,
+    reaction: scale(base.reaction, modifier.reaction),
+    gesture: scale(base.gesture, modifier.gesture),
+    claimProbability: Math.min(1, base.claimProbability * modifier.claimProbability),
+    largePileClaimProbability: Math.min(1, base.largePileClaimProbability * modifier.claimProbability),
+    falseSlapRate: Math.min(1, base.falseSlapRate * modifier.falseSlapRate),
+  };
+}
+
+/**
+ * Samples a delay from a range
+ * Averages two rolls so delays cluster around the middle like human reaction times
+ */
+export function sampleDelay(range: DelayRange, roll: () => number): number {
+  return range.min + ((roll() + roll()) / 2) * (range.max - range.min);
+}
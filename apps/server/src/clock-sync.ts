@@ -0,0 +1,69 @@
+import { CLOCK_SYNC_SAMPLES } from "@acme/shared";
+
+/**
+ * One ping/pong round trip
+ */
+interface ClockSample {
+  rtt: number; // Round trip in milliseconds
+  offset: number; // Client clock minus server clock
+}
+
+/**
+ * Clock sync - estimates each socket's round trip and clock offset from ping/pong samples
+ * The offset comes from the sample with the shortest round trip (least queuing noise),
+ * the reported round trip is the median of the recent samples
+ */
+export class ClockSync {
+  private samples = new Map<string, ClockSample[]>(); // socketId -> most recent samples
+
+  /**
+   * Records a pong (serverTime is echoed from the ping, clientTime is the client clock on reply)
+   */
+  recordPong(socketId: string, serverTime: number, clientTime: number, now: number = Date.now()): void {
+    const rtt = now - serverTime;
+    if (rtt < 0) {
+      return; // Not a ping we sent
+    }
+
+    const samples = this.samples.get(socketId) ?? [];
+    samples.push({ rtt, offset: clientTime - (serverTime + rtt / 2) });
+    if (samples.length > CLOCK_SYNC_SAMPLES) {
+      samples.shift();
+    }
+    this.samples.set(socketId, samples);
+  }
+
+  /**
+   * Median round trip for a socket (undefined until the first pong)
+   */
+  getRtt(socketId: string): number | undefined {
+    const samples = this.samples.get(socketId);
+    if (!samples || samples.length === 0) {
+      return undefined;
+    }
+    const sorted = samples.map((s) => s.rtt).sort((a, b) => a - b);
+    return sorted[Math.floor(sorted.length / 2)];
+  }
+
+  /**
+   * Converts a client clock time to server time (undefined until the first pong)
+   */
+  toServerTime(socketId: string, clientTime: number): number | undefined {
+    const samples = this.samples.get(socketId);
+    if (!samples || samples.length === 0) {
+      return undefined;
+    }
+    const best = samples.reduce((a, b) => (b.rtt < a.rtt ? b : a));
+    return clientTime - best.offset;
+  }
+
+  /**
+   * Forgets a socket's samples (on disconnect)
+   */
+  remove(socketId: string): void {
+    this.samples.delete(socketId);
+  }
+}
+
+// Singleton instance
+export const clockSync = new ClockSync();
@@ -0,0 +1,44 @@
+/**
+ * Summary statistics for the simulation and load-test reports
+ */
+
+export interface Distribution {
+  count: number;
+  mean: number;
+  min: number;
+  p10: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p90: number;
+  p95: number;
+  p99: number;
+  max: number;
+}
+
+/**
+ * Mean and percentiles of a list of numbers (nearest rank), rounded to 2 decimals
+ * An empty list gives all zeros
+ */
+export function describeDistribution(values: number[]): Distribution {
+  const sorted = [...values].sort((a, b) => a - b);
+  const round = (value: number) => Math.round(value * 100) / 100;
+  const at = (p: number) =>
+    sorted.length > 0
+      ? round(sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))])
+      : 0;
+  const sum = sorted.reduce((total, value) => total + value, 0);
+  return {
+    count: sorted.length,
+    mean: sorted.length > 0 ? round(sum / sorted.length) : 0,
+    min: at(0),
+    p10: at(0.1),
+    p25: at(0.25),
+    p50: at(0.5),
+    p75: at(0.75),
+    p90: at(0.9),
+    p95: at(0.95),
+    p99: at(0.99),
+    max: sorted.length > 0 ? round(sorted[sorted.length - 1]) : 0,
+  };
+}
@@ -0,0 +1,83 @@
+import type { GameLog, GameLogEvent, GameLogSummary, Player } from "@acme/shared";
+
+/**
+ * Number of game logs kept per room (oldest are dropped first)
+ */
+export const MAX_GAME_LOGS = 10;
+
+/**
+ * Creates an empty log for a game that is about to be dealt
+ */
+export function createGameLog(
+  roomCode: string,
+  gameNumber: number,
+  seed: number,
+  players: Player[],
+  startedAt: number = Date.now()
+): GameLog {
+  return {
+    roomCode,
+    gameNumber,
+    seed,
+    startedAt,
+    players: players.map((p) => ({ id: p.id, name: p.name, isBot: p.isBot })),
+    events: [],
+  };
+}
+
+/**
+ * Strips the events from a log (for listings)
+ */
+export function summarizeGameLog(log: GameLog): GameLogSummary {
+  return {
+    roomCode: log.roomCode,
+    gameNumber: log.gameNumber,
+    seed: log.seed,
+    startedAt: log.startedAt,
+    endedAt: log.endedAt,
+    players: log.players,
+  };
+}
+
+/**
+ * Renames a player id everywhere in a log
+ * Used when a reconnecting player's seat is rebound to a new socket id mid-game
+ */
+export function renamePlayerInGameLog(log: GameLog, oldId: string, newId: string): void {
+  const rename = (id: string) => (id === oldId ? newId : id);
+  const renameKeys = <T>(record: Record<string, T>): Record<string, T> =>
+    Object.fromEntries(Object.entries(record).map(([id, value]) => [rename(id), value]));
+
+  for (const player of log.players) {
+    player.id = rename(player.id);
+  }
+
+  log.events = log.events.map((event): GameLogEvent => {
+    switch (event.type) {
+      case "DEAL":
+        return { ...event, handCounts: renameKeys(event.handCounts) };
+      case "FLIP":
+      case "CLAIM_ATTEMPT":
+      case "FALSE_SLAP":
+      case "STATUS_CHANGE":
+        return { ...event, playerId: rename(event.playerId) };
+      case "SEAT_FILLED":
+        return { ...event, playerId: rename(event.playerId), botId: rename(event.botId) };
+      case "CLAIM_RESOLVED":
+        return {
+          ...event,
+          claimers: event.claimers.map(rename),
+          distribution: renameKeys(event.distribution),
+        };
+      case "END":
+        return {
+          ...event,
+          handCounts: renameKeys(event.handCounts),
+          playerStatuses: renameKeys(event.playerStatuses),
+          placements: event.placements.map(rename),
+        };
+      default:
+        return event;
+    }
+  });
+}
@@ -0,0 +1,111 @@
+import type { GameAward, GameLog, GameSummary } from "@acme/shared";
+
+/**
+ * Keeps the highest (or lowest) value seen, first one wins ties
+ */
+function pickAward(
+  values: Record<string, number>,
+  better: (a: number, b: number) => boolean
+): GameAward | null {
+  let award: GameAward | null = null;
+  for (const [playerId, value] of Object.entries(values)) {
+    if (!award || better(value, award.value)) {
+      award = { playerId, value };
+    }
+  }
+  return award;
+}
+
+/**
+ * Builds the end-of-game summary from a finished game's log
+ */
+export function buildGameSummary(log: GameLog): GameSummary {
+  const cardsTaken: Record<string, number> = {};
+  const gesturesCompleted: Record<string, number> = {};
+  const falseSlaps: Record<string, number> = {};
+  const claimTotals: Record<string, { total: number; count: number }> = {};
+  const leftIds = new Set<string>();
+  const claimOpens = new Map<string, { opensAt: number; isGesture: boolean }>();
+  let fastestClaim: GameAward | null = null;
+  let longestPile: GameAward | null = null;
+  let placements: string[] = [];
+
+  const takeCards = (playerId: string, count: number) => {
+    if (count <= 0) return;
+    cardsTaken[playerId] = (cardsTaken[playerId] ?? 0) + count;
+    if (!longestPile || count > longestPile.value) {
+      longestPile = { playerId, value: count };
+    }
+  };
+
+  for (const event of log.events) {
+    switch (event.type) {
+      case "DEAL":
+        for (const playerId of Object.keys(event.handCounts)) {
+          cardsTaken[playerId] = 0;
+          gesturesCompleted[playerId] = 0;
+        }
+        break;
+      case "CLAIM_OPEN":
+        claimOpens.set(event.claimId, { opensAt: event.at, isGesture: !!event.gestureType });
+        break;
+      case "CLAIM_ATTEMPT": {
+        const claim = claimOpens.get(event.claimId);
+        if (!claim) break;
+
+        const elapsed = Math.max(0, (event.claimedAt ?? event.at) - claim.opensAt);
+        const totals = (claimTotals[event.playerId] ??= { total: 0, count: 0 });
+        totals.total += elapsed;
+        totals.count += 1;
+        if (!fastestClaim || elapsed < fastestClaim.value) {
+          fastestClaim = { playerId: event.playerId, value: elapsed };
+        }
+        if (claim.isGesture) {
+          gesturesCompleted[event.playerId] = (gesturesCompleted[event.playerId] ?? 0) + 1;
+        }
+        break;
+      }
+      case "CLAIM_RESOLVED":
+        for (const [playerId, count] of Object.entries(event.distribution)) {
+          takeCards(playerId, count);
+        }
+        break;
+      case "FALSE_SLAP":
+        falseSlaps[event.playerId] = (falseSlaps[event.playerId] ?? 0) + 1;
+        takeCards(event.playerId, event.cardsTaken);
+        break;
+      case "SEAT_FILLED":
+        leftIds.add(event.playerId);
+        break;
+      case "END":
+        placements = event.placements;
+        break;
+      default:
+        break;
+    }
+  }
+
+  // The engine's placings (the bots in the seats of players who left), then the players who left
+  const finishingOrder = [
+    ...placements,
+    ...log.players.filter((p) => leftIds.has(p.id)).map((p) => p.id),
+  ];
+
+  // Slowest claimer only makes sense when more than one player claimed
+  const averages = Object.fromEntries(
+    Object.entries(claimTotals).map(([playerId, { total, count }]) => [playerId, Math.round(total / count)])
+  );
+  const slowestClaimer =
+    Object.keys(averages).length > 1 ? pickAward(averages, (a, b) => a > b) : null;
+
+  return {
+    players: log.players.map((p) => ({ ...p })),
+    finishingOrder,
+    cardsTaken,
+    gesturesCompleted,
+    fastestClaim,
+    slowestClaimer,
+    mostFalseSlaps: pickAward(falseSlaps, (a, b) => a > b),
+    longestPile,
+  };
+}
@@ -7,17 +7,57 @@ import {
   RoomCreateSchema,
   RoomCreateSoloSchema,
   RoomJoinSchema,
+  RoomRejoinSchema,
+  RoomSpectateSchema,
+  TakeSeatSchema,
   ReadyToggleSchema,
   StartGameSchema,
   RematchRequestSchema,
   FlipRequestSchema,
   ClaimAttemptSchema,
+  SettingsUpdateSchema,
+  AddBotSchema,
+  RemoveBotSchema,
+  ClockPongSchema,
+  QuickMatchSchema,
+  LobbyListRequestSchema,
+  ChatSendSchema,
+  KickPlayerSchema,
+  TransferHostSchema,
+  LockRoomSchema,
+  NicknameClaimSchema,
+  ProfileIdSchema,
+  RoomResyncSchema,
+  CLOCK_SYNC_INTERVAL_MS,
+  MAX_ROOMS_PER_IP,
+  IDLE_ROOM_SWEEP_INTERVAL_MS,
+  ErrorCode,
+  type ErrorPayload,
+  type NicknameClaimResponse,
 } from "@acme/shared";
 import { RoomManager } from "./room-manager";
 import { botManager } from "./bot-manager";
+import { clockSync } from "./clock-sync";
+import { FileRoomStore, MemoryRoomStore } from "./room-store";
+import { FileStatsStore, MemoryStatsStore } from "./stats-store";
+import { claimNickname, toPlayerStats } from "./player-stats";
+import {
+  applyRateLimit,
+  getClientIp,
+  pruneRateLimits,
+  rateLimitRoute,
+  RoomQuota,
+} from "./socket-rate-limit";
+import { StateSync } from "./state-sync";
 
 const PORT = process.env.PORT || 3001;
 const CORS_ORIGIN = process.env.WEB_ORIGIN ?? "http://localhost:3000";
+const ROOM_STORE = process.env.ROOM_STORE ?? "memory";
+const ROOM_STORE_DIR = process.env.ROOM_STORE_DIR ?? "./data/rooms";
+const STATS_STORE = process.env.STATS_STORE ?? ROOM_STORE;
+const STATS_STORE_DIR = process.env.STATS_STORE_DIR ?? "./data/players";
+const TRUST_PROXY = process.env.TRUST_PROXY === "true"; // Read client IPs from X-Forwarded-For
+const METRICS = process.env.METRICS === "true"; // Serve GET /metrics (for the load test, never in production)
 
 const app = express();
 const httpServer = createServer(app);
@@ -32,53 +72,240 @@ const io = new Server(httpServer, {
 app.use(cors({ origin: CORS_ORIGIN }));
 app.use(express.json());
 
-const roomManager = new RoomManager();
+const roomStore = ROOM_STORE === "file" ? new FileRoomStore(ROOM_STORE_DIR) : new MemoryRoomStore();
+const roomManager = new RoomManager(roomStore);
+const statsStore = STATS_STORE === "file" ? new FileStatsStore(STATS_STORE_DIR) : new MemoryStatsStore();
 
 // Set IO instance for room manager
-roomManager.setIO(io);
+roomManager.setStateListener((room) => broadcastState(room.code));
+roomManager.setBotManager(botManager);
+roomManager.setClockSync(clockSync);
+roomManager.setStatsStore(statsStore);
+
+// Versioned room states, broadcast as patches
+const stateSync = new StateSync();
+
+// Open rooms each IP may have created
+const roomQuota = new RoomQuota(MAX_ROOMS_PER_IP, (code) => roomManager.getRoom(code) !== null);
 
 // Health check endpoint
 app.get("/health", (_req: Request, res: Response) => {
   res.json({ status: "ok" });
 });
 
+// Process load (polled by the load test to track memory growth), only with METRICS=true
+if (METRICS) {
+  app.get("/metrics", (_req: Request, res: Response) => {
+    const memory = process.memoryUsage();
+    res.json({
+      uptimeSec: Math.round(process.uptime()),
+      rooms: roomStore.values().length,
+      sockets: io.engine.clientsCount,
+      rssBytes: memory.rss,
+      heapUsedBytes: memory.heapUsed,
+    });
+  });
+}
+
+// Open public lobbies, fullest first
+app.get("/rooms", (_req: Request, res: Response) => {
+  res.json(roomManager.listPublicRooms());
+});
+
+// Finished games recorded for a room
+app.get("/rooms/:code/games", (req: Request, res: Response) => {
+  const games = roomManager.listGameLogs(req.params.code.toUpperCase());
+  if (!games) {
+    res.status(404).json({ message: "Room not found" });
+    return;
+  }
+  res.json(games);
+});
+
+// Full event log of a finished game (for replays)
+app.get("/rooms/:code/games/:n/log", (req: Request, res: Response) => {
+  const log = roomManager.getGameLog(req.params.code.toUpperCase(), Number(req.params.n));
+  if (!log) {
+    res.status(404).json({ message: "Game not found" });
+    return;
+  }
+  // The DEAL event carries the seed, which would reveal every hand of a running game
+  if (log.endedAt === undefined) {
+    res.status(409).json({ message: "Game is still in progress" });
+    return;
+  }
+  res.json(log);
+});
+
+// Stats of a guest profile
+app.get("/players/:id/stats", (req: Request, res: Response) => {
+  const record = statsStore.get(req.params.id);
+  if (!record) {
+    res.status(404).json({ message: "No stats for this player yet" });
+    return;
+  }
+  res.json(toPlayerStats(record));
+});
+
+// Claim a nickname for a guest profile (unique across profiles)
+// Only profiles with a finished game; the first claim returns the secret the next ones need
+app.post(
+  "/players/:id/nickname",
+  rateLimitRoute("nicknameClaim", TRUST_PROXY),
+  (req: Request, res: Response) => {
+    const profileId = ProfileIdSchema.safeParse(req.params.id);
+    const result = NicknameClaimSchema.safeParse(req.body);
+    if (!profileId.success || !result.success) {
+      res.status(400).json({ message: "Invalid profile id or nickname" });
+      return;
+    }
+    const { nickname, profileSecret } = result.data;
+    const claim = claimNickname(statsStore, profileId.data, nickname, profileSecret);
+    if (!claim.ok) {
+      switch (claim.reason) {
+        case "NO_PROFILE":
+          res.status(404).json({ message: "No stats for this player yet" });
+          return;
+        case "WRONG_SECRET":
+          res.status(403).json({ message: "Wrong profile secret" });
+          return;
+        case "TAKEN":
+          res.status(409).json({ message: "Nickname already taken" });
+          return;
+      }
+    }
+    res.json({
+      ...toPlayerStats(claim.record),
+      profileSecret: claim.profileSecret,
+    } satisfies NicknameClaimResponse);
+  }
+);
+
+// Helper function to broadcast what changed in a room since its last version (nothing if unchanged)
+const broadcastState = (roomCode: string) => {
+  const room = roomManager.getRoom(roomCode);
+  if (!room) {
+    stateSync.remove(roomCode);
+    return;
+  }
+
+  const patch = stateSync.update(room, roomManager.getRoomState(room));
+  if (patch) {
+    io.to(roomCode).emit(EVENTS.ROOM_PATCH, patch);
+  }
+};
+
+// Helper function to broadcast room state changes, then run quick-match starts, bots and turn skips
+const emitRoomState = (roomCode: string) => {
+  const room = roomManager.getRoom(roomCode);
+  if (!room) {
+    stateSync.remove(roomCode);
+    return;
+  }
+
+  // Quick-match lobbies start on their own (may switch the room to IN_GAME right away)
+  roomManager.scheduleQuickMatchStart(room, (startedRoom) => {
+    emitRoomState(startedRoom.code);
+    console.log(`Quick-match countdown ran out, game started in room ${startedRoom.code}`);
+  });
+
+  broadcastState(roomCode);
+
+  // Process bot actions after state update
+  if (room.phase === "IN_GAME") {
+    botManager.processBotActions(
+      room,
+      (botId: string) => {
+        const flipped = roomManager.flipCard(botId);
+        if (flipped.ok) {
+          emitRoomState(flipped.value.code);
+        }
+      },
+      (botId: string, claimId?: string) => {
+        const claimed = roomManager.claimAttempt(botId, claimId);
+        if (claimed.ok) {
+          emitRoomState(claimed.value.code);
+        }
+      }
+    );
+
+    // Skip the turn of a disconnected player after a short wait
+    roomManager.scheduleDisconnectedTurnSkip(room, (skippedRoom) => {
+      emitRoomState(skippedRoom.code);
+    });
+  }
+};
+
+// Restore rooms from the store (no-op for the in-memory store)
+const restoredRooms = roomManager.rehydrate((leftRoom, roomCode) => {
+  console.log(`Grace period expired for a restored player in room ${roomCode}`);
+  if (leftRoom) {
+    botManager.cleanup(roomCode, leftRoom);
+    emitRoomState(leftRoom.code);
+  }
+});
+if (restoredRooms > 0) {
+  console.log(`♻️  Restored ${restoredRooms} room(s) from ${ROOM_STORE} store`);
+}
+
 io.on("connection", (socket) => {
   console.log(`Client connected: ${socket.id}`);
 
-  // Helper function to emit room state
-  const emitRoomState = (roomCode: string) => {
-    const room = roomManager.getRoom(roomCode);
-    if (!room) return;
+  const ip = getClientIp(socket, TRUST_PROXY);
+  applyRateLimit(socket, ip);
 
-    const gameState = roomManager.getGameState(room);
+  // Events from room members keep their room from being closed as idle (background traffic doesn't count)
+  socket.use(([event], next) => {
+    if (event !== EVENTS.CLOCK_PONG && event !== EVENTS.LOBBY_LIST_REQUEST && event !== EVENTS.ROOM_RESYNC) {
+      roomManager.touch(socket.id);
+    }
+    next();
+  });
 
-    io.to(roomCode).emit(EVENTS.ROOM_STATE, {
-      code: room.code,
-      phase: room.phase,
-      hostId: room.hostId,
-      players: room.players,
-      createdAt: room.createdAt,
-      game: gameState,
+  // Ping regularly so claims can be ordered by reaction time instead of arrival time
+  let lastClockPingAt = 0;
+  const sendClockPing = () => {
+    lastClockPingAt = Date.now();
+    socket.emit(EVENTS.CLOCK_PING, { serverTime: lastClockPingAt });
+  };
+  sendClockPing();
+  const clockPingInterval = setInterval(sendClockPing, CLOCK_SYNC_INTERVAL_MS);
+
+  // Helper function to send the session token to this socket only
+  const emitSession = (roomCode: string) => {
+    const sessionToken = roomManager.issueSession(socket.id);
+    if (!sessionToken) return;
+    socket.emit(EVENTS.SESSION, {
+      code: roomCode,
+      playerId: socket.id,
+      sessionToken,
     });
+  };
 
-    // Process bot actions after state update
-    if (room.phase === "IN_GAME") {
-      botManager.processBotActions(
-        room,
-        (botId: string) => {
-          const botRoom = roomManager.flipCard(botId);
-          if (botRoom) {
-            emitRoomState(botRoom.code);
-          }
-        },
-        (botId: string, claimId?: string) => {
-          const botRoom = roomManager.claimAttempt(botId, claimId);
-          if (botRoom) {
-            emitRoomState(botRoom.code);
-          }
-        }
-      );
+  // Helper function to send the room's full state to this socket only (joins and resyncs)
+  // Called right after emitRoomState, so the snapshot is the version the next patch builds on
+  const emitSnapshot = (roomCode: string) => {
+    const snapshot = stateSync.snapshot(roomCode);
+    if (snapshot) {
+      socket.emit(EVENTS.ROOM_STATE, snapshot);
+    }
+  };
+
+  // Helper function to send the room's recent chat to this socket only
+  const emitChatHistory = (roomCode: string) => {
+    socket.emit(EVENTS.CHAT_HISTORY, { messages: roomManager.getChatHistory(roomCode) });
+  };
+
+  // Refuses room creation once this IP has MAX_ROOMS_PER_IP open rooms
+  const checkRoomQuota = (): boolean => {
+    if (roomQuota.canCreate(ip)) {
+      return true;
     }
+    socket.emit(EVENTS.ERROR, {
+      code: ErrorCode.ROOM_QUOTA_EXCEEDED,
+      params: { max: MAX_ROOMS_PER_IP },
+    } satisfies ErrorPayload);
+    return false;
   };
 
   // Handle room creation
@@ -86,16 +313,28 @@ io.on("connection", (socket) => {
     const result = RoomCreateSchema.safeParse(payload);
     if (!result.success) {
       socket.emit(EVENTS.ERROR, {
-        message: "Invalid payload: " + result.error.message,
-      } satisfies { message: string });
+        code: ErrorCode.INVALID_PAYLOAD,
+        params: { details: result.error.message },
+      } satisfies ErrorPayload);
       return;
     }
 
-    const { name } = result.data;
-    const room = roomManager.createRoom(name, socket.id);
+    if (!checkRoomQuota()) {
+      return;
+    }
+
+    const { name, profileId, password } = result.data;
+    const room = roomManager.createRoom(name, socket.id, password);
+    roomQuota.record(ip, room.code);
+    if (profileId) {
+      roomManager.attachProfile(socket.id, profileId);
+    }
     socket.join(room.code);
+    emitChatHistory(room.code);
 
+    emitSession(room.code);
     emitRoomState(room.code);
+    emitSnapshot(room.code);
 
     console.log(`Room created: ${room.code} by ${socket.id}`);
   });
@@ -105,20 +344,39 @@ io.on("connection", (socket) => {
     const result = RoomCreateSoloSchema.safeParse(payload);
     if (!result.success) {
       socket.emit(EVENTS.ERROR, {
-        message: "Invalid payload: " + result.error.message,
-      } satisfies { message: string });
+        code: ErrorCode.INVALID_PAYLOAD,
+        params: { details: result.error.message },
+      } satisfies ErrorPayload);
       return;
     }
 
-    const { name } = result.data;
-    const room = roomManager.createSoloRoom(name, socket.id, botManager);
+    if (!checkRoomQuota()) {
+      return;
+    }
+
+    const { name, difficulty, personality, botCount, profileId } = result.data;
+    const created = roomManager.createSoloRoom(name, socket.id, { difficulty, personality }, botCount);
+    if (!created.ok) {
+      socket.emit(EVENTS.ERROR, created.error);
+      return;
+    }
+    const room = created.value;
+    roomQuota.record(ip, room.code);
+    // Before the auto-start, so the game log knows the player's profile
+    if (profileId) {
+      roomManager.attachProfile(socket.id, profileId);
+    }
     socket.join(room.code);
+    emitChatHistory(room.code);
+    emitSession(room.code);
 
     // Auto-start the game for solo mode
-    const startedRoom = roomManager.startGame(socket.id);
-    if (startedRoom) {
+    const started = roomManager.startGame(socket.id);
+    if (started.ok) {
+      const startedRoom = started.value;
       // Emit state immediately, then process bots after a small delay
       emitRoomState(startedRoom.code);
+      emitSnapshot(startedRoom.code);
       // Small delay to ensure game state is fully initialized before processing bots
       setTimeout(() => {
         const room = roomManager.getRoom(startedRoom.code);
@@ -129,6 +387,7 @@ io.on("connection", (socket) => {
       console.log(`Solo room created and game started: ${startedRoom.code} by ${socket.id}`);
     } else {
       emitRoomState(room.code);
+      emitSnapshot(room.code);
       console.log(`Solo room created: ${room.code} by ${socket.id}`);
     }
   });
@@ -138,35 +397,166 @@ io.on("connection", (socket) => {
     const result = RoomJoinSchema.safeParse(payload);
     if (!result.success) {
       socket.emit(EVENTS.ERROR, {
-        message: "Invalid payload: " + result.error.message,
-      } satisfies { message: string });
+        code: ErrorCode.INVALID_PAYLOAD,
+        params: { details: result.error.message },
+      } satisfies ErrorPayload);
       return;
     }
 
-    const { code, name } = result.data;
-    const existingRoom = roomManager.getRoom(code);
-    
-    // Check if room exists and is full before attempting to join
-    if (existingRoom && existingRoom.phase === "LOBBY" && existingRoom.players.length >= 6) {
+    const { code, name, profileId, password } = result.data;
+    const joined = roomManager.joinRoom(code, name, socket.id, profileId, password);
+    if (!joined.ok) {
+      socket.emit(EVENTS.ERROR, joined.error);
+      return;
+    }
+    const room = joined.value;
+    if (profileId) {
+      roomManager.attachProfile(socket.id, profileId);
+    }
+
+    socket.join(room.code);
+    emitChatHistory(room.code);
+    emitSession(room.code);
+    emitRoomState(room.code);
+    emitSnapshot(room.code);
+
+    console.log(`Player ${socket.id} joined room ${code}`);
+  });
+
+  // Handle quick match (fullest open public lobby, or a new one)
+  socket.on(EVENTS.QUICK_MATCH, (payload) => {
+    const result = QuickMatchSchema.safeParse(payload);
+    if (!result.success) {
       socket.emit(EVENTS.ERROR, {
-        message: `Room ${code} is full (maximum 6 players)`,
-      } satisfies { message: string });
+        code: ErrorCode.INVALID_PAYLOAD,
+        params: { details: result.error.message },
+      } satisfies ErrorPayload);
       return;
     }
 
-    const room = roomManager.joinRoom(code, name, socket.id);
+    const { name, profileId } = result.data;
+    const matched = roomManager.quickMatch(name, socket.id, profileId, roomQuota.canCreate(ip));
+    if (!matched) {
+      checkRoomQuota(); // Nowhere to join and over the quota: tells the client
+      return;
+    }
+    const { room, created } = matched;
+    if (created) {
+      roomQuota.record(ip, room.code);
+    }
+    if (profileId) {
+      roomManager.attachProfile(socket.id, profileId);
+    }
 
-    if (!room) {
+    socket.join(room.code);
+    emitChatHistory(room.code);
+    emitSession(room.code);
+    emitRoomState(room.code);
+    emitSnapshot(room.code);
+
+    console.log(`Player ${socket.id} quick-matched into room ${room.code}`);
+  });
+
+  // Handle lobby browser request
+  socket.on(EVENTS.LOBBY_LIST_REQUEST, (payload) => {
+    const result = LobbyListRequestSchema.safeParse(payload);
+    if (!result.success) {
       socket.emit(EVENTS.ERROR, {
-        message: `Room ${code} not found or game has already started`,
-      } satisfies { message: string });
+        code: ErrorCode.INVALID_PAYLOAD,
+        params: { details: result.error.message },
+      } satisfies ErrorPayload);
       return;
     }
 
+    socket.emit(EVENTS.LOBBY_LIST, { rooms: roomManager.listPublicRooms() });
+  });
+
+  // Handle room rejoin (new socket reclaiming a held seat)
+  socket.on(EVENTS.ROOM_REJOIN, (payload) => {
+    const result = RoomRejoinSchema.safeParse(payload);
+    if (!result.success) {
+      socket.emit(EVENTS.ERROR, {
+        code: ErrorCode.INVALID_PAYLOAD,
+        params: { details: result.error.message },
+      } satisfies ErrorPayload);
+      return;
+    }
+
+    const { code, sessionToken } = result.data;
+    const rejoined = roomManager.rejoinRoom(code, sessionToken, socket.id);
+    if (!rejoined.ok) {
+      socket.emit(EVENTS.ERROR, rejoined.error);
+      return;
+    }
+
+    const { room, previousPlayerId } = rejoined.value;
+
+    // If the previous socket is somehow still connected, detach it from the room
+    const previousSocket = io.sockets.sockets.get(previousPlayerId);
+    if (previousSocket && previousSocket.id !== socket.id) {
+      previousSocket.leave(room.code);
+    }
+
     socket.join(room.code);
+    emitChatHistory(room.code);
+    emitSession(room.code);
     emitRoomState(room.code);
+    emitSnapshot(room.code);
 
-    console.log(`Player ${socket.id} joined room ${code}`);
+    console.log(`Player ${previousPlayerId} rejoined room ${code} as ${socket.id}`);
+  });
+
+  // Handle spectating a room (any phase)
+  socket.on(EVENTS.ROOM_SPECTATE, (payload) => {
+    const result = RoomSpectateSchema.safeParse(payload);
+    if (!result.success) {
+      socket.emit(EVENTS.ERROR, {
+        code: ErrorCode.INVALID_PAYLOAD,
+        params: { details: result.error.message },
+      } satisfies ErrorPayload);
+      return;
+    }
+
+    const { code, name, profileId, password } = result.data;
+    const watching = roomManager.spectateRoom(code, name, socket.id, profileId, password);
+    if (!watching.ok) {
+      socket.emit(EVENTS.ERROR, watching.error);
+      return;
+    }
+    const room = watching.value;
+    if (profileId) {
+      roomManager.attachProfile(socket.id, profileId);
+    }
+
+    socket.join(room.code);
+    emitChatHistory(room.code);
+    emitRoomState(room.code);
+    emitSnapshot(room.code);
+
+    console.log(`Spectator ${socket.id} is watching room ${code}`);
+  });
+
+  // Handle a spectator taking a seat (lobby, or before a rematch)
+  socket.on(EVENTS.TAKE_SEAT, (payload) => {
+    const result = TakeSeatSchema.safeParse(payload);
+    if (!result.success) {
+      socket.emit(EVENTS.ERROR, {
+        code: ErrorCode.INVALID_PAYLOAD,
+        params: { details: result.error.message },
+      } satisfies ErrorPayload);
+      return;
+    }
+
+    const seated = roomManager.takeSeat(socket.id);
+    if (!seated.ok) {
+      socket.emit(EVENTS.ERROR, seated.error);
+      return;
+    }
+    const room = seated.value;
+
+    emitSession(room.code);
+    emitRoomState(room.code);
+    console.log(`Spectator ${socket.id} took a seat in room ${room.code}`);
   });
 
   // Handle ready toggle
@@ -175,63 +565,187 @@ io.on("connection", (socket) => {
     const result = ReadyToggleSchema.safeParse(payload);
     if (!result.success) {
       socket.emit(EVENTS.ERROR, {
-        message: "Invalid payload: " + result.error.message,
-      } satisfies { message: string });
+        code: ErrorCode.INVALID_PAYLOAD,
+        params: { details: result.error.message },
+      } satisfies ErrorPayload);
       return;
     }
 
-    const room = roomManager.toggleReady(socket.id);
-    if (!room) {
-      socket.emit(EVENTS.ERROR, {
-        message: "You are not in a room or the game has already started",
-      } satisfies { message: string });
+    const toggled = roomManager.toggleReady(socket.id);
+    if (!toggled.ok) {
+      socket.emit(EVENTS.ERROR, toggled.error);
       return;
     }
+    const room = toggled.value;
 
     emitRoomState(room.code);
     console.log(`Player ${socket.id} toggled ready in room ${room.code}`);
   });
 
+  // Handle house rules update (host only, lobby only)
+  socket.on(EVENTS.SETTINGS_UPDATE, (payload) => {
+    const result = SettingsUpdateSchema.safeParse(payload);
+    if (!result.success) {
+      socket.emit(EVENTS.ERROR, {
+        code: ErrorCode.INVALID_PAYLOAD,
+        params: { details: result.error.message },
+      } satisfies ErrorPayload);
+      return;
+    }
+
+    const updated = roomManager.updateSettings(socket.id, result.data);
+    if (!updated.ok) {
+      socket.emit(EVENTS.ERROR, updated.error);
+      return;
+    }
+    const room = updated.value;
+
+    emitRoomState(room.code);
+    console.log(`Host ${socket.id} updated the rules in room ${room.code}`);
+  });
+
+  // Handle adding a bot (host only, lobby only)
+  socket.on(EVENTS.ADD_BOT, (payload) => {
+    const result = AddBotSchema.safeParse(payload);
+    if (!result.success) {
+      socket.emit(EVENTS.ERROR, {
+        code: ErrorCode.INVALID_PAYLOAD,
+        params: { details: result.error.message },
+      } satisfies ErrorPayload);
+      return;
+    }
+
+    const updated = roomManager.addBot(socket.id, result.data);
+    if (!updated.ok) {
+      socket.emit(EVENTS.ERROR, updated.error);
+      return;
+    }
+    const room = updated.value;
+
+    emitRoomState(room.code);
+    console.log(`Host ${socket.id} added a bot to room ${room.code}`);
+  });
+
+  // Handle removing a bot (host only, lobby only)
+  socket.on(EVENTS.REMOVE_BOT, (payload) => {
+    const result = RemoveBotSchema.safeParse(payload);
+    if (!result.success) {
+      socket.emit(EVENTS.ERROR, {
+        code: ErrorCode.INVALID_PAYLOAD,
+        params: { details: result.error.message },
+      } satisfies ErrorPayload);
+      return;
+    }
+
+    const updated = roomManager.removeBot(socket.id, result.data.botId);
+    if (!updated.ok) {
+      socket.emit(EVENTS.ERROR, updated.error);
+      return;
+    }
+    const room = updated.value;
+
+    emitRoomState(room.code);
+    console.log(`Host ${socket.id} removed bot ${result.data.botId} from room ${room.code}`);
+  });
+
+  // Handle kicking a player or spectator (host only)
+  socket.on(EVENTS.KICK_PLAYER, (payload) => {
+    const result = KickPlayerSchema.safeParse(payload);
+    if (!result.success) {
+      socket.emit(EVENTS.ERROR, {
+        code: ErrorCode.INVALID_PAYLOAD,
+        params: { details: result.error.message },
+      } satisfies ErrorPayload);
+      return;
+    }
+
+    const { playerId } = result.data;
+    const kicked = roomManager.kickPlayer(socket.id, playerId);
+    if (!kicked.ok) {
+      socket.emit(EVENTS.ERROR, kicked.error);
+      return;
+    }
+    const room = kicked.value;
+
+    // Tell the kicked socket and take it out of the room's broadcasts
+    const kickedSocket = io.sockets.sockets.get(playerId);
+    if (kickedSocket) {
+      kickedSocket.emit(EVENTS.KICKED, { code: room.code });
+      kickedSocket.leave(room.code);
+    }
+
+    botManager.cleanup(room.code, room);
+    emitRoomState(room.code);
+    console.log(`Host ${socket.id} kicked ${playerId} from room ${room.code}`);
+  });
+
+  // Handle handing the host role to another player (host only)
+  socket.on(EVENTS.TRANSFER_HOST, (payload) => {
+    const result = TransferHostSchema.safeParse(payload);
+    if (!result.success) {
+      socket.emit(EVENTS.ERROR, {
+        code: ErrorCode.INVALID_PAYLOAD,
+        params: { details: result.error.message },
+      } satisfies ErrorPayload);
+      return;
+    }
+
+    const transferred = roomManager.transferHost(socket.id, result.data.playerId);
+    if (!transferred.ok) {
+      socket.emit(EVENTS.ERROR, transferred.error);
+      return;
+    }
+    const room = transferred.value;
+
+    emitRoomState(room.code);
+    console.log(`Host ${socket.id} handed the host role to ${room.hostId} in room ${room.code}`);
+  });
+
+  // Handle locking or unlocking the room (host only)
+  socket.on(EVENTS.LOCK_ROOM, (payload) => {
+    const result = LockRoomSchema.safeParse(payload);
+    if (!result.success) {
+      socket.emit(EVENTS.ERROR, {
+        code: ErrorCode.INVALID_PAYLOAD,
+        params: { details: result.error.message },
+      } satisfies ErrorPayload);
+      return;
+    }
+
+    const updated = roomManager.setLocked(socket.id, result.data.locked);
+    if (!updated.ok) {
+      socket.emit(EVENTS.ERROR, updated.error);
+      return;
+    }
+    const room = updated.value;
+
+    emitRoomState(room.code);
+    console.log(`Host ${socket.id} ${result.data.locked ? "locked" : "unlocked"} room ${room.code}`);
+  });
+
   // Handle start game
   socket.on(EVENTS.START_GAME, (payload) => {
     // Validate payload (empty object)
     const result = StartGameSchema.safeParse(payload);
     if (!result.success) {
       socket.emit(EVENTS.ERROR, {
-        message: "Invalid payload: " + result.error.message,
-      } satisfies { message: string });
+        code: ErrorCode.INVALID_PAYLOAD,
+        params: { details: result.error.message },
+      } satisfies ErrorPayload);
       return;
     }
 
-    const room = roomManager.startGame(socket.id);
-    if (!room) {
-      const playerRoom = roomManager.getPlayerRoom(socket.id);
-      if (!playerRoom) {
-        socket.emit(EVENTS.ERROR, {
-          message: "You are not in a room",
-        } satisfies { message: string });
-      } else if (playerRoom.hostId !== socket.id) {
-        socket.emit(EVENTS.ERROR, {
-          message: "Only the host can start the game",
-        } satisfies { message: string });
-      } else if (playerRoom.phase !== "LOBBY") {
-        socket.emit(EVENTS.ERROR, {
-          message: "Game has already started",
-        } satisfies { message: string });
-      } else if (playerRoom.players.length < 2) {
-        socket.emit(EVENTS.ERROR, {
-          message: "Need at least 2 players to start",
-        } satisfies { message: string });
-      } else {
-        socket.emit(EVENTS.ERROR, {
-          message: "All players must be ready to start",
-        } satisfies { message: string });
-      }
+    const started = roomManager.startGame(socket.id, result.data.seed);
+    if (!started.ok) {
+      socket.emit(EVENTS.ERROR, started.error);
       return;
     }
+    const room = started.value;
 
     emitRoomState(room.code);
-    console.log(`Game started in room ${room.code} by ${socket.id}`);
+    console.log(
+      `Game started in room ${room.code} by ${socket.id} (seed ${roomManager.getRoom(room.code)?.internalGame?.rng.seed})`
+    );
   });
 
   // Handle rematch request
@@ -240,33 +754,18 @@ io.on("connection", (socket) => {
     const result = RematchRequestSchema.safeParse(payload);
     if (!result.success) {
       socket.emit(EVENTS.ERROR, {
-        message: "Invalid payload: " + result.error.message,
-      } satisfies { message: string });
+        code: ErrorCode.INVALID_PAYLOAD,
+        params: { details: result.error.message },
+      } satisfies ErrorPayload);
       return;
     }
 
-    const room = roomManager.rematch(socket.id);
-    if (!room) {
-      const playerRoom = roomManager.getPlayerRoom(socket.id);
-      if (!playerRoom) {
-        socket.emit(EVENTS.ERROR, {
-          message: "You are not in a room",
-        } satisfies { message: string });
-      } else if (playerRoom.hostId !== socket.id) {
-        socket.emit(EVENTS.ERROR, {
-          message: "Only the host can start a rematch",
-        } satisfies { message: string });
-      } else if (playerRoom.phase !== "ENDED") {
-        socket.emit(EVENTS.ERROR, {
-          message: "Can only rematch when the game has ended",
-        } satisfies { message: string });
-      } else if (playerRoom.players.length < 2) {
-        socket.emit(EVENTS.ERROR, {
-          message: "Need at least 2 players to rematch",
-        } satisfies { message: string });
-      }
+    const restarted = roomManager.rematch(socket.id);
+    if (!restarted.ok) {
+      socket.emit(EVENTS.ERROR, restarted.error);
       return;
     }
+    const room = restarted.value;
 
     emitRoomState(room.code);
     console.log(`Rematch started in room ${room.code} by ${socket.id}`);
@@ -277,29 +776,18 @@ io.on("connection", (socket) => {
     const result = FlipRequestSchema.safeParse(payload);
     if (!result.success) {
       socket.emit(EVENTS.ERROR, {
-        message: "Invalid payload: " + result.error.message,
-      } satisfies { message: string });
+        code: ErrorCode.INVALID_PAYLOAD,
+        params: { details: result.error.message },
+      } satisfies ErrorPayload);
       return;
     }
 
-    const room = roomManager.flipCard(socket.id);
-    if (!room) {
-      const playerRoom = roomManager.getPlayerRoom(socket.id);
-      if (!playerRoom) {
-        socket.emit(EVENTS.ERROR, {
-          message: "You are not in a room",
-        } satisfies { message: string });
-      } else if (playerRoom.phase !== "IN_GAME") {
-        socket.emit(EVENTS.ERROR, {
-          message: "Game is not in progress",
-        } satisfies { message: string });
-      } else {
-        socket.emit(EVENTS.ERROR, {
-          message: "It's not your turn",
-        } satisfies { message: string });
-      }
+    const flipped = roomManager.flipCard(socket.id);
+    if (!flipped.ok) {
+      socket.emit(EVENTS.ERROR, flipped.error);
       return;
     }
+    const room = flipped.value;
 
     emitRoomState(room.code);
     console.log(`Player ${socket.id} flipped a card in room ${room.code}`);
@@ -317,19 +805,19 @@ io.on("connection", (socket) => {
     const result = ClaimAttemptSchema.safeParse(payload);
     if (!result.success) {
       socket.emit(EVENTS.ERROR, {
-        message: "Invalid payload: " + result.error.message,
-      } satisfies { message: string });
+        code: ErrorCode.INVALID_PAYLOAD,
+        params: { details: result.error.message },
+      } satisfies ErrorPayload);
       return;
     }
 
-    const { claimId } = result.data;
-    const room = roomManager.claimAttempt(socket.id, claimId);
-    if (!room) {
-      socket.emit(EVENTS.ERROR, {
-        message: "You are not in a room or game is not in progress",
-      } satisfies { message: string });
+    const { claimId, proof, reactedAt } = result.data;
+    const claimed = roomManager.claimAttempt(socket.id, claimId, proof, reactedAt);
+    if (!claimed.ok) {
+      socket.emit(EVENTS.ERROR, claimed.error);
       return;
     }
+    const room = claimed.value;
 
     emitRoomState(room.code);
     console.log(`Player ${socket.id} attempted claim in room ${room.code}`);
@@ -349,25 +837,106 @@ io.on("connection", (socket) => {
     }
   });
 
+  // Handle chat messages and emotes (players and spectators)
+  socket.on(EVENTS.CHAT_SEND, (payload) => {
+    const result = ChatSendSchema.safeParse(payload);
+    if (!result.success) {
+      socket.emit(EVENTS.ERROR, {
+        code: ErrorCode.INVALID_PAYLOAD,
+        params: { details: result.error.message },
+      } satisfies ErrorPayload);
+      return;
+    }
+
+    const sent = roomManager.sendChat(socket.id, result.data);
+    if (!sent.ok) {
+      socket.emit(EVENTS.ERROR, sent.error);
+      return;
+    }
+
+    const { room, message } = sent.value;
+    io.to(room.code).emit(EVENTS.CHAT_MESSAGE, message);
+  });
+
+  // Handle resync request (the client missed a patch)
+  socket.on(EVENTS.ROOM_RESYNC, (payload) => {
+    const result = RoomResyncSchema.safeParse(payload);
+    if (!result.success) {
+      socket.emit(EVENTS.ERROR, {
+        code: ErrorCode.INVALID_PAYLOAD,
+        params: { details: result.error.message },
+      } satisfies ErrorPayload);
+      return;
+    }
+
+    const room = roomManager.getPlayerRoom(socket.id);
+    if (!room) {
+      socket.emit(EVENTS.ERROR, { code: ErrorCode.NOT_IN_ROOM } satisfies ErrorPayload);
+      return;
+    }
+
+    emitSnapshot(room.code);
+  });
+
+  // Handle clock sync reply
+  socket.on(EVENTS.CLOCK_PONG, (payload) => {
+    const result = ClockPongSchema.safeParse(payload);
+    // Pongs are best-effort (no error round trip); only the latest ping counts so a client can't fake its latency
+    if (!result.success || result.data.serverTime !== lastClockPingAt) {
+      return;
+    }
+    clockSync.recordPong(socket.id, result.data.serverTime, result.data.clientTime);
+  });
+
   // Handle disconnection
+  // The seat is held for a grace period so the player can rejoin with their session token
   socket.on("disconnect", () => {
     console.log(`Client disconnected: ${socket.id}`);
-    const room = roomManager.getPlayerRoom(socket.id);
-    const roomCode = room?.code;
-    const leftRoom = roomManager.leaveRoom(socket.id);
-    if (roomCode && room) {
-      botManager.cleanup(roomCode, room);
-    }
-    if (leftRoom) {
-      socket.leave(leftRoom.code);
-      emitRoomState(leftRoom.code);
+    clearInterval(clockPingInterval);
+    clockSync.remove(socket.id);
+    const room = roomManager.disconnectPlayer(socket.id, (leftRoom, roomCode) => {
+      console.log(`Grace period expired for ${socket.id} in room ${roomCode}`);
+      if (leftRoom) {
+        botManager.cleanup(roomCode, leftRoom);
+        emitRoomState(leftRoom.code);
+      }
+    });
+    if (room) {
+      emitRoomState(room.code);
     }
   });
 });
 
+// Close rooms nobody has touched for a while (lobbies and finished games only)
+const idleRoomSweep = setInterval(() => {
+  for (const room of roomManager.collectIdleRooms()) {
+    botManager.cleanup(room.code, room);
+    io.to(room.code).emit(EVENTS.ROOM_CLOSED, { code: room.code, reason: "IDLE" });
+    io.in(room.code).socketsLeave(room.code);
+    console.log(`Room closed (idle): ${room.code}`);
+  }
+  pruneRateLimits();
+  stateSync.retain((code) => roomManager.getRoom(code) !== null);
+}, IDLE_ROOM_SWEEP_INTERVAL_MS);
+
+// Flush pending room snapshots before the process exits (deploys send SIGTERM)
+const shutdown = () => {
+  clearInterval(idleRoomSweep);
+  if (roomStore instanceof FileRoomStore) {
+    roomStore.flush();
+  }
+  if (statsStore instanceof FileStatsStore) {
+    statsStore.flush();
+  }
+  process.exit(0);
+};
+process.on("SIGTERM", shutdown);
+process.on("SIGINT", shutdown);
+
 httpServer.listen(Number(PORT), "0.0.0.0", () => {
   console.log(`🚀 Server running on port ${PORT}`);
   console.log(`📡 Socket.IO server ready`);
   console.log(`🌐 CORS enabled for ${CORS_ORIGIN}`);
+  console.log(`💾 Room store: ${ROOM_STORE}`);
 });
 
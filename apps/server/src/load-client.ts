@@ -0,0 +1,392 @@
+import { io, type Socket } from "socket.io-client";
+import {
+  EVENTS,
+  ClockPingSchema,
+  ErrorSchema,
+  RoomPatchSchema,
+  RoomSnapshotSchema,
+  SessionSchema,
+  applyRoomPatch,
+  type ClaimAttemptPayload,
+  type ClockPongPayload,
+  type GameLogEvent,
+  type RoomCreatePayload,
+  type RoomJoinPayload,
+  type RoomState,
+} from "@acme/shared";
+import { buildGestureProof } from "./load-gestures";
+
+/**
+ * Simulated player for load tests
+ *
+ * Connects like the web client (same events, payloads validated with the shared schemas), keeps the
+ * room state from snapshots and patches, and plays at human speed: flips on its turn, claims most
+ * windows, now and then slaps by mistake. The host of each room also starts games and rematches.
+ */
+
+/**
+ * Counters and samples shared by every client of a load test
+ */
+export interface LoadMetrics {
+  flips: number;
+  claims: number;
+  falseSlaps: number;
+  resyncs: number; // Patches that arrived out of order
+  invalidPayloads: number; // Server events that failed schema validation
+  gamesStarted: number;
+  gamesFinished: number;
+  errors: Record<string, number>; // ERROR events by code
+  flipRttMs: number[]; // FLIP_REQUEST sent -> state showing the flip received
+  claimRttMs: number[]; // CLAIM_ATTEMPT sent -> state showing the claim received
+  claimTimerDriftMs: number[]; // Expired windows: server CLAIM_RESOLVED time - closesAt
+  claimDeliveryDriftMs: number[]; // Expired windows: patch received (client clock) - closesAt
+}
+
+export function createLoadMetrics(): LoadMetrics {
+  return {
+    flips: 0,
+    claims: 0,
+    falseSlaps: 0,
+    resyncs: 0,
+    invalidPayloads: 0,
+    gamesStarted: 0,
+    gamesFinished: 0,
+    errors: {},
+    flipRttMs: [],
+    claimRttMs: [],
+    claimTimerDriftMs: [],
+    claimDeliveryDriftMs: [],
+  };
+}
+
+export interface LoadClientOptions {
+  url: string;
+  name: string;
+  localAddress?: string; // Address to connect from, so per-IP limits treat clients apart
+  host?: { players: number }; // Host: starts the game once this many players are ready, then rematches
+}
+
+// Human-ish timings (ms)
+const FLIP_DELAY = [300, 900];
+const CLAIM_DELAY = [300, 1200];
+const GESTURE_DELAY = [1500, 3000];
+const FALSE_SLAP_DELAY = [300, 500];
+const GESTURE_DURATION_MS = 1000; // Span of the samples in a built gesture proof
+const REMATCH_DELAY_MS = 1500;
+const CLAIM_PROBABILITY = 0.75;
+const FALSE_SLAP_PROBABILITY = 0.02; // Per flip seen with no window open
+
+// Action waiting for the state that shows it (to time the round trip)
+interface PendingAction {
+  sentAt: number;
+  samples: number[];
+  isDone: (state: RoomState) => boolean;
+}
+
+/**
+ * Options engine.io-client passes on to the Node WebSocket but leaves out of its types
+ */
+function nodeSocketOptions(localAddress?: string): object {
+  return localAddress ? { localAddress, family: 4 } : {};
+}
+
+export class LoadClient {
+  private socket: Socket;
+  private state?: RoomState;
+  private seq?: number;
+  private playerId?: string;
+  private pending: Partial<Record<"flip" | "claim", PendingAction>> = {};
+  private timers = new Set<NodeJS.Timeout>();
+  private flipScheduled = false;
+  private decidedClaimId?: string; // Last window this client decided on (claim or pass)
+  private openClaim?: { id: string; closesAt: number }; // Host only, to measure drift
+  private startRequested = false;
+  private stopped = false;
+
+  constructor(
+    private options: LoadClientOptions,
+    private metrics: LoadMetrics
+  ) {
+    this.socket = io(options.url, {
+      transports: ["websocket"],
+      reconnection: false,
+      autoConnect: false,
+      forceNew: true,
+      ...nodeSocketOptions(options.localAddress),
+    });
+
+    this.socket.on(EVENTS.CLOCK_PING, (payload) => {
+      const ping = ClockPingSchema.safeParse(payload);
+      if (ping.success) {
+        this.socket.emit(EVENTS.CLOCK_PONG, {
+          serverTime: ping.data.serverTime,
+          clientTime: Date.now(),
+        } satisfies ClockPongPayload);
+      }
+    });
+
+    this.socket.on(EVENTS.ROOM_STATE, (payload) => {
+      const snapshot = RoomSnapshotSchema.safeParse(payload);
+      if (!snapshot.success) {
+        this.metrics.invalidPayloads++;
+        return;
+      }
+      const { seq, ...state } = snapshot.data;
+      this.seq = seq;
+      this.onState(state);
+    });
+
+    this.socket.on(EVENTS.ROOM_PATCH, (payload) => {
+      const patch = RoomPatchSchema.safeParse(payload);
+      if (!patch.success) {
+        this.metrics.invalidPayloads++;
+        return;
+      }
+      if (!this.state || this.seq === undefined) {
+        return;
+      }
+      // Same gap handling as the web client: drop it and ask for a snapshot
+      if (patch.data.seq !== this.seq + 1) {
+        this.metrics.resyncs++;
+        this.seq = undefined;
+        this.socket.emit(EVENTS.ROOM_RESYNC, {});
+        return;
+      }
+      this.seq = patch.data.seq;
+      if (this.options.host) {
+        this.trackClaimDrift(patch.data.events ?? []);
+      }
+      this.onState(applyRoomPatch(this.state, patch.data));
+    });
+
+    this.socket.on(EVENTS.ERROR, (payload) => {
+      const error = ErrorSchema.safeParse(payload);
+      const code = error.success ? error.data.code : "INVALID";
+      this.metrics.errors[code] = (this.metrics.errors[code] ?? 0) + 1;
+      this.pending = {};
+    });
+  }
+
+  /**
+   * Opens the connection
+   */
+  connect(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.socket.once("connect", () => resolve());
+      this.socket.once("connect_error", reject);
+      this.socket.connect();
+    });
+  }
+
+  /**
+   * Creates a room and resolves with its code
+   */
+  async createRoom(): Promise<string> {
+    this.socket.emit(EVENTS.ROOM_CREATE, { name: this.options.name } satisfies RoomCreatePayload);
+    const code = await this.waitForSession();
+    this.socket.emit(EVENTS.READY_TOGGLE, {});
+    return code;
+  }
+
+  /**
+   * Joins a room and marks this client ready
+   */
+  async joinRoom(code: string): Promise<void> {
+    this.socket.emit(EVENTS.ROOM_JOIN, { code, name: this.options.name } satisfies RoomJoinPayload);
+    await this.waitForSession();
+    this.socket.emit(EVENTS.READY_TOGGLE, {});
+  }
+
+  /**
+   * Stops playing and disconnects
+   */
+  stop(): void {
+    this.stopped = true;
+    this.timers.forEach((timer) => clearTimeout(timer));
+    this.timers.clear();
+    this.socket.disconnect();
+  }
+
+  private waitForSession(): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const onSession = (payload: unknown) => {
+        this.socket.off(EVENTS.ERROR, onError);
+        const session = SessionSchema.safeParse(payload);
+        if (!session.success) {
+          reject(new Error("Invalid SESSION payload"));
+          return;
+        }
+        this.playerId = session.data.playerId;
+        resolve(session.data.code);
+      };
+      const onError = (payload: unknown) => {
+        this.socket.off(EVENTS.SESSION, onSession);
+        const error = ErrorSchema.safeParse(payload);
+        reject(new Error(`Server refused: ${error.success ? error.data.code : "unknown error"}`));
+      };
+      this.socket.once(EVENTS.SESSION, onSession);
+      this.socket.once(EVENTS.ERROR, onError);
+    });
+  }
+
+  /**
+   * Runs callback after a random delay in [min, max] ms, unless the client has stopped
+   */
+  private later([min, max]: number[], callback: () => void): void {
+    const timer = setTimeout(
+      () => {
+        this.timers.delete(timer);
+        if (!this.stopped) callback();
+      },
+      min + Math.random() * (max - min)
+    );
+    this.timers.add(timer);
+  }
+
+  private send(
+    event: string,
+    payload: object,
+    rtt?: { kind: "flip" | "claim" } & Omit<PendingAction, "sentAt">
+  ): void {
+    if (rtt) {
+      this.pending[rtt.kind] = { ...rtt, sentAt: Date.now() };
+    }
+    this.socket.emit(event, payload);
+  }
+
+  private onState(state: RoomState): void {
+    const previous = this.state;
+    this.state = state;
+
+    for (const kind of ["flip", "claim"] as const) {
+      const pending = this.pending[kind];
+      if (pending?.isDone(state)) {
+        pending.samples.push(Date.now() - pending.sentAt);
+        delete this.pending[kind];
+      }
+    }
+
+    if (this.options.host) {
+      this.driveRoom(state, previous);
+    }
+    if (state.phase === "IN_GAME" && state.game) {
+      this.play(state, previous);
+    }
+  }
+
+  /**
+   * Host duties: start once everyone is ready, rematch when a game ends
+   */
+  private driveRoom(state: RoomState, previous?: RoomState): void {
+    const { players } = this.options.host!;
+    if (state.phase === "IN_GAME" && previous?.phase !== "IN_GAME") {
+      this.metrics.gamesStarted++;
+    }
+
+    if (state.phase === "LOBBY" && !this.startRequested) {
+      if (state.players.length === players && state.players.every((p) => p.ready)) {
+        this.startRequested = true;
+        this.send(EVENTS.START_GAME, {});
+      }
+    }
+
+    if (state.phase === "ENDED" && previous?.phase === "IN_GAME") {
+      this.metrics.gamesFinished++;
+      this.later([REMATCH_DELAY_MS, REMATCH_DELAY_MS], () => this.send(EVENTS.REMATCH_REQUEST, {}));
+    }
+  }
+
+  private play(state: RoomState, previous?: RoomState): void {
+    const game = state.game!;
+    const me = this.playerId!;
+    const status = game.playerStatuses[me];
+    if (!status || status === "OUT") {
+      return;
+    }
+
+    // Flip on our turn, between claim windows (once the previous flip has landed)
+    if (game.turnPlayerId === me && !game.claim && !this.flipScheduled && !this.pending.flip) {
+      this.flipScheduled = true;
+      this.later(FLIP_DELAY, () => {
+        this.flipScheduled = false;
+        // A window may have opened or the turn moved on while we waited (the next state retries)
+        const current = this.state?.game;
+        if (this.state?.phase !== "IN_GAME" || current?.turnPlayerId !== me || current.claim) {
+          return;
+        }
+        const pileCount = current.pileCount;
+        this.metrics.flips++;
+        this.send(
+          EVENTS.FLIP_REQUEST,
+          {},
+          {
+            kind: "flip",
+            samples: this.metrics.flipRttMs,
+            isDone: (next) => next.game?.pileCount !== pileCount || next.phase !== "IN_GAME",
+          }
+        );
+      });
+    }
+
+    // Decide once per claim window
+    const claim = game.claim;
+    if (claim && claim.id !== this.decidedClaimId) {
+      this.decidedClaimId = claim.id;
+      if (Math.random() < CLAIM_PROBABILITY) {
+        this.later(claim.gestureType ? GESTURE_DELAY : CLAIM_DELAY, () => {
+          const now = Date.now();
+          const payload: ClaimAttemptPayload = {
+            claimId: claim.id,
+            reactedAt: now,
+            proof: claim.gestureType
+              ? buildGestureProof(
+                  claim.gestureType,
+                  claim.id,
+                  now - GESTURE_DURATION_MS,
+                  GESTURE_DURATION_MS
+                )
+              : undefined,
+          };
+          this.metrics.claims++;
+          this.send(EVENTS.CLAIM_ATTEMPT, payload, {
+            kind: "claim",
+            samples: this.metrics.claimRttMs,
+            isDone: (next) =>
+              next.game?.claim?.id !== claim.id || next.game.claim.claimers.includes(me),
+          });
+        });
+      }
+      return;
+    }
+
+    // Occasionally slap a card that opened nothing
+    const flipped = previous?.game && game.pileCount > previous.game.pileCount;
+    if (!claim && flipped && Math.random() < FALSE_SLAP_PROBABILITY) {
+      this.later(FALSE_SLAP_DELAY, () => {
+        if (this.state?.game?.claim) return;
+        this.metrics.falseSlaps++;
+        this.send(EVENTS.CLAIM_ATTEMPT, {} satisfies ClaimAttemptPayload);
+      });
+    }
+  }
+
+  /**
+   * Records how late expired claim windows were closed (by the server timer, and as seen here)
+   */
+  private trackClaimDrift(events: GameLogEvent[]): void {
+    const receivedAt = Date.now();
+    for (const event of events) {
+      if (event.type === "CLAIM_OPEN") {
+        this.openClaim = { id: event.claimId, closesAt: event.closesAt };
+      } else if (event.type === "CLAIM_RESOLVED" && event.claimId === this.openClaim?.id) {
+        // Windows everyone claimed close early; only expired ones say anything about timer lag
+        const { closesAt } = this.openClaim;
+        if (event.at >= closesAt) {
+          this.metrics.claimTimerDriftMs.push(event.at - closesAt);
+          this.metrics.claimDeliveryDriftMs.push(receivedAt - closesAt);
+        }
+        this.openClaim = undefined;
+      }
+    }
+  }
+}
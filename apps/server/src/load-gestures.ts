@@ -0,0 +1,70 @@
+import {
+  BUBBLES_COUNT,
+  BUBBLES_MIN_DISTANCE_PX,
+  BUBBLES_SIZE_PX,
+  CIRCLE_MIN_POINTS,
+  CLICK_FRENZY_MIN_INTERVAL_MS,
+  CLICK_FRENZY_REQUIRED_CLICKS,
+  generateBubblePositions,
+  type GestureProof,
+  type GestureType,
+} from "@acme/shared";
+
+// Layout used by proofs built without a pointer
+const BUILT_BUBBLES_AREA_PX = 320;
+const BUILT_CIRCLE_RADIUS_PX = 80;
+
+/**
+ * Builds a valid proof for a load-test client, which has no pointer to record
+ * Samples are spread evenly from startedAt over durationMs; the proof passes validateGestureProof
+ * as long as durationMs fits in the claim window
+ */
+export function buildGestureProof(
+  type: GestureType,
+  claimId: string,
+  startedAt: number,
+  durationMs: number
+): GestureProof {
+  const timeAt = (i: number, count: number) =>
+    startedAt + (count > 1 ? (durationMs * i) / (count - 1) : 0);
+
+  switch (type) {
+    case "CLICK_FRENZY": {
+      const interval = Math.max(
+        CLICK_FRENZY_MIN_INTERVAL_MS,
+        durationMs / (CLICK_FRENZY_REQUIRED_CLICKS - 1)
+      );
+      const clicks = Array.from(
+        { length: CLICK_FRENZY_REQUIRED_CLICKS },
+        (_, i) => startedAt + i * interval
+      );
+      return { type, clicks };
+    }
+    case "BUBBLES": {
+      const size = BUILT_BUBBLES_AREA_PX;
+      const positions = generateBubblePositions(
+        claimId,
+        BUBBLES_COUNT,
+        BUBBLES_MIN_DISTANCE_PX,
+        BUBBLES_SIZE_PX,
+        size,
+        size
+      );
+      const pops = positions.map((pos, i) => ({ ...pos, t: timeAt(i, positions.length) }));
+      return { type, width: size, height: size, pops };
+    }
+    case "CIRCLE": {
+      // One full turn around the target center, ending where it started
+      const count = CIRCLE_MIN_POINTS * 2 + 1;
+      const points = Array.from({ length: count }, (_, i) => {
+        const angle = (2 * Math.PI * i) / (count - 1);
+        return {
+          x: Math.cos(angle) * BUILT_CIRCLE_RADIUS_PX,
+          y: Math.sin(angle) * BUILT_CIRCLE_RADIUS_PX,
+          t: timeAt(i, count),
+        };
+      });
+      return { type, points };
+    }
+  }
+}
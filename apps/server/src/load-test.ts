@@ -0,0 +1,211 @@
+import { writeFileSync } from "fs";
+import { parseArgs } from "util";
+import { MAX_PLAYERS } from "@acme/shared";
+import { describeDistribution } from "./distribution";
+import { LoadClient, createLoadMetrics } from "./load-client";
+
+/**
+ * Socket load test
+ *
+ *   METRICS=true pnpm -C apps/server dev   # in one terminal
+ *   pnpm loadtest --rooms 50 --players 4 --duration 120
+ *
+ * Fills rooms with simulated players that play real games over Socket.IO, then reports
+ * round-trip latency, how late expired claim windows closed, and how the server's memory grew.
+ */
+
+const USAGE = `Usage: loadtest [options]
+
+  --url <url>           Server to load (default http://localhost:3001)
+  --rooms <n>           Rooms to fill (default 10)
+  --players <n>         Players per room, 2-${MAX_PLAYERS} (default 4)
+  --duration <s>        How long to play once every room is up (default 60)
+  --ramp-ms <ms>        Pause between opening two rooms (default 200)
+  --sample-every <s>    Server memory sampling interval (default 5)
+  --out <file>          Write the JSON report to a file instead of stdout
+
+Against a local server on Linux every client connects from its own loopback address
+(127.1.x.y), so the per-IP rate limits and room quota treat them apart. Anywhere else all
+clients share one address and those limits will refuse most of the traffic. Memory is read
+from GET /metrics, which the server only serves with METRICS=true.
+`;
+
+// Server /metrics response
+interface ServerMetrics {
+  uptimeSec: number;
+  rooms: number;
+  sockets: number;
+  rssBytes: number;
+  heapUsedBytes: number;
+}
+
+interface MemorySample {
+  atSec: number; // Since the load test started
+  rooms: number;
+  sockets: number;
+  rssMb: number;
+  heapUsedMb: number;
+}
+
+function fail(message: string): never {
+  console.error(`${message}\n\n${USAGE}`);
+  process.exit(1);
+}
+
+function toInt(flag: string, value: string | undefined): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    fail(`--${flag} must be a non-negative integer (got "${value}")`);
+  }
+  return parsed;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+const toMb = (bytes: number) => Math.round((bytes / 1024 / 1024) * 10) / 10;
+
+// Source address of a client: 127.1.x.y, one per client (Linux routes all of 127.0.0.0/8 to loopback)
+const clientAddress = (index: number) => `127.1.${Math.floor(index / 250)}.${(index % 250) + 1}`;
+const LOOPBACK_HOSTS = new Set(["localhost", "127.0.0.1"]);
+
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      url: { type: "string", default: "http://localhost:3001" },
+      rooms: { type: "string", default: "10" },
+      players: { type: "string", default: "4" },
+      duration: { type: "string", default: "60" },
+      "ramp-ms": { type: "string", default: "200" },
+      "sample-every": { type: "string", default: "5" },
+      out: { type: "string" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const url = values.url!;
+  const rooms = toInt("rooms", values.rooms);
+  const players = toInt("players", values.players);
+  const durationSec = toInt("duration", values.duration);
+  const rampMs = toInt("ramp-ms", values["ramp-ms"]);
+  const sampleEverySec = toInt("sample-every", values["sample-every"]);
+  const spreadAddresses = process.platform === "linux" && LOOPBACK_HOSTS.has(new URL(url).hostname);
+  if (rooms < 1) fail("--rooms must be at least 1");
+  if (players < 2 || players > MAX_PLAYERS) fail(`--players must be between 2 and ${MAX_PLAYERS}`);
+  if (sampleEverySec < 1) fail("--sample-every must be at least 1");
+
+  const startedAt = Date.now();
+  const memory: MemorySample[] = [];
+  const sampleMemory = async () => {
+    try {
+      const response = await fetch(`${url}/metrics`);
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status} (is the server running with METRICS=true?)`);
+      }
+      const metrics = (await response.json()) as ServerMetrics;
+      memory.push({
+        atSec: Math.round((Date.now() - startedAt) / 1000),
+        rooms: metrics.rooms,
+        sockets: metrics.sockets,
+        rssMb: toMb(metrics.rssBytes),
+        heapUsedMb: toMb(metrics.heapUsedBytes),
+      });
+    } catch (error) {
+      console.error(`Could not read ${url}/metrics:`, error);
+    }
+  };
+
+  await sampleMemory();
+  if (memory.length === 0) {
+    fail(`No server answering at ${url} with METRICS=true`);
+  }
+  const sampler = setInterval(sampleMemory, sampleEverySec * 1000);
+
+  // Open the rooms one after another: the host creates it, the others join
+  const metrics = createLoadMetrics();
+  const clients: LoadClient[] = [];
+  let failedRooms = 0;
+  for (let room = 0; room < rooms; room++) {
+    const seats = Array.from({ length: players }, (_, seat) => {
+      const index = room * players + seat;
+      return new LoadClient(
+        {
+          url,
+          name: `Load ${room + 1}-${seat + 1}`,
+          localAddress: spreadAddresses ? clientAddress(index) : undefined,
+          host: seat === 0 ? { players } : undefined,
+        },
+        metrics
+      );
+    });
+    clients.push(...seats);
+
+    try {
+      await Promise.all(seats.map((client) => client.connect()));
+      const code = await seats[0].createRoom();
+      await Promise.all(seats.slice(1).map((client) => client.joinRoom(code)));
+    } catch (error) {
+      failedRooms++;
+      console.error(
+        `Room ${room + 1} could not be set up:`,
+        error instanceof Error ? error.message : error
+      );
+    }
+    process.stderr.write(`\r${room + 1}/${rooms} rooms open`);
+    await sleep(rampMs);
+  }
+  process.stderr.write(`, playing for ${durationSec}s...\n`);
+
+  await sleep(durationSec * 1000);
+  clients.forEach((client) => client.stop());
+  clearInterval(sampler);
+  await sleep(1000); // Let the server notice the disconnects
+  await sampleMemory();
+
+  const first = memory[0];
+  const last = memory[memory.length - 1];
+  const report = {
+    config: { url, rooms, players, durationSec, rampMs },
+    elapsedSec: Math.round((Date.now() - startedAt) / 1000),
+    clients: clients.length,
+    failedRooms,
+    games: { started: metrics.gamesStarted, finished: metrics.gamesFinished },
+    traffic: {
+      flips: metrics.flips,
+      claims: metrics.claims,
+      falseSlaps: metrics.falseSlaps,
+      resyncs: metrics.resyncs,
+      invalidPayloads: metrics.invalidPayloads,
+      errors: metrics.errors,
+    },
+    rttMs: {
+      flip: describeDistribution(metrics.flipRttMs),
+      claim: describeDistribution(metrics.claimRttMs),
+    },
+    claimDriftMs: {
+      timer: describeDistribution(metrics.claimTimerDriftMs), // Server side: event loop lag
+      delivery: describeDistribution(metrics.claimDeliveryDriftMs), // Client side: assumes synced clocks
+    },
+    memory: {
+      rssGrowthMb: Math.round((last.rssMb - first.rssMb) * 10) / 10,
+      heapGrowthMb: Math.round((last.heapUsedMb - first.heapUsedMb) * 10) / 10,
+      peakRssMb: Math.max(...memory.map((sample) => sample.rssMb)),
+      samples: memory,
+    },
+  };
+
+  const json = JSON.stringify(report, null, 2) + "\n";
+  if (values.out) {
+    writeFileSync(values.out, json);
+  } else {
+    process.stdout.write(json);
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
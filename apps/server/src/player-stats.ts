@@ -0,0 +1,221 @@
+import { randomBytes } from "crypto";
+import type { GameLog, GestureType, PlayerGameStatus, PlayerStats } from "@acme/shared";
+import { hashRoomPassword, verifyRoomPassword } from "./room-password";
+import type { StatsStore } from "./stats-store";
+
+/**
+ * Stored stats for a profile (raw totals, averages are derived when served)
+ */
+export interface PlayerStatsRecord {
+  profileId: string;
+  nickname?: string; // Claimed nickname (unique across profiles)
+  secretHash?: string; // Issued with the first nickname claim, needed for the next ones (server-side only)
+  gamesPlayed: number;
+  wins: number; // First place
+  losses: number; // Last place, left holding cards
+  placementTotal: number; // Sum of the places in placementCount games (for the average)
+  placementCount: number; // Games finished with a place (not left mid-game)
+  reactionCount: number; // MATCH claims counted in reactionTotalMs
+  reactionTotalMs: number;
+  falseSlaps: number;
+  gestureAttempts: number;
+  gestureSuccesses: number;
+  fastestGestureMs: Partial<Record<GestureType, number>>;
+  updatedAt: number;
+}
+
+/**
+ * Creates an empty stats record
+ */
+export function createStatsRecord(profileId: string): PlayerStatsRecord {
+  return {
+    profileId,
+    gamesPlayed: 0,
+    wins: 0,
+    losses: 0,
+    placementTotal: 0,
+    placementCount: 0,
+    reactionCount: 0,
+    reactionTotalMs: 0,
+    falseSlaps: 0,
+    gestureAttempts: 0,
+    gestureSuccesses: 0,
+    fastestGestureMs: {},
+    updatedAt: Date.now(),
+  };
+}
+
+/**
+ * Builds the public stats payload from a stored record
+ */
+export function toPlayerStats(record: PlayerStatsRecord): PlayerStats {
+  return {
+    profileId: record.profileId,
+    nickname: record.nickname,
+    gamesPlayed: record.gamesPlayed,
+    wins: record.wins,
+    losses: record.losses,
+    averagePlacement:
+      record.placementCount > 0
+        ? Math.round((record.placementTotal / record.placementCount) * 10) / 10
+        : null,
+    averageReactionMs:
+      record.reactionCount > 0 ? Math.round(record.reactionTotalMs / record.reactionCount) : null,
+    falseSlaps: record.falseSlaps,
+    gestureAttempts: record.gestureAttempts,
+    gestureSuccesses: record.gestureSuccesses,
+    gestureSuccessRate:
+      record.gestureAttempts > 0 ? record.gestureSuccesses / record.gestureAttempts : null,
+    fastestGestureMs: { ...record.fastestGestureMs },
+    updatedAt: record.updatedAt,
+  };
+}
+
+/**
+ * Adds a finished game to the stats of every profiled player in it
+ * Walks the event log, so the numbers match what a replay of the game shows
+ * profiles maps the log's player ids to their guest profiles (kept out of the public log)
+ */
+export function recordGameStats(
+  store: StatsStore,
+  log: GameLog,
+  profiles: Record<string, string>
+): void {
+  const playerToProfile = new Map<string, string>();
+  for (const player of log.players) {
+    const profileId = profiles[player.id];
+    if (!player.isBot && profileId) {
+      playerToProfile.set(player.id, profileId);
+    }
+  }
+  if (playerToProfile.size === 0) return;
+
+  const now = Date.now();
+  const records = new Map<string, PlayerStatsRecord>();
+  const recordFor = (playerId: string): PlayerStatsRecord | undefined => {
+    const profileId = playerToProfile.get(playerId);
+    if (!profileId) return undefined;
+    let record = records.get(profileId);
+    if (!record) {
+      record = store.get(profileId) ?? createStatsRecord(profileId);
+      records.set(profileId, record);
+    }
+    return record;
+  };
+
+  const statuses: Record<string, PlayerGameStatus> = {};
+  const openClaims = new Map<string, { opensAt: number; gestureType: GestureType | null }>();
+
+  for (const event of log.events) {
+    switch (event.type) {
+      case "DEAL":
+        for (const playerId of Object.keys(event.handCounts)) {
+          statuses[playerId] = "ACTIVE";
+          const record = recordFor(playerId);
+          if (record) record.gamesPlayed += 1;
+        }
+        break;
+      case "STATUS_CHANGE":
+        statuses[event.playerId] = event.to;
+        break;
+      case "CLAIM_OPEN":
+        openClaims.set(event.claimId, { opensAt: event.at, gestureType: event.gestureType });
+        if (event.gestureType) {
+          for (const [playerId, status] of Object.entries(statuses)) {
+            const record = status !== "OUT" ? recordFor(playerId) : undefined;
+            if (record) record.gestureAttempts += 1;
+          }
+        }
+        break;
+      case "CLAIM_ATTEMPT": {
+        const claim = openClaims.get(event.claimId);
+        const record = recordFor(event.playerId);
+        if (!claim || !record) break;
+
+        const elapsed = Math.max(0, (event.claimedAt ?? event.at) - claim.opensAt);
+        if (claim.gestureType) {
+          record.gestureSuccesses += 1;
+          const fastest = record.fastestGestureMs[claim.gestureType];
+          if (fastest === undefined || elapsed < fastest) {
+            record.fastestGestureMs[claim.gestureType] = elapsed;
+          }
+        } else {
+          record.reactionCount += 1;
+          record.reactionTotalMs += elapsed;
+        }
+        break;
+      }
+      case "FALSE_SLAP": {
+        const record = recordFor(event.playerId);
+        if (record) record.falseSlaps += 1;
+        break;
+      }
+      case "SEAT_FILLED":
+        // The bot plays on from here; the player who left keeps what they did so far
+        statuses[event.playerId] = "OUT";
+        break;
+      case "END":
+        // Only first place wins; last place loses when left holding cards (as in GameState.loserId)
+        event.placements.forEach((playerId, index) => {
+          const record = recordFor(playerId);
+          if (!record) return;
+          record.placementTotal += index + 1;
+          record.placementCount += 1;
+          if (index === 0) {
+            record.wins += 1;
+          } else if (index === event.placements.length - 1 && event.handCounts[playerId] > 0) {
+            record.losses += 1;
+          }
+        });
+        break;
+      default:
+        break;
+    }
+  }
+
+  for (const record of records.values()) {
+    record.updatedAt = now;
+    store.save(record);
+  }
+}
+
+export type NicknameClaim =
+  | { ok: true; record: PlayerStatsRecord; profileSecret?: string }
+  | { ok: false; reason: "NO_PROFILE" | "WRONG_SECRET" | "TAKEN" };
+
+/**
+ * Claims a nickname for a profile that has finished at least one game
+ * The first claim issues the profile's secret; every later claim must send it back
+ */
+export function claimNickname(
+  store: StatsStore,
+  profileId: string,
+  nickname: string,
+  profileSecret?: string
+): NicknameClaim {
+  const record = store.get(profileId);
+  if (!record) {
+    return { ok: false, reason: "NO_PROFILE" };
+  }
+  if (
+    record.secretHash &&
+    !(profileSecret && verifyRoomPassword(profileSecret, record.secretHash))
+  ) {
+    return { ok: false, reason: "WRONG_SECRET" };
+  }
+
+  const wanted = nickname.toLowerCase();
+  const holder = store.values().find((other) => other.nickname?.toLowerCase() === wanted);
+  if (holder && holder.profileId !== profileId) {
+    return { ok: false, reason: "TAKEN" };
+  }
+
+  const issuedSecret = record.secretHash ? undefined : randomBytes(24).toString("hex");
+  if (issuedSecret) {
+    record.secretHash = hashRoomPassword(issuedSecret);
+  }
+  record.nickname = nickname;
+  record.updatedAt = Date.now();
+  store.save(record);
+  return { ok: true, record, profileSecret: issuedSecret };
+}
@@ -0,0 +1,70 @@
+/**
+ * Token bucket budget - bursts of up to `capacity` actions, refilled at `refillPerSecond`
+ */
+export interface TokenBucketBudget {
+  capacity: number;
+  refillPerSecond: number;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+  budget: TokenBucketBudget;
+}
+
+/**
+ * Token bucket rate limiter keyed by arbitrary strings (socket id, IP, ...)
+ */
+export class TokenBucketLimiter {
+  private buckets = new Map<string, Bucket>();
+
+  /**
+   * Takes a token from a key's bucket
+   * Returns 0 if the action is allowed, otherwise the ms until a token is available
+   */
+  tryTake(key: string, budget: TokenBucketBudget, now: number = Date.now()): number {
+    const bucket = this.refill(key, budget, now);
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      return 0;
+    }
+    return Math.ceil(((1 - bucket.tokens) / budget.refillPerSecond) * 1000);
+  }
+
+  /**
+   * Forgets every key starting with a prefix (a socket's buckets on disconnect)
+   */
+  removeByPrefix(prefix: string): void {
+    for (const key of this.buckets.keys()) {
+      if (key.startsWith(prefix)) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Drops buckets that have refilled completely - they behave exactly like missing ones
+   */
+  prune(now: number = Date.now()): void {
+    for (const [key, bucket] of this.buckets) {
+      if (this.refill(key, bucket.budget, now).tokens >= bucket.budget.capacity) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+
+  private refill(key: string, budget: TokenBucketBudget, now: number): Bucket {
+    const bucket = this.buckets.get(key);
+    if (!bucket) {
+      const fresh = { tokens: budget.capacity, updatedAt: now, budget };
+      this.buckets.set(key, fresh);
+      return fresh;
+    }
+
+    const elapsedSeconds = Math.max(0, now - bucket.updatedAt) / 1000;
+    bucket.tokens = Math.min(budget.capacity, bucket.tokens + elapsedSeconds * budget.refillPerSecond);
+    bucket.updatedAt = now;
+    bucket.budget = budget;
+    return bucket;
+  }
+}
@@ -0,0 +1,16 @@
+import type { ErrorCode, ErrorParams, ErrorPayload } from "@acme/shared";
+
+/**
+ * Outcome of a RoomManager action: the value, or the error to send back to the client
+ */
+export type Result<T> = { ok: true; value: T } | Failure;
+
+export type Failure = { ok: false; error: ErrorPayload };
+
+export function ok<T>(value: T): Result<T> {
+  return { ok: true, value };
+}
+
+export function fail(code: ErrorCode, params?: ErrorParams): Failure {
+  return { ok: false, error: params ? { code, params } : { code } };
+}
@@ -1,246 +1,549 @@
-import type { Room, Player, Phase, Card, GameState, GestureType, PlayerGameStatus } from "@acme/shared";
+import type {
+  Room,
+  Player,
+  Phase,
+  GameState,
+  RoomState,
+  GameLog,
+  GameLogEvent,
+  GameLogSummary,
+  SettingsUpdatePayload,
+  BotProfile,
+  GestureProof,
+  GameSummary,
+  PublicRoom,
+  ChatMessage,
+  ChatSendPayload,
+} from "@acme/shared";
 import {
   createPlayer,
-  KINDS,
-  BG_COLORS,
-  STYLES,
-  CLAIM_WINDOW_MS,
+  createSpectator,
+  createRoomSettings,
+  RoomSettingsSchema,
+  ErrorCode,
+  RECONNECT_GRACE_MS,
+  RECONNECT_TURN_SKIP_MS,
+  MAX_CLAIM_COMPENSATION_MS,
+  CLAIM_COMPENSATION_SLACK_MS,
+  QUICK_MATCH_MIN_PLAYERS,
+  QUICK_MATCH_COUNTDOWN_MS,
+  CHAT_HISTORY_SIZE,
+  KICK_REJOIN_BAN_MS,
+  IDLE_ROOM_TTL_MS,
 } from "@acme/shared";
+import {
+  MIN_PLAYERS,
+  getPublicGameState,
+  randomSeed,
+  reduce,
+  renamePlayerInGame,
+  type EngineAction,
+  type EngineEffect,
+  type InternalGameState,
+} from "@acme/engine";
 import { randomUUID } from "crypto";
+import { hashRoomPassword, verifyRoomPassword } from "./room-password";
+import { MemoryRoomStore } from "./room-store";
+import type { RoomStore } from "./room-store";
+import { createGameLog, MAX_GAME_LOGS, renamePlayerInGameLog, summarizeGameLog } from "./game-log";
+import { DEFAULT_BOT_PROFILE } from "./bot-profiles";
+import type { BotManager } from "./bot-manager";
+import type { ClockSync } from "./clock-sync";
+import { recordGameStats } from "./player-stats";
+import { buildGameSummary } from "./game-summary";
+import type { StatsStore } from "./stats-store";
+import { fail, ok, type Result } from "./result";
+import { systemScheduler, type Scheduler, type Timer } from "./scheduler";
 
 /**
- * Maximum number of players allowed in a room
+ * Maximum number of spectators allowed in a room
  */
-const MAX_PLAYERS = 6;
+const MAX_SPECTATORS = 20;
 
 /**
  * Generates a random 5-character room code
  * Excludes 0, O, 1, I to avoid confusion
  */
-function generateRoomCode(): string {
+function generateRoomCode(random: () => number): string {
   const chars = "23456789ABCDEFGHJKLMNPQRSTUVWXYZ";
   let code = "";
   for (let i = 0; i < 5; i++) {
-    code += chars[Math.floor(Math.random() * chars.length)];
+    code += chars[Math.floor(random() * chars.length)];
   }
   return code;
 }
 
 /**
- * Shuffles an array using Fisher-Yates algorithm
- */
-function shuffleArray<T>(array: T[]): T[] {
-  const shuffled = [...array];
-  for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
-  }
-  return shuffled;
-}
-
-/**
- * Generates a complete deck of 64 cards (55 normal + 9 special)
- */
-function generateDeck(): Card[] {
-  const deck: Card[] = [];
-
-  // Generate 55 normal cards (11 per kind)
-  for (const kind of KINDS) {
-    // 1 card with style3 (rare)
-    const bgColorStyle3 = BG_COLORS[Math.floor(Math.random() * BG_COLORS.length)];
-    deck.push({
-      id: randomUUID(),
-      type: "NORMAL",
-      word: kind,
-      visual: {
-        kind,
-        style: "style3",
-        bgColor: bgColorStyle3,
-      },
-    });
-
-    // 5 cards with style1
-    for (let i = 0; i < 5; i++) {
-      const bgColor = BG_COLORS[i % BG_COLORS.length]; // Cycle through colors
-      deck.push({
-        id: randomUUID(),
-        type: "NORMAL",
-        word: kind,
-        visual: {
-          kind,
-          style: "style1",
-          bgColor,
-        },
-      });
-    }
-
-    // 5 cards with style2
-    for (let i = 0; i < 5; i++) {
-      const bgColor = BG_COLORS[(i + 2) % BG_COLORS.length]; // Offset cycle
-      deck.push({
-        id: randomUUID(),
-        type: "NORMAL",
-        word: kind,
-        visual: {
-          kind,
-          style: "style2",
-          bgColor,
-        },
-      });
-    }
-  }
-
-  // Generate 9 special cards (3 of each type)
-  const specialTypes: Array<"SPECIAL_1" | "SPECIAL_2" | "SPECIAL_3"> = [
-    "SPECIAL_1",
-    "SPECIAL_2",
-    "SPECIAL_3",
-  ];
-  for (const specialType of specialTypes) {
-    for (let i = 0; i < 3; i++) {
-      const bgColor = BG_COLORS[i % BG_COLORS.length];
-      deck.push({
-        id: randomUUID(),
-        type: "SPECIAL",
-        word: "special",
-        visual: {
-          kind: "special",
-          bgColor,
-          specialType,
-        },
-      });
-    }
-  }
-
-  // Shuffle the deck
-  return shuffleArray(deck);
-}
-
-/**
- * Claim window internal state
- */
-interface ClaimWindow {
-  id: string;
-  opensAt: number;
-  closesAt: number;
-  triggerTurnIndex: number; // Index of player who triggered the claim
-  claimers: string[]; // Array of player IDs in order of claim
-  timeoutId?: NodeJS.Timeout; // Timeout to close the claim window
-  gestureType?: GestureType | null; // Gesture required for this claim (null for MATCH)
-  specialType?: "SPECIAL_1" | "SPECIAL_2" | "SPECIAL_3"; // Special card type if applicable
-}
-
-/**
- * Internal game state (server-side only)
+ * Moves a profile mapping to a player's new id (seat rebound to a new socket)
  */
-export interface InternalGameState {
-  hands: Record<string, Card[]>; // playerId -> cards
-  pile: Card[]; // Central pile
-  turnIndex: number;
-  wordIndex: number;
-  statuses: Record<string, "ACTIVE" | "PENDING_EXIT" | "OUT">; // playerId -> status
-  claim?: ClaimWindow;
-  lastFlipPlayerId?: string; // Player who performed the last flip (for UI animations)
+function renameProfileKey(
+  profiles: Record<string, string> | undefined,
+  oldId: string,
+  newId: string
+): Record<string, string> | undefined {
+  if (!profiles?.[oldId] || oldId === newId) return profiles;
+  const { [oldId]: profileId, ...rest } = profiles;
+  return { ...rest, [newId]: profileId };
 }
 
 /**
  * Extended Room with internal game state
+ * Rooms are passed to the engine as they are (see EngineState)
  */
 export interface RoomWithGame extends Room {
   internalGame?: InternalGameState;
+  sessions?: Record<string, string>; // sessionToken -> playerId (server-side only)
+  profiles?: Record<string, string>; // Member id -> guest profileId, the profile's only credential (server-side only)
+  gameProfiles?: Record<string, string>; // Profiles dealt into the latest game, by id in its log (server-side only)
+  gameLogs?: GameLog[]; // Event logs of the most recent games, oldest first (server-side only)
+  chatHistory?: ChatMessage[]; // Most recent chat messages, oldest first (sent on join)
+  bans?: Record<string, number>; // Kicked socket, session or profile id -> banned until (server-side only)
+  passwordHash?: string; // Set at creation, needed to join or watch (server-side only, see room-password.ts)
+  lastActivityAt?: number; // Last event from anyone in the room, for idle room GC (server-side only)
 }
 
 /**
- * In-memory room manager
+ * Room manager
+ * Rooms are read and written through a RoomStore (in-memory by default)
  */
 export class RoomManager {
-  private rooms = new Map<string, RoomWithGame>();
   private playerToRoom = new Map<string, string>(); // playerId -> roomCode
-  private io?: any; // Socket.IO server instance (set externally)
+  private graceTimeouts = new Map<string, Timer>(); // playerId -> grace period timeout
+  private turnSkipTimeouts = new Map<string, Timer>(); // roomCode -> turn skip timeout
+  private claimTimeouts = new Map<string, Timer>(); // roomCode -> claim window close timeout
+  private quickMatchTimeouts = new Map<string, Timer>(); // roomCode -> quick-match auto-start timeout
+  private onStateChange?: (room: RoomWithGame) => void; // Broadcasts changes no client request triggered (set externally)
+  private botManager?: BotManager; // Creates bots (set externally)
+  private clockSync?: ClockSync; // Per-socket clock offsets for claim ordering (set externally)
+  private statsStore?: StatsStore; // Player stats updated when a game ends (set externally)
+
+  constructor(
+    private store: RoomStore = new MemoryRoomStore(),
+    private random: () => number = Math.random, // Used for room codes and new game seeds
+    private scheduler: Scheduler = systemScheduler // Time and timers (claim windows, grace periods, countdowns)
+  ) {
+    // Rebuild the player index from whatever the store already holds
+    for (const room of this.store.values()) {
+      // Countdown timers don't survive a restart, the next state change starts a new one
+      room.autoStartAt = undefined;
+      for (const player of room.players) {
+        this.playerToRoom.set(player.id, room.code);
+      }
+    }
+  }
 
   /**
-   * Sets the Socket.IO server instance for emitting events
+   * Re-arms timers for rooms loaded from the store after a restart
+   * Every human seat is held as if its socket had just dropped, and open
+   * claim windows resolve at their original closesAt
    */
-  setIO(io: any): void {
-    this.io = io;
+  rehydrate(onGraceExpired: (room: Room | null, roomCode: string) => void): number {
+    const rooms = this.store.values();
+    for (const room of rooms) {
+      // Spectators have no session to come back with
+      room.spectators = [];
+
+      for (const player of room.players) {
+        if (!player.isBot) {
+          this.disconnectPlayer(player.id, onGraceExpired);
+        }
+      }
+
+      const claim = room.internalGame?.claim;
+      if (room.phase === "IN_GAME" && claim) {
+        this.scheduleClaimClose(room, claim.id, claim.closesAt);
+      }
+    }
+    return rooms.length;
+  }
+
+  /**
+   * Sets the listener broadcasting state changes made by timers (claim windows closing)
+   */
+  setStateListener(onStateChange: (room: RoomWithGame) => void): void {
+    this.onStateChange = onStateChange;
+  }
+
+  /**
+   * Sets the bot manager used to create bots (solo rooms, host-added bots, seat fill)
+   */
+  setBotManager(botManager: BotManager): void {
+    this.botManager = botManager;
+  }
+
+  /**
+   * Sets the clock sync used to order claims by reaction time and report latency
+   */
+  setClockSync(clockSync: ClockSync): void {
+    this.clockSync = clockSync;
+  }
+
+  /**
+   * Sets the store finished games are recorded into for player stats
+   */
+  setStatsStore(statsStore: StatsStore): void {
+    this.statsStore = statsStore;
   }
 
   /**
-   * Creates a new room with the given player
+   * Creates a new room with the given player, optionally protected by a password
    */
-  createRoom(playerName: string, playerId: string): Room {
-    const code = generateRoomCode();
+  createRoom(playerName: string, playerId: string, password?: string): Room {
+    const code = generateRoomCode(this.random);
     const player = createPlayer(playerId, playerName);
 
-    const room: Room = {
+    const room: RoomWithGame = {
       code,
       phase: "LOBBY",
       hostId: playerId,
       players: [player],
-      createdAt: Date.now(),
+      spectators: [],
+      settings: createRoomSettings(),
+      createdAt: this.scheduler.now(),
+      passwordHash: password ? hashRoomPassword(password) : undefined,
     };
 
-    this.rooms.set(code, room);
+    this.store.save(room);
     this.playerToRoom.set(playerId, code);
     return room;
   }
 
   /**
-   * Creates a solo room with a bot player
+   * Creates a solo room against one or more bots of the chosen difficulty and personality
    */
-  createSoloRoom(playerName: string, playerId: string, botManager: any): Room {
-    const code = generateRoomCode();
-    const player = createPlayer(playerId, playerName);
+  createSoloRoom(
+    playerName: string,
+    playerId: string,
+    botProfile: BotProfile = DEFAULT_BOT_PROFILE,
+    botCount: number = 1
+  ): Result<Room> {
+    const { botManager } = this;
+    if (!botManager) {
+      return fail(ErrorCode.BOTS_UNAVAILABLE);
+    }
 
-    // Create bot
-    const botId = botManager.generateBotId();
-    const bot = botManager.createBotPlayer(botId);
+    const code = generateRoomCode(this.random);
+    const players: Player[] = [createPlayer(playerId, playerName)];
+
+    // Create bots (each with its own name and avatar)
+    for (let i = 0; i < botCount; i++) {
+      players.push(botManager.createBotPlayer(botManager.generateBotId(), botProfile, players));
+    }
 
     const room: Room = {
       code,
       phase: "LOBBY",
       hostId: playerId,
-      players: [player, bot],
-      createdAt: Date.now(),
+      players,
+      spectators: [],
+      settings: createRoomSettings(),
+      createdAt: this.scheduler.now(),
     };
 
-    this.rooms.set(code, room);
-    this.playerToRoom.set(playerId, code);
-    // Register bot in playerToRoom so flipCard can find it
-    this.playerToRoom.set(botId, code);
-    return room;
+    this.store.save(room);
+    // Register bots in playerToRoom too so flipCard can find them
+    for (const player of players) {
+      this.playerToRoom.set(player.id, code);
+    }
+    return ok(room);
+  }
+
+  /**
+   * Adds a bot to the host's lobby
+   */
+  addBot(playerId: string, botProfile: BotProfile = DEFAULT_BOT_PROFILE): Result<Room> {
+    const room = this.getPlayerRoom(playerId);
+    if (!room) {
+      return fail(ErrorCode.NOT_IN_ROOM);
+    }
+    if (!this.botManager) {
+      return fail(ErrorCode.BOTS_UNAVAILABLE);
+    }
+
+    if (room.hostId !== playerId) {
+      return fail(ErrorCode.NOT_HOST);
+    }
+    if (room.phase !== "LOBBY") {
+      return fail(ErrorCode.NOT_IN_LOBBY);
+    }
+
+    if (room.players.length >= room.settings.maxPlayers) {
+      return fail(ErrorCode.NO_FREE_SEATS, { maxPlayers: room.settings.maxPlayers });
+    }
+
+    const bot = this.botManager.createBotPlayer(this.botManager.generateBotId(), botProfile, room.players);
+    room.players.push(bot);
+    this.playerToRoom.set(bot.id, room.code);
+    this.store.save(room);
+    return ok(room);
+  }
+
+  /**
+   * Removes a bot from the host's lobby
+   */
+  removeBot(playerId: string, botId: string): Result<Room> {
+    const room = this.getPlayerRoom(playerId);
+    if (!room) {
+      return fail(ErrorCode.NOT_IN_ROOM);
+    }
+
+    if (room.hostId !== playerId) {
+      return fail(ErrorCode.NOT_HOST);
+    }
+    if (room.phase !== "LOBBY") {
+      return fail(ErrorCode.NOT_IN_LOBBY);
+    }
+
+    if (!room.players.some((p) => p.id === botId && p.isBot)) {
+      return fail(ErrorCode.INVALID_TARGET);
+    }
+
+    room.players = room.players.filter((p) => p.id !== botId);
+    this.playerToRoom.delete(botId);
+    this.store.save(room);
+    return ok(room);
+  }
+
+  /**
+   * Hands a leaving player's seat (hand, turn position and status) to a new bot
+   * Only mid-game, for players still in play, and while another human is seated
+   */
+  private fillSeatWithBot(room: RoomWithGame, playerId: string): boolean {
+    const { internalGame } = room;
+    const { botManager } = this;
+    if (!internalGame || !botManager) {
+      return false;
+    }
+
+    const status = internalGame.statuses[playerId];
+    if (!status || status === "OUT") {
+      return false;
+    }
+
+    const index = room.players.findIndex((p) => p.id === playerId);
+    if (index === -1 || room.players[index].isBot) {
+      return false;
+    }
+
+    if (!room.players.some((p) => !p.isBot && p.id !== playerId)) {
+      return false;
+    }
+
+    const bot = botManager.createBotPlayer(botManager.generateBotId(), DEFAULT_BOT_PROFILE, room.players);
+    this.rebindPlayer(room, playerId, bot.id);
+    room.players[index] = bot;
+
+    this.currentGameLog(room)?.players.push({ id: bot.id, name: bot.name, isBot: true });
+    this.logEvent(room, {
+      type: "SEAT_FILLED",
+      at: this.scheduler.now(),
+      playerId,
+      botId: bot.id,
+      botName: bot.name,
+    });
+    return true;
   }
 
   /**
    * Joins a player to an existing room
    */
-  joinRoom(code: string, playerName: string, playerId: string): Room | null {
-    const room = this.rooms.get(code);
+  joinRoom(
+    code: string,
+    playerName: string,
+    playerId: string,
+    profileId?: string,
+    password?: string
+  ): Result<Room> {
+    const room = this.store.get(code);
     if (!room) {
-      return null;
+      return fail(ErrorCode.ROOM_NOT_FOUND, { code });
     }
 
     // Don't allow joining if game has started
     if (room.phase !== "LOBBY") {
-      return null;
+      return fail(ErrorCode.GAME_ALREADY_STARTED);
+    }
+
+    // Locked by the host, recently kicked or wrong password
+    const refusal = this.checkEntry(room, password, playerId, profileId);
+    if (refusal) {
+      return refusal;
     }
 
     // Check if room is full
-    if (room.players.length >= MAX_PLAYERS) {
-      return null;
+    if (room.players.length >= room.settings.maxPlayers) {
+      return fail(ErrorCode.ROOM_FULL, { code, maxPlayers: room.settings.maxPlayers });
+    }
+
+    // Spectators take a seat with takeSeat instead
+    if (this.isSpectator(room, playerId)) {
+      return fail(ErrorCode.ALREADY_IN_ROOM, { code });
     }
 
     // Check if player is already in this room
     if (room.players.some((p) => p.id === playerId)) {
-      return room;
+      return ok(room);
     }
 
     const player = createPlayer(playerId, playerName);
     room.players.push(player);
+    room.lastActivityAt = this.scheduler.now();
     this.playerToRoom.set(playerId, code);
+    this.store.save(room);
+    return ok(room);
+  }
+
+  /**
+   * Puts a player in the fullest open public lobby, or creates a public quick-match lobby
+   * Returns null when no lobby has a seat and canCreate is false (the caller's room quota is used up)
+   */
+  quickMatch(
+    playerName: string,
+    playerId: string,
+    profileId?: string,
+    canCreate: boolean = true
+  ): { room: Room; created: boolean } | null {
+    for (const listing of this.listPublicRooms()) {
+      const joined = this.joinRoom(listing.code, playerName, playerId, profileId);
+      if (joined.ok) {
+        return { room: joined.value, created: false };
+      }
+    }
+
+    if (!canCreate) {
+      return null;
+    }
+
+    const room = this.createRoom(playerName, playerId);
+    room.settings = createRoomSettings({ ...room.settings, isPublic: true });
+    room.quickMatch = true;
+    this.store.save(room);
+    return { room, created: true };
+  }
+
+  /**
+   * Lists the public lobbies with free seats, fullest first (oldest first on ties)
+   */
+  listPublicRooms(): PublicRoom[] {
+    return this.store
+      .values()
+      .filter(
+        (room) =>
+          room.phase === "LOBBY" &&
+          room.settings.isPublic &&
+          !room.locked &&
+          !room.passwordHash &&
+          room.players.length < room.settings.maxPlayers
+      )
+      .sort((a, b) => b.players.length - a.players.length || a.createdAt - b.createdAt)
+      .map((room) => ({
+        code: room.code,
+        hostName: room.players.find((p) => p.id === room.hostId)?.name ?? "?",
+        playerCount: room.players.length,
+        maxPlayers: room.settings.maxPlayers,
+        quickMatch: !!room.quickMatch,
+        createdAt: room.createdAt,
+      }));
+  }
+
+  /**
+   * Adds a spectator to a room (any phase)
+   * Spectators receive room state but are never dealt in
+   */
+  spectateRoom(
+    code: string,
+    spectatorName: string,
+    spectatorId: string,
+    profileId?: string,
+    password?: string
+  ): Result<Room> {
+    const room = this.store.get(code);
+    if (!room) {
+      return fail(ErrorCode.ROOM_NOT_FOUND, { code });
+    }
+
+    // Locked by the host, recently kicked or wrong password
+    const refusal = this.checkEntry(room, password, spectatorId, profileId);
+    if (refusal) {
+      return refusal;
+    }
+
+    // Players can't also be spectators
+    if (room.players.some((p) => p.id === spectatorId)) {
+      return fail(ErrorCode.ALREADY_IN_ROOM, { code });
+    }
+
+    // Check if already spectating this room
+    if (room.spectators.some((s) => s.id === spectatorId)) {
+      return ok(room);
+    }
+
+    if (room.spectators.length >= MAX_SPECTATORS) {
+      return fail(ErrorCode.SPECTATORS_FULL, { code, maxSpectators: MAX_SPECTATORS });
+    }
+
+    room.spectators.push(createSpectator(spectatorId, spectatorName));
+    room.lastActivityAt = this.scheduler.now();
+    this.playerToRoom.set(spectatorId, code);
+    this.store.save(room);
+    return ok(room);
+  }
+
+  /**
+   * Moves a spectator into a player seat
+   * Only allowed in LOBBY, or in ENDED so they are dealt into the rematch
+   */
+  takeSeat(spectatorId: string): Result<Room> {
+    const room = this.getPlayerRoom(spectatorId);
+    if (!room) {
+      return fail(ErrorCode.NOT_IN_ROOM);
+    }
+
+    const spectator = room.spectators.find((s) => s.id === spectatorId);
+    if (!spectator) {
+      return fail(ErrorCode.NOT_A_SPECTATOR);
+    }
+
+    if (room.phase !== "LOBBY" && room.phase !== "ENDED") {
+      return fail(ErrorCode.GAME_ALREADY_STARTED);
+    }
+
+    if (room.players.length >= room.settings.maxPlayers) {
+      return fail(ErrorCode.NO_FREE_SEATS, { maxPlayers: room.settings.maxPlayers });
+    }
+
+    room.spectators = room.spectators.filter((s) => s.id !== spectatorId);
+    room.players.push(createPlayer(spectator.id, spectator.name));
+    this.store.save(room);
+    return ok(room);
+  }
+
+  /**
+   * Links a player or spectator to their guest profile so their games count towards its stats
+   */
+  attachProfile(id: string, profileId: string): Room | null {
+    const room = this.getPlayerRoom(id);
+    if (!room) {
+      return null;
+    }
+
+    const member = room.players.find((p) => p.id === id) ?? room.spectators.find((s) => s.id === id);
+    if (!member) {
+      return null;
+    }
+
+    room.profiles = { ...room.profiles, [id]: profileId };
+    this.store.save(room);
     return room;
   }
 
+  /**
+   * Checks whether an id belongs to a spectator of the given room
+   */
+  isSpectator(room: RoomWithGame, id: string): boolean {
+    return room.spectators.some((s) => s.id === id);
+  }
+
   /**
    * Removes a player from their room
    * Returns the updated room or null if room was deleted
@@ -251,60 +554,50 @@ export class RoomManager {
       return null;
     }
 
-    const room = this.rooms.get(roomCode);
+    const room = this.store.get(roomCode);
     if (!room) {
       this.playerToRoom.delete(playerId);
       return null;
     }
 
+    // Spectators just stop watching
+    if (this.isSpectator(room, playerId)) {
+      room.spectators = room.spectators.filter((s) => s.id !== playerId);
+      delete room.profiles?.[playerId];
+      this.playerToRoom.delete(playerId);
+      this.store.save(room);
+      return room;
+    }
+
     const wasHost = room.hostId === playerId;
-    const playerIndex = room.players.findIndex((p) => p.id === playerId);
     const wasInGame = room.phase === "IN_GAME" && room.internalGame;
 
-    room.players = room.players.filter((p) => p.id !== playerId);
-    this.playerToRoom.delete(playerId);
+    this.clearSession(room, playerId);
+    delete room.profiles?.[playerId]; // A game in progress still has it in gameProfiles
 
-    // Delete room if empty
-    if (room.players.length === 0) {
-      this.rooms.delete(roomCode);
-      return null;
+    // Mid-game, a bot takes over the seat so the game doesn't collapse
+    const seatFilled = !!wasInGame && this.fillSeatWithBot(room, playerId);
+    if (!seatFilled) {
+      this.playerToRoom.delete(playerId);
     }
 
-    // If in game, adjust turn index and handle hands
-    if (wasInGame && room.internalGame) {
-      // Remove player's hand (cards are lost)
-      delete room.internalGame.hands[playerId];
-      // Remove player's status
-      delete room.internalGame.statuses[playerId];
-
-      // If the leaving player was before or at the current turn index, adjust
-      if (playerIndex <= room.internalGame.turnIndex) {
-        const nextIndex = this.findNextPlayerWithCards(
-          room,
-          room.internalGame.turnIndex % room.players.length
-        );
-        if (nextIndex !== null) {
-          room.internalGame.turnIndex = nextIndex;
-        }
-      }
-
-      // Update player statuses and check end game
-      this.updatePlayerStatuses(room);
-      this.checkEndGame(room);
+    // Delete room if no humans are left (spectators and bots can't keep a room alive)
+    if (!room.players.some((p) => !p.isBot && p.id !== playerId)) {
+      this.deleteRoom(room);
+      return null;
+    }
 
-      // If less than 2 players remain, end game
-      if (room.players.length < 2) {
-        room.phase = "ENDED";
-        room.internalGame = undefined;
-      }
+    // The engine frees the seat; mid-game the hand is lost and the turn moves on
+    if (!seatFilled) {
+      this.dispatch(room, { type: "LEAVE", playerId });
     }
 
     // Transfer host if needed
     if (wasHost && room.players.length > 0) {
-      // Sort by joinedAt and pick the first (oldest player)
-      const sortedPlayers = [...room.players].sort(
-        (a, b) => a.joinedAt - b.joinedAt
-      );
+      // Sort by joinedAt and pick the first (oldest human player)
+      const sortedPlayers = room.players
+        .filter((p) => !p.isBot)
+        .sort((a, b) => a.joinedAt - b.joinedAt);
       room.hostId = sortedPlayers[0].id;
     }
 
@@ -317,698 +610,838 @@ export class RoomManager {
       });
     }
 
+    this.store.save(room);
     return room;
   }
 
   /**
-   * Toggles ready state for a player
+   * Issues a session token for a seated player
+   * The token survives socket reconnects and is used by rejoinRoom to reclaim the seat
    */
-  toggleReady(playerId: string): Room | null {
+  issueSession(playerId: string): string | null {
     const room = this.getPlayerRoom(playerId);
-    if (!room || room.phase !== "LOBBY") {
+    if (!room) {
       return null;
     }
 
-    const player = room.players.find((p) => p.id === playerId);
-    if (!player) {
-      return null;
-    }
+    this.clearSession(room, playerId);
+    const token = randomUUID();
+    room.sessions = { ...room.sessions, [token]: playerId };
+    this.store.save(room);
+    return token;
+  }
 
-    // Bots cannot toggle ready (they are always ready)
-    if (player.isBot) {
+  /**
+   * Marks a player as disconnected and holds their seat for the grace period
+   * Calls onExpire with the updated room if they do not rejoin in time
+   */
+  disconnectPlayer(
+    playerId: string,
+    onExpire: (room: Room | null, roomCode: string) => void
+  ): Room | null {
+    const room = this.getPlayerRoom(playerId);
+    if (!room) {
       return null;
     }
 
-    player.ready = !player.ready;
-    return room;
-  }
+    // Spectators have no seat to hold
+    if (this.isSpectator(room, playerId)) {
+      return this.leaveRoom(playerId);
+    }
 
-  /**
-   * Initializes the game state for a room
-   */
-  private initGame(room: RoomWithGame): void {
-    // Generate complete deck of 64 cards (55 normal + 9 special)
-    const deck = generateDeck();
+    const player = room.players.find((p) => p.id === playerId);
+    if (!player || player.isBot) {
+      return null;
+    }
 
-    // Distribute cards evenly to players (round-robin)
-    const hands: Record<string, Card[]> = {};
-    room.players.forEach((player) => {
-      hands[player.id] = [];
-    });
+    player.reconnecting = true;
 
-    // Round-robin distribution - distribute all cards evenly
-    let playerIndex = 0;
-    for (const card of deck) {
-      const playerId = room.players[playerIndex].id;
-      hands[playerId].push(card);
-      playerIndex = (playerIndex + 1) % room.players.length;
+    const existing = this.graceTimeouts.get(playerId);
+    if (existing) {
+      existing.cancel();
     }
 
-    // Initialize all players as ACTIVE
-    const statuses: Record<string, PlayerGameStatus> = {};
-    room.players.forEach((player) => {
-      statuses[player.id] = "ACTIVE";
-    });
+    const roomCode = room.code;
+    const timeout = this.scheduler.schedule(() => {
+      this.graceTimeouts.delete(playerId);
+      const leftRoom = this.leaveRoom(playerId);
+      onExpire(leftRoom, roomCode);
+    }, RECONNECT_GRACE_MS);
+    this.graceTimeouts.set(playerId, timeout);
 
-    room.internalGame = {
-      hands,
-      pile: [],
-      turnIndex: 0,
-      wordIndex: 0, // Start at "taco" (index 0)
-      statuses,
-    };
+    this.store.save(room);
+    return room;
   }
 
   /**
-   * Starts a rematch (restarts game with same players)
-   * Only host can call this, and only when phase is ENDED
+   * Rebinds a held seat to a new socket using the session token
+   * Returns the room and the player id the seat was previously bound to
    */
-  rematch(playerId: string): Room | null {
-    const room = this.getPlayerRoom(playerId);
-    if (!room) {
-      return null;
+  rejoinRoom(
+    code: string,
+    sessionToken: string,
+    newPlayerId: string
+  ): Result<{ room: Room; previousPlayerId: string }> {
+    const room = this.store.get(code);
+    const previousPlayerId = room?.sessions?.[sessionToken];
+    if (!room || !previousPlayerId || this.playerToRoom.get(previousPlayerId) !== code) {
+      return fail(ErrorCode.SESSION_EXPIRED, { code });
     }
-
-    // Validations
-    if (room.hostId !== playerId) {
-      return null; // Only host can rematch
+    if (this.isBanned(room, sessionToken)) {
+      return fail(ErrorCode.BANNED, { code });
     }
 
-    if (room.phase !== "ENDED") {
-      return null; // Can only rematch when game has ended
+    const player = room.players.find((p) => p.id === previousPlayerId);
+    if (!player) {
+      return fail(ErrorCode.SESSION_EXPIRED, { code });
     }
 
-    if (room.players.length < 2) {
-      return null; // Need at least 2 players
+    // The new socket must not already hold another seat
+    if (newPlayerId !== previousPlayerId && this.playerToRoom.has(newPlayerId)) {
+      return fail(ErrorCode.ALREADY_IN_ROOM, { code: this.playerToRoom.get(newPlayerId) ?? code });
     }
 
-    // Clear internal game state completely
-    room.internalGame = undefined;
-
-    // Reset ready status of all players
-    room.players.forEach((player) => {
-      player.ready = false;
-    });
+    const timeout = this.graceTimeouts.get(previousPlayerId);
+    if (timeout) {
+      timeout.cancel();
+      this.graceTimeouts.delete(previousPlayerId);
+    }
 
-    // Initialize new game
-    this.initGame(room);
+    this.rebindPlayer(room, previousPlayerId, newPlayerId);
+    player.reconnecting = false;
+    room.lastActivityAt = this.scheduler.now();
 
-    // Change phase to IN_GAME
-    room.phase = "IN_GAME";
+    // Keep the running game's log consistent with the new id
+    const log = this.currentGameLog(room);
+    if (log) {
+      renamePlayerInGameLog(log, previousPlayerId, newPlayerId);
+      room.gameProfiles = renameProfileKey(room.gameProfiles, previousPlayerId, newPlayerId);
+    }
+    room.profiles = renameProfileKey(room.profiles, previousPlayerId, newPlayerId);
+    room.sessions = { ...room.sessions, [sessionToken]: newPlayerId };
+    this.store.save(room);
 
-    return room;
+    return ok({ room, previousPlayerId });
   }
 
   /**
-   * Gets the public game state for a room
-   * Also returns state when phase is ENDED to show final results
+   * Moves every reference to a seat from one player id to another
    */
-  getGameState(room: RoomWithGame): GameState | undefined {
-    if (!room.internalGame) {
-      return undefined;
-    }
-    
-    // For ENDED phase, we still need game state to show win/lose messages
-    if (room.phase !== "IN_GAME" && room.phase !== "ENDED") {
-      return undefined;
+  private rebindPlayer(room: RoomWithGame, oldId: string, newId: string): void {
+    if (oldId === newId) return;
+
+    const player = room.players.find((p) => p.id === oldId);
+    if (player) {
+      player.id = newId;
     }
 
-    const { internalGame } = room;
-    
-    // Calculate hand counts
-    const handCounts: Record<string, number> = {};
-    room.players.forEach((player) => {
-      handCounts[player.id] = internalGame.hands[player.id]?.length || 0;
-    });
+    if (room.hostId === oldId) {
+      room.hostId = newId;
+    }
 
-    // Build player statuses (public)
-    const playerStatuses: Record<string, PlayerGameStatus> = {};
-    room.players.forEach((player) => {
-      playerStatuses[player.id] = internalGame.statuses[player.id] || "ACTIVE";
-    });
+    this.playerToRoom.delete(oldId);
+    this.playerToRoom.set(newId, room.code);
 
-    // For ENDED phase, we only need handCounts and playerStatuses to show win/lose
-    if (room.phase === "ENDED") {
-      const turnPlayer = room.players[internalGame.turnIndex];
-      return {
-        turnPlayerId: turnPlayer?.id || room.players[0]?.id || "",
-        turnIndex: internalGame.turnIndex,
-        wordIndex: internalGame.wordIndex,
-        currentWord: KINDS[internalGame.wordIndex] || KINDS[0],
-        spokenWord: null,
-        pileCount: 0,
-        topCard: undefined,
-        handCounts,
-        playerStatuses,
-        claim: undefined,
-        lastFlipPlayerId: undefined,
-      };
-    }
-
-    // For IN_GAME phase, return full state
-    const turnPlayer = room.players[internalGame.turnIndex];
-    if (!turnPlayer) {
-      return undefined;
-    }
-
-    // Get top card from pile
-    const topCard =
-      internalGame.pile.length > 0
-        ? internalGame.pile[internalGame.pile.length - 1]
-        : undefined;
-
-    // Calculate spoken word (word that was "said" in the last flip)
-    const spokenWord =
-      internalGame.pile.length > 0
-        ? KINDS[(internalGame.pile.length - 1) % KINDS.length]
-        : null;
-
-    // Build claim window public state if exists
-    const claim = internalGame.claim
-      ? {
-          id: internalGame.claim.id,
-          opensAt: internalGame.claim.opensAt,
-          closesAt: internalGame.claim.closesAt,
-          claimers: [...internalGame.claim.claimers],
-          reason:
-            internalGame.pile.length > 0 &&
-            internalGame.pile[internalGame.pile.length - 1]?.type === "SPECIAL"
-              ? ("SPECIAL" as const)
-              : ("MATCH" as const),
-          gestureType: internalGame.claim.gestureType ?? null,
-          specialType: internalGame.claim.specialType,
-        }
-      : undefined;
+    if (room.internalGame) {
+      room.internalGame = renamePlayerInGame(room.internalGame, oldId, newId);
+    }
+  }
 
-    return {
-      turnPlayerId: turnPlayer.id,
-      turnIndex: internalGame.turnIndex,
-      wordIndex: internalGame.wordIndex,
-      currentWord: KINDS[internalGame.wordIndex], // NEXT word (for UI)
-      spokenWord, // Word that was "said" in the last flip
-      pileCount: internalGame.pile.length,
-      topCard,
-      handCounts,
-      playerStatuses,
-      claim,
-      lastFlipPlayerId: internalGame.lastFlipPlayerId,
-    };
+  /**
+   * Deletes a room with its timers and member mappings
+   */
+  private deleteRoom(room: RoomWithGame): void {
+    for (const member of [...room.players, ...room.spectators]) {
+      this.playerToRoom.delete(member.id);
+      this.clearSession(room, member.id);
+    }
+    this.clearClaimClose(room.code);
+    this.clearTurnSkip(room.code);
+    this.clearQuickMatchStart(room);
+    this.store.delete(room.code);
   }
 
   /**
-   * Starts the game (changes phase to IN_GAME and initializes game state)
+   * Records activity in a player's or spectator's room
    */
-  startGame(playerId: string): Room | null {
-    const room = this.getPlayerRoom(playerId);
-    if (!room) {
-      return null;
+  touch(id: string, now: number = this.scheduler.now()): void {
+    const room = this.getPlayerRoom(id);
+    if (room) {
+      room.lastActivityAt = now;
     }
+  }
 
-    // Only host can start
-    if (room.hostId !== playerId) {
-      return null;
+  /**
+   * Deletes rooms outside a game (LOBBY or ENDED) nobody has touched for IDLE_ROOM_TTL_MS
+   * Returns the deleted rooms so their sockets can be told
+   */
+  collectIdleRooms(now: number = this.scheduler.now()): RoomWithGame[] {
+    const idleRooms = this.store
+      .values()
+      .filter((room) => room.phase !== "IN_GAME" && now - (room.lastActivityAt ?? room.createdAt) >= IDLE_ROOM_TTL_MS);
+    for (const room of idleRooms) {
+      this.deleteRoom(room);
     }
+    return idleRooms;
+  }
 
-    // Must be in LOBBY phase
-    if (room.phase !== "LOBBY") {
-      return null;
+  /**
+   * Removes the session token and any pending grace timeout for a player
+   */
+  private clearSession(room: RoomWithGame, playerId: string): void {
+    if (room.sessions) {
+      for (const [token, id] of Object.entries(room.sessions)) {
+        if (id === playerId) {
+          delete room.sessions[token];
+        }
+      }
     }
+    const timeout = this.graceTimeouts.get(playerId);
+    if (timeout) {
+      timeout.cancel();
+      this.graceTimeouts.delete(playerId);
+    }
+  }
 
-    // Must have at least 2 players
-    if (room.players.length < 2) {
-      return null;
+  /**
+   * Schedules a turn skip if the current turn belongs to a disconnected player
+   * Should be called after room state changes (like bot actions)
+   */
+  scheduleDisconnectedTurnSkip(room: RoomWithGame, onSkip: (room: Room) => void): void {
+    if (!room.internalGame || room.phase !== "IN_GAME" || room.internalGame.claim) {
+      return;
     }
 
-    // All players must be ready (optional but recommended)
-    const allReady = room.players.every((p) => p.ready);
-    if (!allReady) {
-      return null;
+    const turnIndex = room.internalGame.turnIndex;
+    const turnPlayer = room.players[turnIndex];
+    if (!turnPlayer || !turnPlayer.reconnecting) {
+      return;
     }
 
-    room.phase = "IN_GAME";
-    this.initGame(room);
-    return room;
+    // Don't create a new timeout if one already exists for this room
+    if (this.turnSkipTimeouts.has(room.code)) {
+      return;
+    }
+
+    const turnPlayerId = turnPlayer.id;
+    const timeout = this.scheduler.schedule(() => {
+      this.turnSkipTimeouts.delete(room.code);
+
+      // Only skip if nothing changed while waiting (the engine checks the player is still away)
+      if (room.internalGame?.turnIndex !== turnIndex) {
+        return;
+      }
+
+      const skipped = this.dispatch(room, { type: "SKIP_TURN", playerId: turnPlayerId });
+      if (skipped.ok && room.internalGame?.turnIndex !== turnIndex) {
+        onSkip(room);
+      }
+    }, RECONNECT_TURN_SKIP_MS);
+
+    this.turnSkipTimeouts.set(room.code, timeout);
   }
 
   /**
-   * Updates player statuses based on hand counts
+   * Cancels a pending turn skip for a room
    */
-  private updatePlayerStatuses(room: RoomWithGame): void {
-    if (!room.internalGame) return;
+  private clearTurnSkip(roomCode: string): void {
+    const timeout = this.turnSkipTimeouts.get(roomCode);
+    if (timeout) {
+      timeout.cancel();
+      this.turnSkipTimeouts.delete(roomCode);
+    }
+  }
 
-    room.players.forEach((player) => {
-      const handCount = room.internalGame!.hands[player.id]?.length || 0;
-      const currentStatus = room.internalGame!.statuses[player.id] || "ACTIVE";
+  /**
+   * Starts a quick-match lobby on its own
+   * Starts right away once everyone is ready, otherwise counts down from the moment enough players are seated
+   * Should be called after lobby state changes (joins, leaves, ready toggles)
+   */
+  scheduleQuickMatchStart(room: RoomWithGame, onStart: (room: Room) => void): void {
+    if (!room.quickMatch || room.phase !== "LOBBY") {
+      this.clearQuickMatchStart(room);
+      return;
+    }
 
-      // If OUT, stay OUT
-      if (currentStatus === "OUT") {
-        return;
+    if (room.players.length < QUICK_MATCH_MIN_PLAYERS) {
+      if (room.autoStartAt !== undefined) {
+        this.clearQuickMatchStart(room);
+        this.store.save(room);
       }
+      return;
+    }
 
-      // If has cards, must be ACTIVE
-      if (handCount > 0) {
-        room.internalGame!.statuses[player.id] = "ACTIVE";
-      } else {
-        // If no cards and not OUT, set to PENDING_EXIT
-        room.internalGame!.statuses[player.id] = "PENDING_EXIT";
+    if (room.players.every((p) => p.ready)) {
+      this.startQuickMatch(room);
+      return;
+    }
+
+    // Don't restart a countdown that is already running
+    if (this.quickMatchTimeouts.has(room.code)) {
+      return;
+    }
+
+    room.autoStartAt = this.scheduler.now() + QUICK_MATCH_COUNTDOWN_MS;
+    this.store.save(room);
+    const timeout = this.scheduler.schedule(() => {
+      this.quickMatchTimeouts.delete(room.code);
+      if (room.phase !== "LOBBY" || room.players.length < QUICK_MATCH_MIN_PLAYERS) {
+        return;
       }
-    });
+      this.startQuickMatch(room);
+      onStart(room);
+    }, QUICK_MATCH_COUNTDOWN_MS);
+
+    this.quickMatchTimeouts.set(room.code, timeout);
   }
 
   /**
-   * Checks if game should end and sets phase to ENDED if needed
+   * Deals in everyone seated in a quick-match lobby, ready or not
    */
-  private checkEndGame(room: RoomWithGame): void {
-    if (!room.internalGame || room.phase !== "IN_GAME") return;
+  private startQuickMatch(room: RoomWithGame): void {
+    this.clearQuickMatchStart(room);
+    this.deal(room);
+  }
 
-    // Get participants (players who are not OUT)
-    const participants = room.players.filter(
-      (p) => room.internalGame!.statuses[p.id] !== "OUT"
-    );
+  /**
+   * Cancels a running quick-match countdown
+   */
+  private clearQuickMatchStart(room: RoomWithGame): void {
+    const timeout = this.quickMatchTimeouts.get(room.code);
+    if (timeout) {
+      timeout.cancel();
+      this.quickMatchTimeouts.delete(room.code);
+    }
+    room.autoStartAt = undefined;
+  }
 
-    // Count participants with cards
-    const aliveWithCards = participants.filter(
-      (p) => (room.internalGame!.hands[p.id]?.length || 0) > 0
-    );
+  /**
+   * Toggles ready state for a player
+   */
+  toggleReady(playerId: string): Result<Room> {
+    const room = this.getPlayerRoom(playerId);
+    if (!room) {
+      return fail(ErrorCode.NOT_IN_ROOM);
+    }
+    if (room.phase !== "LOBBY") {
+      return fail(ErrorCode.NOT_IN_LOBBY);
+    }
 
-    if (aliveWithCards.length <= 1) {
-      room.phase = "ENDED";
-      // Clear any active claim
-      if (room.internalGame.claim?.timeoutId) {
-        clearTimeout(room.internalGame.claim.timeoutId);
-      }
-      room.internalGame.claim = undefined;
-      // Note: winnerId could be added to RoomState if needed
+    // Spectators have no seat; bots cannot toggle ready (they are always ready)
+    const player = room.players.find((p) => p.id === playerId);
+    if (!player || player.isBot) {
+      return fail(ErrorCode.NOT_PLAYING);
     }
+
+    player.ready = !player.ready;
+    this.store.save(room);
+    return ok(room);
   }
 
   /**
-   * Resolves and closes the claim window
+   * Deals a new game to everyone seated
+   * A random seed is picked unless one is supplied
    */
-  private resolveClaim(room: RoomWithGame): void {
-    if (!room.internalGame?.claim) return;
-
-    const claim = room.internalGame.claim;
-    
-    // Get participants (players who are not OUT)
-    const participants = room.players.filter(
-      (p) => room.internalGame!.statuses[p.id] !== "OUT"
-    );
-    const participantIds = participants.map((p) => p.id);
-    
-    // Calculate non-claimers only among participants
-    const nonClaimers = participantIds.filter(
-      (playerId) => !claim.claimers.includes(playerId)
-    );
+  private deal(room: RoomWithGame, seed: number = randomSeed(this.random)): Result<Room> {
+    return this.dispatch(room, { type: "START", seed, gameId: randomUUID() });
+  }
 
-    // Clear timeout if exists
-    if (claim.timeoutId) {
-      clearTimeout(claim.timeoutId);
+  /**
+   * Runs an engine action on a room, carries out its effects and saves the room
+   */
+  private dispatch(
+    room: RoomWithGame,
+    action: EngineAction,
+    now: number = this.scheduler.now()
+  ): Result<Room> {
+    const { state, effects, error } = reduce(room, action, now);
+    if (error) {
+      return fail(error.code, error.params);
     }
 
-    if (nonClaimers.length > 0) {
-      // CASE A: Not everyone claimed - distribute pile to non-claimers
-      const pile = [...room.internalGame.pile];
-      room.internalGame.pile = [];
+    room.phase = state.phase;
+    room.players = state.players;
+    room.internalGame = state.internalGame;
+    for (const effect of effects) {
+      this.runEffect(room, effect);
+    }
+    this.store.save(room);
+    return ok(room);
+  }
 
-      // Distribute round-robin
-      let cardIndex = 0;
-      for (const card of pile) {
-        const playerId = nonClaimers[cardIndex % nonClaimers.length];
-        const hand = room.internalGame?.hands[playerId];
-        if (hand) {
-          hand.push(card);
-        }
-        cardIndex++;
-      }
-    } else {
-      // CASE B: Everyone claimed - last claimer (slowest) loses
-      if (claim.claimers.length > 0) {
-        const loserId = claim.claimers[claim.claimers.length - 1];
-        const loserHand = room.internalGame.hands[loserId];
-        if (loserHand) {
-          loserHand.push(...room.internalGame.pile);
-        }
+  private runEffect(room: RoomWithGame, effect: EngineEffect): void {
+    switch (effect.type) {
+      case "GAME_STARTED": {
+        // Start a new event log for this game
+        const logs = room.gameLogs ?? [];
+        const gameNumber = (logs[logs.length - 1]?.gameNumber ?? 0) + 1;
+        logs.push(createGameLog(room.code, gameNumber, effect.seed, room.players, effect.at));
+        room.gameLogs = logs.slice(-MAX_GAME_LOGS);
+        room.gameProfiles = Object.fromEntries(
+          Object.entries(room.profiles ?? {}).filter(([id]) => room.players.some((p) => p.id === id))
+        );
+        break;
       }
-      room.internalGame.pile = [];
+      case "LOG":
+        this.logEvent(room, effect.event);
+        break;
+      case "SCHEDULE_CLAIM_CLOSE":
+        this.scheduleClaimClose(room, effect.claimId, effect.at);
+        break;
+      case "CANCEL_CLAIM_CLOSE":
+        this.clearClaimClose(room.code);
+        break;
+      case "GAME_ENDED":
+        this.endGameLog(room, effect.at);
+        break;
     }
+  }
 
-    // Update player statuses after distributing cards
-    this.updatePlayerStatuses(room);
+  /**
+   * Resolves a claim window at closesAt
+   */
+  private scheduleClaimClose(room: RoomWithGame, claimId: string, closesAt: number): void {
+    this.clearClaimClose(room.code);
+    const timeout = this.scheduler.schedule(() => {
+      this.claimTimeouts.delete(room.code);
+      const closed = this.dispatch(room, { type: "CLOSE_CLAIM", claimId });
+      if (closed.ok) {
+        this.onStateChange?.(room);
+      }
+    }, Math.max(0, closesAt - this.scheduler.now()));
+    this.claimTimeouts.set(room.code, timeout);
+  }
 
-    // Handle PENDING_EXIT -> OUT transition
-    // Players in PENDING_EXIT who claimed and still have 0 cards become OUT
-    const pendingExitPlayers = room.players.filter(
-      (p) => room.internalGame!.statuses[p.id] === "PENDING_EXIT"
-    );
+  /**
+   * Cancels a room's pending claim window close
+   */
+  private clearClaimClose(roomCode: string): void {
+    const timeout = this.claimTimeouts.get(roomCode);
+    if (timeout) {
+      timeout.cancel();
+      this.claimTimeouts.delete(roomCode);
+    }
+  }
 
-    for (const player of pendingExitPlayers) {
-      const handCount = room.internalGame!.hands[player.id]?.length || 0;
-      const claimedInThisWindow = claim.claimers.includes(player.id);
+  /**
+   * Gets the log of the game currently being played, if any
+   */
+  private currentGameLog(room: RoomWithGame): GameLog | undefined {
+    const log = room.gameLogs?.[room.gameLogs.length - 1];
+    return log && log.endedAt === undefined ? log : undefined;
+  }
 
-      // If they claimed and still have 0 cards, they exit (become OUT)
-      if (claimedInThisWindow && handCount === 0) {
-        room.internalGame!.statuses[player.id] = "OUT";
-      }
-      // If they received cards, status was already updated to ACTIVE by updatePlayerStatuses
-    }
+  /**
+   * Appends an event to the running game's log
+   */
+  private logEvent(room: RoomWithGame, event: GameLogEvent): void {
+    this.currentGameLog(room)?.events.push(event);
+  }
 
-    // Clear claim
-    room.internalGame.claim = undefined;
+  /**
+   * Closes the running game's log (the engine logged its END event) and records player stats
+   */
+  private endGameLog(room: RoomWithGame, endedAt: number): void {
+    const log = this.currentGameLog(room);
+    if (!log) return;
 
-    // Reset word index to 0 ("taco") after claim resolution
-    if (room.internalGame) {
-      room.internalGame.wordIndex = 0;
-
-      // Advance turn index to next player with cards
-      const nextIndex = this.findNextPlayerWithCards(
-        room,
-        (claim.triggerTurnIndex + 1) % room.players.length
-      );
-      if (nextIndex === null) {
-        // Check end game condition
-        this.checkEndGame(room);
-      } else {
-        room.internalGame.turnIndex = nextIndex;
-      }
+    log.endedAt = endedAt;
+    if (this.statsStore) {
+      recordGameStats(this.statsStore, log, room.gameProfiles ?? {});
     }
-
-    // Check end game after claim resolution
-    this.checkEndGame(room);
   }
 
   /**
-   * Finds next player with cards
-   * Only considers ACTIVE players (not PENDING_EXIT or OUT)
+   * Lists the finished games recorded for a room (most recent last)
    */
-  private findNextPlayerWithCards(
-    room: RoomWithGame,
-    startIndex: number
-  ): number | null {
-    const { internalGame } = room;
-    if (!internalGame) return null;
-
-    for (let i = 0; i < room.players.length; i++) {
-      const index = (startIndex + i) % room.players.length;
-      const player = room.players[index];
-      const status = internalGame.statuses[player.id] || "ACTIVE";
-      // Only consider ACTIVE players (skip OUT and PENDING_EXIT)
-      if (status !== "ACTIVE") {
-        continue;
-      }
-      const hand = internalGame.hands[player.id];
-      if (hand && hand.length > 0) {
-        return index;
-      }
+  listGameLogs(code: string): GameLogSummary[] | null {
+    const room = this.store.get(code);
+    if (!room) {
+      return null;
     }
-    return null;
+    return (room.gameLogs ?? [])
+      .filter((log) => log.endedAt !== undefined)
+      .map(summarizeGameLog);
   }
 
   /**
-   * Maps special type to gesture type
+   * Gets the full event log of a game in a room
+   * Returns the log even while the game is running; callers decide whether to expose it
    */
-  private mapSpecialTypeToGesture(specialType: "SPECIAL_1" | "SPECIAL_2" | "SPECIAL_3"): GestureType {
-    switch (specialType) {
-      case "SPECIAL_1":
-        return "CLICK_FRENZY";
-      case "SPECIAL_2":
-        return "BUBBLES";
-      case "SPECIAL_3":
-        return "CIRCLE";
+  getGameLog(code: string, gameNumber: number): GameLog | null {
+    const room = this.store.get(code);
+    return room?.gameLogs?.find((log) => log.gameNumber === gameNumber) || null;
+  }
+
+  /**
+   * Adds a chat message (or emote) from a player or spectator to their room's history
+   * Returns the message to broadcast and the room to broadcast it to
+   */
+  sendChat(senderId: string, payload: ChatSendPayload): Result<{ room: Room; message: ChatMessage }> {
+    const room = this.getPlayerRoom(senderId);
+    const sender =
+      room?.players.find((p) => p.id === senderId) ?? room?.spectators.find((s) => s.id === senderId);
+    if (!room || !sender) {
+      return fail(ErrorCode.NOT_IN_ROOM);
+    }
+
+    const message: ChatMessage = {
+      id: randomUUID(),
+      senderId,
+      senderName: sender.name,
+      text: payload.text,
+      emote: payload.emote,
+      sentAt: this.scheduler.now(),
+    };
+
+    // Keep only the most recent messages
+    const history = (room.chatHistory ??= []);
+    history.push(message);
+    if (history.length > CHAT_HISTORY_SIZE) {
+      history.splice(0, history.length - CHAT_HISTORY_SIZE);
     }
+    this.store.save(room);
+    return ok({ room, message });
   }
 
   /**
-   * Opens a claim window for a room
+   * Gets a room's recent chat messages, oldest first
    */
-  private openClaimWindow(
-    room: RoomWithGame,
-    reason: "MATCH" | "SPECIAL",
-    card?: Card
-  ): void {
-    if (!room.internalGame) return;
+  getChatHistory(code: string): ChatMessage[] {
+    return this.store.get(code)?.chatHistory ?? [];
+  }
 
-    const now = Date.now();
-    const claimId = randomUUID();
+  /**
+   * Starts a rematch (restarts game with same players)
+   * Only host can call this, and only when phase is ENDED
+   */
+  rematch(playerId: string): Result<Room> {
+    const room = this.getPlayerRoom(playerId);
+    if (!room) {
+      return fail(ErrorCode.NOT_IN_ROOM);
+    }
 
-    // Clear any existing timeout
-    if (room.internalGame.claim?.timeoutId) {
-      clearTimeout(room.internalGame.claim.timeoutId);
+    // Validations
+    if (room.hostId !== playerId) {
+      return fail(ErrorCode.NOT_HOST);
     }
 
-    // Determine gesture type and special type if it's a SPECIAL card
-    let gestureType: GestureType | null = null;
-    let specialType: "SPECIAL_1" | "SPECIAL_2" | "SPECIAL_3" | undefined = undefined;
+    if (room.phase !== "ENDED") {
+      return fail(ErrorCode.GAME_NOT_ENDED);
+    }
 
-    if (reason === "SPECIAL" && card && card.type === "SPECIAL" && card.visual.kind === "special") {
-      specialType = card.visual.specialType;
-      gestureType = this.mapSpecialTypeToGesture(specialType);
+    if (room.players.length < MIN_PLAYERS) {
+      return fail(ErrorCode.NOT_ENOUGH_PLAYERS, { min: MIN_PLAYERS });
     }
 
-    room.internalGame.claim = {
-      id: claimId,
-      opensAt: now,
-      closesAt: now + CLAIM_WINDOW_MS,
-      triggerTurnIndex: room.internalGame.turnIndex,
-      claimers: [],
-      gestureType,
-      specialType,
-    };
+    // Reset ready status of all players
+    room.players.forEach((player) => {
+      player.ready = false;
+    });
 
-    // Set timeout to resolve claim
-    room.internalGame.claim.timeoutId = setTimeout(() => {
-      this.resolveClaim(room);
-      if (this.io && room.code) {
-        const gameState = this.getGameState(room);
-        this.io.to(room.code).emit("ROOM_STATE", {
-          code: room.code,
-          phase: room.phase,
-          hostId: room.hostId,
-          players: room.players,
-          createdAt: room.createdAt,
-          game: gameState,
-        });
-      }
-    }, CLAIM_WINDOW_MS);
+    // Deal a new game (replaces the ended one)
+    return this.deal(room);
   }
 
   /**
-   * Handles a flip request from a player
+   * Gets the public game state for a room
+   * When the game has ended it carries the game summary
    */
-  flipCard(playerId: string): Room | null {
-    // For bots, we need to find the room differently since they're not in playerToRoom
-    let room: RoomWithGame | null = null;
-    if (playerId.startsWith('bot-')) {
-      // Find room by checking all rooms for this bot
-      for (const [code, r] of this.rooms.entries()) {
-        if (r.players.some(p => p.id === playerId)) {
-          room = r;
-          break;
-        }
-      }
-    } else {
-      room = this.getPlayerRoom(playerId);
+  getGameState(room: RoomWithGame): GameState | undefined {
+    const game = getPublicGameState(room);
+    return game && room.phase === "ENDED" ? { ...game, summary: this.lastGameSummary(room) } : game;
+  }
+
+  /**
+   * Summary of the room's most recent finished game (undefined if it has no finished log)
+   */
+  private lastGameSummary(room: RoomWithGame): GameSummary | undefined {
+    const log = room.gameLogs?.[room.gameLogs.length - 1];
+    return log && log.endedAt !== undefined ? buildGameSummary(log) : undefined;
+  }
+
+  /**
+   * Builds the public room state broadcast to everyone in the room
+   */
+  getRoomState(room: RoomWithGame): RoomState {
+    return {
+      code: room.code,
+      phase: room.phase,
+      hostId: room.hostId,
+      players: room.players.map((p) => {
+        const latencyMs = p.isBot ? undefined : this.clockSync?.getRtt(p.id);
+        return latencyMs === undefined ? p : { ...p, latencyMs };
+      }),
+      spectators: room.spectators,
+      settings: room.settings,
+      createdAt: room.createdAt,
+      quickMatch: room.quickMatch,
+      autoStartAt: room.autoStartAt,
+      locked: room.locked,
+      hasPassword: !!room.passwordHash,
+      game: this.getGameState(room),
+    };
+  }
+
+  /**
+   * Updates the room's house rules
+   * Only the host can change them, and only in the lobby
+   */
+  updateSettings(playerId: string, update: SettingsUpdatePayload): Result<Room> {
+    const room = this.getPlayerRoom(playerId);
+    if (!room) {
+      return fail(ErrorCode.NOT_IN_ROOM);
     }
-    
-    if (!room || !room.internalGame || room.phase !== "IN_GAME") {
-      return null;
+
+    if (room.hostId !== playerId) {
+      return fail(ErrorCode.NOT_HOST);
+    }
+    if (room.phase !== "LOBBY") {
+      return fail(ErrorCode.NOT_IN_LOBBY);
     }
 
-    const { internalGame } = room;
+    // Omitted fields keep their current value
+    const changes = Object.fromEntries(
+      Object.entries(update).filter(([, value]) => value !== undefined)
+    );
+    const result = RoomSettingsSchema.safeParse({ ...room.settings, ...changes });
+    if (!result.success) {
+      return fail(ErrorCode.INVALID_SETTINGS);
+    }
 
-    // Cannot flip if claim is active
-    if (internalGame.claim) {
-      return null;
+    // Can't shrink the room below the players already seated
+    if (result.data.maxPlayers < room.players.length) {
+      return fail(ErrorCode.MAX_PLAYERS_BELOW_SEATED, { seated: room.players.length });
     }
 
-    // Check if player is OUT or PENDING_EXIT (cannot flip)
-    const playerStatus = internalGame.statuses[playerId] || "ACTIVE";
-    if (playerStatus === "OUT" || playerStatus === "PENDING_EXIT") {
-      return null;
+    room.settings = result.data;
+    this.store.save(room);
+    return ok(room);
+  }
+
+  /**
+   * Removes a player or spectator and bans their socket, sessions and profile from the room for a while
+   * Only the host can kick, never themselves; bots are removed with removeBot
+   */
+  kickPlayer(hostId: string, targetId: string): Result<Room> {
+    const room = this.getPlayerRoom(hostId);
+    if (!room) {
+      return fail(ErrorCode.NOT_IN_ROOM);
+    }
+    if (room.hostId !== hostId) {
+      return fail(ErrorCode.NOT_HOST);
     }
 
-    // Validate it's the player's turn
-    const currentPlayer = room.players[internalGame.turnIndex];
-    if (!currentPlayer || currentPlayer.id !== playerId) {
-      return null;
+    const target =
+      room.players.find((p) => p.id === targetId) ?? room.spectators.find((s) => s.id === targetId);
+    if (!target || targetId === hostId || room.players.find((p) => p.id === targetId)?.isBot) {
+      return fail(ErrorCode.INVALID_TARGET);
     }
 
-    // Check if player has cards
-    const playerHand = internalGame.hands[playerId];
-    if (!playerHand || playerHand.length === 0) {
-      // Skip this player's turn
-      const nextIndex = this.findNextPlayerWithCards(
-        room,
-        (internalGame.turnIndex + 1) % room.players.length
-      );
-      if (nextIndex === null) {
-        // No players with cards, end game
-        room.phase = "ENDED";
-        room.internalGame = undefined;
-        return room;
+    // Drop expired bans while we're here
+    const now = this.scheduler.now();
+    const bans = Object.fromEntries(Object.entries(room.bans ?? {}).filter(([, until]) => until > now));
+    const bannedUntil = now + KICK_REJOIN_BAN_MS;
+    bans[targetId] = bannedUntil;
+    for (const [token, id] of Object.entries(room.sessions ?? {})) {
+      if (id === targetId) {
+        bans[token] = bannedUntil;
       }
-      internalGame.turnIndex = nextIndex;
-      return room;
     }
+    const profileId = room.profiles?.[targetId];
+    if (profileId) {
+      bans[profileId] = bannedUntil;
+    }
+    room.bans = bans;
 
-    // Capture pile size BEFORE adding the card
-    const pileSizeBeforeFlip = internalGame.pile.length;
+    // The host stays, so the room is never deleted here
+    const updatedRoom = this.leaveRoom(targetId);
+    return updatedRoom ? ok(updatedRoom) : fail(ErrorCode.ROOM_NOT_FOUND, { code: room.code });
+  }
 
-    // Take card from front of hand and add to pile
-    const card = playerHand.shift();
-    if (!card) {
-      return null;
+  /**
+   * Hands the host role to another seated human player
+   */
+  transferHost(hostId: string, targetId: string): Result<Room> {
+    const room = this.getPlayerRoom(hostId);
+    if (!room) {
+      return fail(ErrorCode.NOT_IN_ROOM);
+    }
+    if (room.hostId !== hostId) {
+      return fail(ErrorCode.NOT_HOST);
     }
 
-    internalGame.pile.push(card);
-    
-    // Store who performed this flip (for UI animations)
-    internalGame.lastFlipPlayerId = playerId;
-
-    // Calculate spoken word for this flip based on pile size BEFORE flip
-    // This ensures the word matches what was "said" when flipping
-    const spokenWordForThisFlip = KINDS[pileSizeBeforeFlip % KINDS.length];
-
-    // Check if match triggers claim window
-    const isMatch =
-      card.type === "SPECIAL" ||
-      (card.type === "NORMAL" && card.word === spokenWordForThisFlip);
-
-    if (isMatch) {
-      // Open claim window (pass card to determine gesture type if SPECIAL)
-      this.openClaimWindow(
-        room,
-        card.type === "SPECIAL" ? "SPECIAL" : "MATCH",
-        card
-      );
-    }
-
-    // Always synchronize wordIndex with pile length (NEXT word for UI)
-    // wordIndex represents the word that will be "said" in the next flip
-    if (internalGame.pile.length === 0) {
-      internalGame.wordIndex = 0;
-    } else {
-      internalGame.wordIndex = internalGame.pile.length % KINDS.length;
-    }
-
-    // Update player statuses based on hand counts
-    this.updatePlayerStatuses(room);
-
-    // Advance turn index to next player with cards (if no claim opened)
-    if (!internalGame.claim) {
-      const nextIndex = this.findNextPlayerWithCards(
-        room,
-        (internalGame.turnIndex + 1) % room.players.length
-      );
-      if (nextIndex === null) {
-        // Check end game condition
-        this.checkEndGame(room);
-        return room;
-      }
-      internalGame.turnIndex = nextIndex;
+    const target = room.players.find((p) => p.id === targetId);
+    if (!target || target.isBot || targetId === hostId) {
+      return fail(ErrorCode.INVALID_TARGET);
     }
 
-    return room;
+    room.hostId = targetId;
+    this.store.save(room);
+    return ok(room);
   }
 
   /**
-   * Handles a claim attempt from a player
+   * Locks or unlocks the room (host only)
+   * A locked room can't be joined or watched; players and spectators already in it stay
    */
-  claimAttempt(playerId: string, claimId?: string): Room | null {
-    const room = this.getPlayerRoom(playerId);
-    if (!room || !room.internalGame || room.phase !== "IN_GAME") {
-      return null;
+  setLocked(hostId: string, locked: boolean): Result<Room> {
+    const room = this.getPlayerRoom(hostId);
+    if (!room) {
+      return fail(ErrorCode.NOT_IN_ROOM);
+    }
+    if (room.hostId !== hostId) {
+      return fail(ErrorCode.NOT_HOST);
     }
 
-    const { internalGame } = room;
-    const currentPlayerStatus = internalGame.statuses[playerId] || "ACTIVE";
+    room.locked = locked;
+    this.store.save(room);
+    return ok(room);
+  }
 
-    // OUT players cannot claim
-    if (currentPlayerStatus === "OUT") {
-      return null;
+  /**
+   * Whether the password opens the room (always true for rooms without one)
+   */
+  private checkRoomPassword(room: RoomWithGame, password?: string): boolean {
+    if (!room.passwordHash) {
+      return true;
     }
+    return password !== undefined && verifyRoomPassword(password, room.passwordHash);
+  }
 
-    const now = Date.now();
+  /**
+   * Why a newcomer can't join or watch a room (locked, recently kicked or wrong password), if they can't
+   */
+  private checkEntry(
+    room: RoomWithGame,
+    password: string | undefined,
+    ...ids: Array<string | undefined>
+  ): Result<never> | null {
+    if (room.locked) {
+      return fail(ErrorCode.ROOM_LOCKED, { code: room.code });
+    }
+    if (this.isBanned(room, ...ids)) {
+      return fail(ErrorCode.BANNED, { code: room.code });
+    }
+    if (!this.checkRoomPassword(room, password)) {
+      return fail(ErrorCode.WRONG_PASSWORD, { code: room.code });
+    }
+    return null;
+  }
 
-    // Determine if this is a valid claim attempt
-    const hasActiveClaim = internalGame.claim && now < internalGame.claim.closesAt;
-    const claimIdMatches = hasActiveClaim && claimId && internalGame.claim?.id === claimId;
+  /**
+   * Whether any of the ids (socket, session token or profile) was kicked from the room recently
+   */
+  private isBanned(room: RoomWithGame, ...ids: Array<string | undefined>): boolean {
+    const now = this.scheduler.now();
+    return ids.some((id) => id !== undefined && (room.bans?.[id] ?? 0) > now);
+  }
 
-    // CASE C: False slap - no active claim, or claimId provided but doesn't match, or expired
-    if (
-      !hasActiveClaim ||
-      (claimId && !claimIdMatches) ||
-      (hasActiveClaim && internalGame.claim && now >= internalGame.claim.closesAt)
-    ) {
-      // Player takes entire pile if not empty
-      if (internalGame.pile.length > 0) {
-        const playerHand = internalGame.hands[playerId];
-        if (playerHand) {
-          playerHand.push(...internalGame.pile);
-        }
-        internalGame.pile = [];
-      }
+  /**
+   * Starts the game (changes phase to IN_GAME and initializes game state)
+   * The host may supply a seed to reproduce a previous deal
+   */
+  startGame(playerId: string, seed?: number): Result<Room> {
+    const room = this.getPlayerRoom(playerId);
+    if (!room) {
+      return fail(ErrorCode.NOT_IN_ROOM);
+    }
 
-      // Update statuses after false slap
-      this.updatePlayerStatuses(room);
+    // Only host can start
+    if (room.hostId !== playerId) {
+      return fail(ErrorCode.NOT_HOST);
+    }
 
-      // Clear claim if exists
-      if (internalGame.claim) {
-        if (internalGame.claim.timeoutId) {
-          clearTimeout(internalGame.claim.timeoutId);
-        }
-        internalGame.claim = undefined;
-      }
+    // Must be in LOBBY phase
+    if (room.phase !== "LOBBY") {
+      return fail(ErrorCode.GAME_ALREADY_STARTED);
+    }
 
-      // Check end game
-      this.checkEndGame(room);
+    // Must have at least 2 players
+    if (room.players.length < MIN_PLAYERS) {
+      return fail(ErrorCode.NOT_ENOUGH_PLAYERS, { min: MIN_PLAYERS });
+    }
 
-      return room;
+    // All players must be ready (optional but recommended)
+    const allReady = room.players.every((p) => p.ready);
+    if (!allReady) {
+      return fail(ErrorCode.PLAYERS_NOT_READY);
     }
 
-    // Valid claim - add player to claimers if not already there
-    // Only allow if player is not OUT (already checked above)
-    // This handles both: claimId provided and matches, OR claimId absent but claim is active
-    if (internalGame.claim && !internalGame.claim.claimers.includes(playerId)) {
-      internalGame.claim.claimers.push(playerId);
-
-      // Check if all active participants have claimed
-      const participants = room.players.filter(
-        (p) => internalGame.statuses[p.id] !== "OUT"
-      );
-      const participantIds = participants.map((p) => p.id);
-      const allClaimed = participantIds.every((id) =>
-        internalGame.claim!.claimers.includes(id)
-      );
-
-      // If all participants have claimed, resolve immediately
-      if (allClaimed && internalGame.claim) {
-        this.resolveClaim(room);
-        // Emit room state after resolving
-        if (this.io && room.code) {
-          const gameState = this.getGameState(room);
-          this.io.to(room.code).emit("ROOM_STATE", {
-            code: room.code,
-            phase: room.phase,
-            hostId: room.hostId,
-            players: room.players,
-            createdAt: room.createdAt,
-            game: gameState,
-          });
+    this.clearQuickMatchStart(room);
+    return this.deal(room, seed);
+  }
+
+  /**
+   * Handles a flip request from a player
+   */
+  flipCard(playerId: string): Result<Room> {
+    // For bots, we need to find the room differently since they're not in playerToRoom
+    let room: RoomWithGame | null = null;
+    if (playerId.startsWith('bot-')) {
+      // Find room by checking all rooms for this bot
+      for (const r of this.store.values()) {
+        if (r.players.some(p => p.id === playerId)) {
+          room = r;
+          break;
         }
-        return room;
       }
+    } else {
+      room = this.getPlayerRoom(playerId);
+    }
+    
+    if (!room) {
+      return fail(ErrorCode.NOT_IN_ROOM);
     }
+    return this.dispatch(room, { type: "FLIP", playerId });
+  }
 
-    return room;
+  /**
+   * Estimates when a claim was really made, in server time
+   * The client's reaction timestamp is mapped through its clock offset, then clamped so it
+   * never lands further back than the player's round trip allows (the engine clamps it to the window)
+   */
+  private compensatedClaimTime(playerId: string, now: number, reactedAt?: number): number {
+    if (reactedAt === undefined || !this.clockSync) {
+      return now;
+    }
+
+    const serverTime = this.clockSync.toServerTime(playerId, reactedAt);
+    const rtt = this.clockSync.getRtt(playerId);
+    if (serverTime === undefined || rtt === undefined) {
+      return now;
+    }
+
+    const maxCompensation = Math.min(rtt + CLAIM_COMPENSATION_SLACK_MS, MAX_CLAIM_COMPENSATION_MS);
+    return Math.min(now, Math.max(now - maxCompensation, serverTime));
   }
 
+  /**
+   * Handles a claim attempt from a player
+   * Claims on a gesture window are rejected (INVALID_GESTURE) unless they carry a valid gesture proof
+   * reactedAt is the client clock time of the reaction, used to order claimers fairly
+   */
+  claimAttempt(
+    playerId: string,
+    claimId?: string,
+    proof?: GestureProof,
+    reactedAt?: number
+  ): Result<Room> {
+    const room = this.getPlayerRoom(playerId);
+    if (!room) {
+      return fail(ErrorCode.NOT_IN_ROOM);
+    }
+
+    const now = this.scheduler.now();
+    const claimedAt = this.compensatedClaimTime(playerId, now, reactedAt);
+    return this.dispatch(room, { type: "CLAIM", playerId, claimId, proof, claimedAt }, now);
+  }
 
   /**
    * Gets a room by code
    */
   getRoom(code: string): RoomWithGame | null {
-    return this.rooms.get(code) || null;
+    return this.store.get(code) || null;
   }
 
   /**
@@ -1019,7 +1452,7 @@ export class RoomManager {
     if (!roomCode) {
       return null;
     }
-    return this.rooms.get(roomCode) || null;
+    return this.store.get(roomCode) || null;
   }
 }
 
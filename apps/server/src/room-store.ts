@@ -0,0 +1,153 @@
+import { existsSync, mkdirSync, readdirSync, readFileSync, renameSync, unlinkSync, writeFileSync } from "fs";
+import { join } from "path";
+import type { RoomWithGame } from "./room-manager";
+
+/**
+ * Persistence layer for rooms
+ * RoomManager reads and writes every room through a RoomStore
+ */
+export interface RoomStore {
+  /**
+   * Gets a room by code
+   */
+  get(code: string): RoomWithGame | undefined;
+
+  /**
+   * Inserts a room, or records that an existing room has changed
+   */
+  save(room: RoomWithGame): void;
+
+  /**
+   * Removes a room
+   */
+  delete(code: string): void;
+
+  /**
+   * Lists all stored rooms
+   */
+  values(): RoomWithGame[];
+}
+
+/**
+ * In-memory room store (default)
+ * Rooms are lost when the process exits
+ */
+export class MemoryRoomStore implements RoomStore {
+  protected rooms = new Map<string, RoomWithGame>();
+
+  get(code: string): RoomWithGame | undefined {
+    return this.rooms.get(code);
+  }
+
+  save(room: RoomWithGame): void {
+    this.rooms.set(room.code, room);
+  }
+
+  delete(code: string): void {
+    this.rooms.delete(code);
+  }
+
+  values(): RoomWithGame[] {
+    return [...this.rooms.values()];
+  }
+}
+
+/**
+ * Delay before a changed room is written to disk
+ * Coalesces the bursts of changes produced by flips and claims
+ */
+const FILE_STORE_FLUSH_DELAY_MS = 250;
+
+/**
+ * Serializes a room to JSON
+ * Rooms hold no timers (RoomManager keeps them and re-arms them on rehydration)
+ */
+export function serializeRoom(room: RoomWithGame): string {
+  return JSON.stringify(room);
+}
+
+/**
+ * File-backed room store
+ * Keeps rooms in memory and snapshots each room to `<dir>/<code>.json`,
+ * so a restarted server can rehydrate lobbies and running games
+ */
+export class FileRoomStore extends MemoryRoomStore {
+  private dirty = new Set<string>();
+  private flushTimeout?: NodeJS.Timeout;
+
+  constructor(private readonly dir: string) {
+    super();
+    mkdirSync(dir, { recursive: true });
+    this.loadAll();
+  }
+
+  save(room: RoomWithGame): void {
+    super.save(room);
+    this.dirty.add(room.code);
+    this.scheduleFlush();
+  }
+
+  delete(code: string): void {
+    super.delete(code);
+    this.dirty.delete(code);
+    const file = this.fileFor(code);
+    try {
+      if (existsSync(file)) {
+        unlinkSync(file);
+      }
+    } catch (error) {
+      console.error(`[FileRoomStore] Failed to delete snapshot for room ${code}:`, error);
+    }
+  }
+
+  /**
+   * Writes all pending snapshots to disk immediately
+   */
+  flush(): void {
+    if (this.flushTimeout) {
+      clearTimeout(this.flushTimeout);
+      this.flushTimeout = undefined;
+    }
+
+    for (const code of this.dirty) {
+      const room = this.rooms.get(code);
+      if (!room) continue;
+
+      // Write to a temp file first so a crash mid-write never leaves a truncated snapshot
+      const file = this.fileFor(code);
+      const tmpFile = `${file}.tmp`;
+      try {
+        writeFileSync(tmpFile, serializeRoom(room));
+        renameSync(tmpFile, file);
+      } catch (error) {
+        console.error(`[FileRoomStore] Failed to write snapshot for room ${code}:`, error);
+      }
+    }
+    this.dirty.clear();
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimeout) return;
+    this.flushTimeout = setTimeout(() => {
+      this.flushTimeout = undefined;
+      this.flush();
+    }, FILE_STORE_FLUSH_DELAY_MS);
+  }
+
+  private loadAll(): void {
+    for (const entry of readdirSync(this.dir)) {
+      if (!entry.endsWith(".json")) continue;
+
+      try {
+        const room = JSON.parse(readFileSync(join(this.dir, entry), "utf8")) as RoomWithGame;
+        this.rooms.set(room.code, room);
+      } catch (error) {
+        console.error(`[FileRoomStore] Skipping unreadable snapshot ${entry}:`, error);
+      }
+    }
+  }
+
+  private fileFor(code: string): string {
+    return join(this.dir, `${code}.json`);
+  }
+}
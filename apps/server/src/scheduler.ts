@@ -0,0 +1,126 @@
+/**
+ * Time source and timers for game logic
+ *
+ * RoomManager and BotManager read the time and arm their timers (claim windows,
+ * bot reactions, grace periods, countdowns) through a Scheduler, so tests and
+ * simulations can swap the system clock for a FakeScheduler and skip the waits.
+ */
+
+/**
+ * Source of the current time (ms since the epoch)
+ */
+export interface Clock {
+  now(): number;
+}
+
+/**
+ * A callback waiting to run
+ */
+export interface Timer {
+  cancel(): void;
+}
+
+/**
+ * Clock that can also run callbacks later
+ */
+export interface Scheduler extends Clock {
+  schedule(callback: () => void, delayMs: number): Timer;
+}
+
+/**
+ * Real time: Date.now and setTimeout
+ */
+export const systemScheduler: Scheduler = {
+  now: () => Date.now(),
+  schedule(callback, delayMs) {
+    const timeout = setTimeout(callback, delayMs);
+    return { cancel: () => clearTimeout(timeout) };
+  },
+};
+
+interface FakeTask {
+  at: number;
+  order: number; // Tasks due at the same time run in the order they were scheduled
+  callback: () => void;
+  cancelled: boolean;
+}
+
+/**
+ * Manual clock: time only moves when advance() or runNext() is called
+ * Due callbacks run in time order, each with the clock set to its due time
+ */
+export class FakeScheduler implements Scheduler {
+  private time: number;
+  private tasks: FakeTask[] = []; // Pending tasks, soonest first
+  private scheduled = 0;
+
+  constructor(startTime: number = 0) {
+    this.time = startTime;
+  }
+
+  now(): number {
+    return this.time;
+  }
+
+  schedule(callback: () => void, delayMs: number): Timer {
+    const task: FakeTask = {
+      at: this.time + Math.max(0, delayMs),
+      order: this.scheduled++,
+      callback,
+      cancelled: false,
+    };
+
+    // Keep the queue sorted (insert after every task due at the same time or earlier)
+    let index = this.tasks.length;
+    while (index > 0 && this.tasks[index - 1].at > task.at) {
+      index--;
+    }
+    this.tasks.splice(index, 0, task);
+
+    return {
+      cancel: () => {
+        task.cancelled = true;
+      },
+    };
+  }
+
+  /**
+   * Number of callbacks still waiting
+   */
+  get pending(): number {
+    return this.tasks.filter((task) => !task.cancelled).length;
+  }
+
+  /**
+   * Moves the clock forward by ms, running every callback that falls due on the way
+   * (including ones scheduled by those callbacks)
+   */
+  advance(ms: number): void {
+    const until = this.time + ms;
+    while (this.tasks.length > 0 && this.tasks[0].at <= until) {
+      this.runTask(this.tasks.shift()!);
+    }
+    this.time = until;
+  }
+
+  /**
+   * Jumps to the next pending callback and runs it
+   * Returns false if nothing is pending
+   */
+  runNext(): boolean {
+    while (this.tasks.length > 0) {
+      const task = this.tasks.shift()!;
+      if (!task.cancelled) {
+        this.runTask(task);
+        return true;
+      }
+    }
+    return false;
+  }
+
+  private runTask(task: FakeTask): void {
+    if (task.cancelled) return;
+    this.time = Math.max(this.time, task.at);
+    task.callback();
+  }
+}
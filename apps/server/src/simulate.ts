@@ -0,0 +1,159 @@
+import { writeFileSync } from "fs";
+import { parseArgs } from "util";
+import {
+  BotProfileSchema,
+  MAX_PLAYERS,
+  RoomSettingsSchema,
+  type BotProfile,
+  type RoomSettings,
+} from "@acme/shared";
+import { simulateGame, summarize, toCsv, type GameResult } from "./simulation";
+
+/**
+ * Bot-vs-bot simulation CLI
+ *
+ *   pnpm simulate --games 5000 --players 4 --bots hard:balanced,easy:cautious
+ *
+ * Prints a JSON summary (distributions, claim outcomes, win rate by seat) or one CSV row per game.
+ * Rule flags default to the room defaults; run with --help for the list.
+ */
+
+const USAGE = `Usage: simulate [options]
+
+  --games <n>                 Games to play (default 1000)
+  --players <n>               Seats per game, 2-${MAX_PLAYERS} (default 4)
+  --seed <n>                  Seed of the first game; game i uses seed + i (default 1)
+  --bots <list>               Comma-separated difficulty:personality, cycled over the seats
+                              (default normal:balanced)
+  --claim-window-ms <ms>      Claim window length
+  --cards-per-kind <n>        Normal cards per kind
+  --specials-per-type <n>     Specials of each type
+  --false-slap-penalty <p>    WHOLE_PILE | FIXED
+  --false-slap-cards <n>      Cards taken per false slap in FIXED mode
+  --all-claimed-penalty <p>   LAST_CLAIMER | DISCARD
+  --require-final-claim <b>   true | false
+  --max-game-minutes <n>      Abandon games longer than this in game time (default 240)
+  --format <f>                json (summary) | csv (one row per game) (default json)
+  --out <file>                Write to a file instead of stdout
+`;
+
+function fail(message: string): never {
+  console.error(`${message}\n\n${USAGE}`);
+  process.exit(1);
+}
+
+function toInt(flag: string, value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed)) {
+    fail(`--${flag} must be an integer (got "${value}")`);
+  }
+  return parsed;
+}
+
+function parseBots(list: string): BotProfile[] {
+  return list.split(",").map((entry) => {
+    const [difficulty, personality = "balanced"] = entry.trim().split(":");
+    const parsed = BotProfileSchema.safeParse({ difficulty, personality });
+    if (!parsed.success) {
+      fail(`Invalid bot profile "${entry}"`);
+    }
+    return parsed.data;
+  });
+}
+
+function parseSettings(values: Record<string, string | boolean | undefined>): RoomSettings {
+  const specials = toInt("specials-per-type", values["specials-per-type"] as string | undefined);
+  const requireFinalClaim = values["require-final-claim"];
+  if (
+    requireFinalClaim !== undefined &&
+    requireFinalClaim !== "true" &&
+    requireFinalClaim !== "false"
+  ) {
+    fail(`--require-final-claim must be true or false (got "${requireFinalClaim}")`);
+  }
+
+  const parsed = RoomSettingsSchema.safeParse({
+    claimWindowMs: toInt("claim-window-ms", values["claim-window-ms"] as string | undefined),
+    cardsPerKind: toInt("cards-per-kind", values["cards-per-kind"] as string | undefined),
+    specialsPerType:
+      specials === undefined
+        ? undefined
+        : { SPECIAL_1: specials, SPECIAL_2: specials, SPECIAL_3: specials },
+    falseSlapPenalty: values["false-slap-penalty"],
+    falseSlapCards: toInt("false-slap-cards", values["false-slap-cards"] as string | undefined),
+    allClaimedPenalty: values["all-claimed-penalty"],
+    requireFinalClaim: requireFinalClaim === undefined ? undefined : requireFinalClaim === "true",
+  });
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`);
+    fail(`Invalid rules:\n  ${issues.join("\n  ")}`);
+  }
+  return parsed.data;
+}
+
+function main(): void {
+  const { values } = parseArgs({
+    options: {
+      games: { type: "string", default: "1000" },
+      players: { type: "string", default: "4" },
+      seed: { type: "string", default: "1" },
+      bots: { type: "string", default: "normal:balanced" },
+      "claim-window-ms": { type: "string" },
+      "cards-per-kind": { type: "string" },
+      "specials-per-type": { type: "string" },
+      "false-slap-penalty": { type: "string" },
+      "false-slap-cards": { type: "string" },
+      "all-claimed-penalty": { type: "string" },
+      "require-final-claim": { type: "string" },
+      "max-game-minutes": { type: "string", default: "240" },
+      format: { type: "string", default: "json" },
+      out: { type: "string" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const games = toInt("games", values.games)!;
+  const players = toInt("players", values.players)!;
+  const seed = toInt("seed", values.seed)!;
+  const maxGameMinutes = toInt("max-game-minutes", values["max-game-minutes"])!;
+  if (games < 1) fail("--games must be at least 1");
+  if (players < 2 || players > MAX_PLAYERS) fail(`--players must be between 2 and ${MAX_PLAYERS}`);
+  if (maxGameMinutes < 1) fail("--max-game-minutes must be at least 1");
+  if (values.format !== "json" && values.format !== "csv") fail("--format must be json or csv");
+
+  const config = {
+    players,
+    settings: { ...parseSettings(values), maxPlayers: players },
+    bots: parseBots(values.bots!),
+    maxGameMs: maxGameMinutes * 60_000,
+  };
+
+  // Progress goes to stderr so stdout stays clean for the report
+  const results: GameResult[] = [];
+  const startedAt = Date.now();
+  for (let game = 0; game < games; game++) {
+    results.push(simulateGame(config, game, (seed + game) >>> 0));
+    if ((game + 1) % 100 === 0 || game + 1 === games) {
+      process.stderr.write(`\r${game + 1}/${games} games`);
+    }
+  }
+  process.stderr.write(` in ${((Date.now() - startedAt) / 1000).toFixed(1)}s\n`);
+
+  const report =
+    values.format === "csv"
+      ? toCsv(results)
+      : JSON.stringify({ config, summary: summarize(results, players) }, null, 2) + "\n";
+  if (values.out) {
+    writeFileSync(values.out, report);
+  } else {
+    process.stdout.write(report);
+  }
+}
+
+main();
@@ -0,0 +1,263 @@
+import type { BotProfile, GameLog, RoomSettings } from "@acme/shared";
+import { createRng, nextRandom } from "@acme/engine";
+import { BotManager } from "./bot-manager";
+import { describeDistribution, type Distribution } from "./distribution";
+import { RoomManager } from "./room-manager";
+import { MemoryRoomStore } from "./room-store";
+import { FakeScheduler } from "./scheduler";
+
+/**
+ * Headless bot-vs-bot games for rule balancing
+ *
+ * Each game runs a real RoomManager and BotManager on a FakeScheduler: the same
+ * code paths as the server, minus sockets, with every wait skipped.
+ */
+
+export interface SimulationConfig {
+  players: number; // Seats per game
+  settings: RoomSettings; // House rules every game is played with
+  bots: BotProfile[]; // Profile per seat (cycled when shorter than players)
+  maxGameMs: number; // Games still running after this much game time are abandoned
+}
+
+/**
+ * What happened in one simulated game
+ */
+export interface GameResult {
+  game: number;
+  seed: number;
+  finished: boolean; // False if the game hit maxGameMs
+  durationSec: number; // Game time from deal to end
+  flips: number;
+  claims: number; // Claim windows opened
+  matchClaims: number;
+  specialClaims: number;
+  everyoneClaimed: number; // Windows everyone claimed (last claimer takes the pile, or it is discarded)
+  someoneMissed: number; // Windows whose pile went to the players who didn't claim
+  cancelledClaims: number; // Windows closed by a false slap before they resolved
+  timedOutClaims: number; // Windows resolved at closesAt rather than by the last claim
+  falseSlaps: number;
+  falseSlapCards: number; // Cards picked up through false slaps
+  winnerSeat?: number; // Seat index (0 = first to flip)
+  loserSeat?: number;
+}
+
+export interface SimulationSummary {
+  games: number;
+  finished: number;
+  durationSec: Distribution; // Distributions cover finished games only
+  flips: Distribution;
+  claims: Distribution;
+  falseSlaps: Distribution;
+  claimOutcomes: {
+    total: number;
+    match: number;
+    special: number;
+    everyoneClaimed: number;
+    someoneMissed: number;
+    cancelled: number;
+    timedOut: number;
+  };
+  winRateBySeat: number[]; // Share of finished games won from each seat
+  loseRateBySeat: number[];
+}
+
+// Fake clock start (any fixed time keeps runs reproducible)
+const SIMULATION_EPOCH = Date.UTC(2024, 0, 1);
+
+const HOST_ID = "sim-host";
+
+/**
+ * Plays one game between bots and reports what happened
+ * The same seed and config always play out the same way
+ */
+export function simulateGame(config: SimulationConfig, game: number, seed: number): GameResult {
+  const scheduler = new FakeScheduler(SIMULATION_EPOCH);
+  const rng = createRng(seed);
+  const random = () => nextRandom(rng);
+  const botManager = new BotManager(random, scheduler);
+  const roomManager = new RoomManager(new MemoryRoomStore(), random, scheduler);
+  roomManager.setBotManager(botManager);
+
+  const profileFor = (seat: number) => config.bots[seat % config.bots.length];
+
+  // A host and its bots; the host seat is handed to a bot once the game is dealt
+  const { code } = roomManager.createRoom("Host", HOST_ID);
+  const setup = [
+    roomManager.updateSettings(HOST_ID, {
+      ...config.settings,
+      maxPlayers: config.players,
+      isPublic: false,
+    }),
+  ];
+  for (let seat = 1; seat < config.players; seat++) {
+    setup.push(roomManager.addBot(HOST_ID, profileFor(seat)));
+  }
+  setup.push(roomManager.toggleReady(HOST_ID), roomManager.startGame(HOST_ID, seed));
+  for (const step of setup) {
+    if (!step.ok) {
+      throw new Error(`Could not set up game ${game}: ${step.error.code}`);
+    }
+  }
+
+  const room = roomManager.getRoom(code)!;
+  const host = room.players.find((p) => p.id === HOST_ID)!;
+  Object.assign(host, { isBot: true, bot: profileFor(0) });
+
+  // Same loop as the server: every change gives the bots a chance to act
+  const act = () =>
+    botManager.processBotActions(
+      room,
+      (botId) => {
+        if (roomManager.flipCard(botId).ok) act();
+      },
+      (botId, claimId) => {
+        if (roomManager.claimAttempt(botId, claimId).ok) act();
+      }
+    );
+  roomManager.setStateListener(act);
+  act();
+
+  const deadline = scheduler.now() + config.maxGameMs;
+  while (room.phase === "IN_GAME" && scheduler.now() < deadline && scheduler.runNext()) {
+    // Each timer (bot reaction, claim window close) may schedule the next ones
+  }
+
+  const log = room.gameLogs![room.gameLogs!.length - 1];
+  const result = countEvents(log, game, seed, scheduler.now());
+  if (room.phase !== "IN_GAME") {
+    const gameState = roomManager.getGameState(room);
+    const seatOf = (id?: string) => {
+      const seat = log.players.findIndex((p) => p.id === id);
+      return seat === -1 ? undefined : seat;
+    };
+    result.finished = true;
+    result.winnerSeat = seatOf(gameState?.winnerId);
+    result.loserSeat = seatOf(gameState?.loserId);
+  }
+  return result;
+}
+
+/**
+ * Counts flips, claim outcomes and false slaps in a game's log
+ */
+function countEvents(log: GameLog, game: number, seed: number, now: number): GameResult {
+  const result: GameResult = {
+    game,
+    seed,
+    finished: false,
+    durationSec: Math.round((log.endedAt ?? now) - log.startedAt) / 1000,
+    flips: 0,
+    claims: 0,
+    matchClaims: 0,
+    specialClaims: 0,
+    everyoneClaimed: 0,
+    someoneMissed: 0,
+    cancelledClaims: 0,
+    timedOutClaims: 0,
+    falseSlaps: 0,
+    falseSlapCards: 0,
+  };
+
+  const closesAt = new Map<string, number>(); // claimId -> closesAt
+  let resolved = 0;
+  for (const event of log.events) {
+    switch (event.type) {
+      case "FLIP":
+        result.flips++;
+        break;
+      case "CLAIM_OPEN":
+        result.claims++;
+        if (event.reason === "SPECIAL") {
+          result.specialClaims++;
+        } else {
+          result.matchClaims++;
+        }
+        closesAt.set(event.claimId, event.closesAt);
+        break;
+      case "CLAIM_RESOLVED": {
+        resolved++;
+        if (event.at >= (closesAt.get(event.claimId) ?? Infinity)) {
+          result.timedOutClaims++;
+        }
+        // Cards going to someone who didn't claim means the pile went to the non-claimers
+        const missed = Object.keys(event.distribution).some((id) => !event.claimers.includes(id));
+        if (missed) {
+          result.someoneMissed++;
+        } else {
+          result.everyoneClaimed++;
+        }
+        break;
+      }
+      case "FALSE_SLAP":
+        result.falseSlaps++;
+        result.falseSlapCards += event.cardsTaken;
+        break;
+    }
+  }
+  result.cancelledClaims = result.claims - resolved;
+  return result;
+}
+
+/**
+ * Aggregates game results into distributions and rates
+ */
+export function summarize(results: GameResult[], players: number): SimulationSummary {
+  const finished = results.filter((r) => r.finished);
+  const total = (key: keyof GameResult) =>
+    results.reduce((sum, r) => sum + (typeof r[key] === "number" ? (r[key] as number) : 0), 0);
+  const rateBySeat = (seatOf: (r: GameResult) => number | undefined) =>
+    Array.from({ length: players }, (_, seat) =>
+      finished.length > 0
+        ? Math.round((finished.filter((r) => seatOf(r) === seat).length / finished.length) * 1000) /
+          1000
+        : 0
+    );
+
+  return {
+    games: results.length,
+    finished: finished.length,
+    durationSec: describeDistribution(finished.map((r) => r.durationSec)),
+    flips: describeDistribution(finished.map((r) => r.flips)),
+    claims: describeDistribution(finished.map((r) => r.claims)),
+    falseSlaps: describeDistribution(finished.map((r) => r.falseSlaps)),
+    claimOutcomes: {
+      total: total("claims"),
+      match: total("matchClaims"),
+      special: total("specialClaims"),
+      everyoneClaimed: total("everyoneClaimed"),
+      someoneMissed: total("someoneMissed"),
+      cancelled: total("cancelledClaims"),
+      timedOut: total("timedOutClaims"),
+    },
+    winRateBySeat: rateBySeat((r) => r.winnerSeat),
+    loseRateBySeat: rateBySeat((r) => r.loserSeat),
+  };
+}
+
+const CSV_COLUMNS: Array<keyof GameResult> = [
+  "game",
+  "seed",
+  "finished",
+  "durationSec",
+  "flips",
+  "claims",
+  "matchClaims",
+  "specialClaims",
+  "everyoneClaimed",
+  "someoneMissed",
+  "cancelledClaims",
+  "timedOutClaims",
+  "falseSlaps",
+  "falseSlapCards",
+  "winnerSeat",
+  "loserSeat",
+];
+
+/**
+ * One CSV row per game, with a header row
+ */
+export function toCsv(results: GameResult[]): string {
+  const rows = results.map((r) => CSV_COLUMNS.map((column) => r[column] ?? "").join(","));
+  return [CSV_COLUMNS.join(","), ...rows].join("\n") + "\n";
+}
@@ -0,0 +1,162 @@
+import type { NextFunction, Request, Response } from "express";
+import type { Socket } from "socket.io";
+import {
+  EVENTS,
+  ErrorCode,
+  CHAT_RATE_LIMIT_COUNT,
+  CHAT_RATE_LIMIT_WINDOW_MS,
+  type ErrorPayload,
+} from "@acme/shared";
+import { TokenBucketLimiter, type TokenBucketBudget } from "./rate-limiter";
+
+// Per-socket budgets; events not listed share DEFAULT_BUDGET
+const EVENT_BUDGETS: Record<string, TokenBucketBudget> = {
+  [EVENTS.ROOM_CREATE]: { capacity: 3, refillPerSecond: 0.1 },
+  [EVENTS.ROOM_CREATE_SOLO]: { capacity: 3, refillPerSecond: 0.1 },
+  [EVENTS.QUICK_MATCH]: { capacity: 3, refillPerSecond: 0.2 },
+  [EVENTS.ROOM_JOIN]: { capacity: 5, refillPerSecond: 0.5 },
+  [EVENTS.ROOM_SPECTATE]: { capacity: 5, refillPerSecond: 0.5 },
+  [EVENTS.ROOM_REJOIN]: { capacity: 5, refillPerSecond: 0.5 },
+  [EVENTS.READY_TOGGLE]: { capacity: 5, refillPerSecond: 1 },
+  [EVENTS.FLIP_REQUEST]: { capacity: 5, refillPerSecond: 3 },
+  [EVENTS.CLAIM_ATTEMPT]: { capacity: 10, refillPerSecond: 5 },
+  [EVENTS.CHAT_SEND]: {
+    capacity: CHAT_RATE_LIMIT_COUNT,
+    refillPerSecond: CHAT_RATE_LIMIT_COUNT / (CHAT_RATE_LIMIT_WINDOW_MS / 1000),
+  },
+  [EVENTS.CLOCK_PONG]: { capacity: 5, refillPerSecond: 2 },
+  [EVENTS.LOBBY_LIST_REQUEST]: { capacity: 5, refillPerSecond: 1 },
+};
+const DEFAULT_BUDGET: TokenBucketBudget = { capacity: 10, refillPerSecond: 2 };
+
+// Per-IP budgets of the HTTP routes that write, counted in the same limiter as the sockets' IP budgets
+const ROUTE_BUDGETS = {
+  nicknameClaim: { capacity: 5, refillPerSecond: 0.1 },
+} satisfies Record<string, TokenBucketBudget>;
+
+// An IP gets this many times a socket's budget - several players can share one behind a NAT
+const IP_BUDGET_MULTIPLIER = 4;
+
+// Anything else is dropped before the limiter, so client-chosen names never become bucket keys
+const KNOWN_EVENTS = new Set<string>(Object.values(EVENTS));
+
+// Dropped without an error round trip (the client sends them on its own)
+const SILENT_EVENTS = new Set<string>([EVENTS.CLOCK_PONG]);
+
+const socketLimiter = new TokenBucketLimiter();
+const ipLimiter = new TokenBucketLimiter();
+
+/**
+ * Address the trusted proxy saw: the last X-Forwarded-For entry, the one it appended
+ * Earlier entries come from the client and can be anything
+ */
+function lastForwardedFor(header: string | string[] | undefined): string | undefined {
+  const value = Array.isArray(header) ? header.join(",") : header;
+  return value?.split(",").pop()?.trim() || undefined;
+}
+
+/**
+ * Client IP of a socket - the proxy's X-Forwarded-For entry when the server runs behind a trusted proxy
+ */
+export function getClientIp(socket: Socket, trustProxy: boolean): string {
+  const forwarded = trustProxy
+    ? lastForwardedFor(socket.handshake.headers["x-forwarded-for"])
+    : undefined;
+  return forwarded ?? socket.handshake.address;
+}
+
+/**
+ * Client IP of an HTTP request, read the same way as getClientIp
+ */
+export function getRequestIp(req: Request, trustProxy: boolean): string {
+  const forwarded = trustProxy ? lastForwardedFor(req.headers["x-forwarded-for"]) : undefined;
+  return forwarded ?? req.socket.remoteAddress ?? "unknown";
+}
+
+/**
+ * Express middleware refusing requests over the route's per-IP budget with 429 and Retry-After
+ */
+export function rateLimitRoute(route: keyof typeof ROUTE_BUDGETS, trustProxy: boolean) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const ip = getRequestIp(req, trustProxy);
+    const retryAfterMs = ipLimiter.tryTake(`${ip}:http:${route}`, ROUTE_BUDGETS[route]);
+    if (retryAfterMs === 0) {
+      next();
+      return;
+    }
+    res.setHeader("Retry-After", Math.ceil(retryAfterMs / 1000));
+    res.status(429).json({ message: "Too many requests", retryAfterMs });
+  };
+}
+
+/**
+ * Socket.IO middleware dropping unknown events and events over their per-socket or per-IP budget
+ * The client gets a RATE_LIMITED error with the time until it may retry
+ */
+export function applyRateLimit(socket: Socket, ip: string): void {
+  socket.use(([event], next) => {
+    if (!KNOWN_EVENTS.has(event)) return;
+
+    const budget = EVENT_BUDGETS[event] ?? DEFAULT_BUDGET;
+    const ipBudget = {
+      capacity: budget.capacity * IP_BUDGET_MULTIPLIER,
+      refillPerSecond: budget.refillPerSecond * IP_BUDGET_MULTIPLIER,
+    };
+
+    const retryAfterMs =
+      socketLimiter.tryTake(`${socket.id}:${event}`, budget) ||
+      ipLimiter.tryTake(`${ip}:${event}`, ipBudget);
+    if (retryAfterMs === 0) {
+      next();
+      return;
+    }
+
+    if (!SILENT_EVENTS.has(event)) {
+      socket.emit(EVENTS.ERROR, {
+        code: ErrorCode.RATE_LIMITED,
+        params: { event, retryAfterMs },
+      } satisfies ErrorPayload);
+    }
+  });
+
+  socket.on("disconnect", () => socketLimiter.removeByPrefix(`${socket.id}:`));
+}
+
+/**
+ * Drops limiter buckets that have refilled (run periodically so the per-IP map doesn't grow forever)
+ */
+export function pruneRateLimits(now: number = Date.now()): void {
+  socketLimiter.prune(now);
+  ipLimiter.prune(now);
+}
+
+/**
+ * Caps how many open rooms each IP has created
+ */
+export class RoomQuota {
+  private roomsByIp = new Map<string, Set<string>>(); // ip -> codes of the rooms it created
+
+  constructor(
+    private readonly maxRooms: number,
+    private readonly isOpen: (code: string) => boolean
+  ) {}
+
+  canCreate(ip: string): boolean {
+    return this.openRooms(ip).size < this.maxRooms;
+  }
+
+  record(ip: string, code: string): void {
+    this.roomsByIp.set(ip, this.openRooms(ip).add(code));
+  }
+
+  // Forgets rooms that have since been closed
+  private openRooms(ip: string): Set<string> {
+    const codes = new Set([...(this.roomsByIp.get(ip) ?? [])].filter((code) => this.isOpen(code)));
+    if (codes.size > 0) {
+      this.roomsByIp.set(ip, codes);
+    } else {
+      this.roomsByIp.delete(ip);
+    }
+    return codes;
+  }
+}
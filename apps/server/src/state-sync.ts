@@ -0,0 +1,75 @@
+import { diffRoomState, type GameLogEvent, type RoomPatch, type RoomSnapshot, type RoomState } from "@acme/shared";
+import type { RoomWithGame } from "./room-manager";
+
+interface RoomVersion {
+  seq: number;
+  state: RoomState; // State as of this version (what clients have once they applied every patch)
+  gameNumber?: number; // Game log the events were read from
+  eventCount: number; // Events of that log already sent
+}
+
+/**
+ * Versions each room's broadcast state so clients get small patches instead of full snapshots
+ * Versions are not persisted: after a restart clients rejoin and get a fresh snapshot
+ */
+export class StateSync {
+  private versions = new Map<string, RoomVersion>(); // roomCode -> last broadcast version
+
+  /**
+   * Records the room's current state as the next version
+   * Returns the patch from the previous version, or null if nothing changed (or this is the first version)
+   */
+  update(room: RoomWithGame, state: RoomState): RoomPatch | null {
+    const previous = this.versions.get(room.code);
+    const log = room.gameLogs?.[room.gameLogs.length - 1];
+    const seq = (previous?.seq ?? 0) + 1;
+    const patch = previous ? diffRoomState(previous.state, state, seq) : null;
+    const events = previous ? this.newEvents(previous, log?.gameNumber, log?.events ?? []) : [];
+    if (previous && !patch && events.length === 0) {
+      return null;
+    }
+
+    this.versions.set(room.code, {
+      seq,
+      state,
+      gameNumber: log?.gameNumber,
+      eventCount: log?.events.length ?? 0,
+    });
+    if (events.length > 0) {
+      return { ...(patch ?? { code: room.code, seq }), events };
+    }
+    return patch;
+  }
+
+  /**
+   * Full state of the latest version (for joins and resyncs)
+   */
+  snapshot(code: string): RoomSnapshot | null {
+    const version = this.versions.get(code);
+    return version ? { ...version.state, seq: version.seq } : null;
+  }
+
+  /**
+   * Forgets a deleted room
+   */
+  remove(code: string): void {
+    this.versions.delete(code);
+  }
+
+  /**
+   * Forgets every room that no longer exists (rooms can be deleted without a last broadcast)
+   */
+  retain(exists: (code: string) => boolean): void {
+    for (const code of this.versions.keys()) {
+      if (!exists(code)) {
+        this.versions.delete(code);
+      }
+    }
+  }
+
+  // Log events recorded since the previous version; DEAL is never sent since its seed reveals every hand
+  private newEvents(previous: RoomVersion, gameNumber: number | undefined, events: GameLogEvent[]): GameLogEvent[] {
+    const alreadySent = previous.gameNumber === gameNumber ? previous.eventCount : 0;
+    return events.slice(alreadySent).filter((event) => event.type !== "DEAL");
+  }
+}
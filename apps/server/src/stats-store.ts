@@ -0,0 +1,122 @@
+import { mkdirSync, readdirSync, readFileSync, renameSync, writeFileSync } from "fs";
+import { join } from "path";
+import type { PlayerStatsRecord } from "./player-stats";
+
+/**
+ * Persistence layer for player stats
+ * Records are keyed by guest profile id
+ */
+export interface StatsStore {
+  /**
+   * Gets a profile's stats
+   */
+  get(profileId: string): PlayerStatsRecord | undefined;
+
+  /**
+   * Inserts a record, or records that an existing one has changed
+   */
+  save(record: PlayerStatsRecord): void;
+
+  /**
+   * Lists all stored records
+   */
+  values(): PlayerStatsRecord[];
+}
+
+/**
+ * In-memory stats store (default)
+ * Stats are lost when the process exits
+ */
+export class MemoryStatsStore implements StatsStore {
+  protected records = new Map<string, PlayerStatsRecord>();
+
+  get(profileId: string): PlayerStatsRecord | undefined {
+    return this.records.get(profileId);
+  }
+
+  save(record: PlayerStatsRecord): void {
+    this.records.set(record.profileId, record);
+  }
+
+  values(): PlayerStatsRecord[] {
+    return [...this.records.values()];
+  }
+}
+
+/**
+ * Delay before changed stats are written to disk
+ * A finished game updates every profiled player at once
+ */
+const FILE_STORE_FLUSH_DELAY_MS = 250;
+
+/**
+ * File-backed stats store
+ * Keeps records in memory and writes each profile to `<dir>/<profileId>.json`
+ */
+export class FileStatsStore extends MemoryStatsStore {
+  private dirty = new Set<string>();
+  private flushTimeout?: NodeJS.Timeout;
+
+  constructor(private readonly dir: string) {
+    super();
+    mkdirSync(dir, { recursive: true });
+    this.loadAll();
+  }
+
+  save(record: PlayerStatsRecord): void {
+    super.save(record);
+    this.dirty.add(record.profileId);
+    this.scheduleFlush();
+  }
+
+  /**
+   * Writes all pending records to disk immediately
+   */
+  flush(): void {
+    if (this.flushTimeout) {
+      clearTimeout(this.flushTimeout);
+      this.flushTimeout = undefined;
+    }
+
+    for (const profileId of this.dirty) {
+      const record = this.records.get(profileId);
+      if (!record) continue;
+
+      // Write to a temp file first so a crash mid-write never leaves a truncated record
+      const file = this.fileFor(profileId);
+      const tmpFile = `${file}.tmp`;
+      try {
+        writeFileSync(tmpFile, JSON.stringify(record));
+        renameSync(tmpFile, file);
+      } catch (error) {
+        console.error(`[FileStatsStore] Failed to write stats for profile ${profileId}:`, error);
+      }
+    }
+    this.dirty.clear();
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimeout) return;
+    this.flushTimeout = setTimeout(() => {
+      this.flushTimeout = undefined;
+      this.flush();
+    }, FILE_STORE_FLUSH_DELAY_MS);
+  }
+
+  private loadAll(): void {
+    for (const entry of readdirSync(this.dir)) {
+      if (!entry.endsWith(".json")) continue;
+
+      try {
+        const record = JSON.parse(readFileSync(join(this.dir, entry), "utf8")) as PlayerStatsRecord;
+        this.records.set(record.profileId, record);
+      } catch (error) {
+        console.error(`[FileStatsStore] Skipping unreadable record ${entry}:`, error);
+      }
+    }
+  }
+
+  private fileFor(profileId: string): string {
+    return join(this.dir, `${profileId}.json`);
+  }
+}
@@ -0,0 +1,214 @@
+import { io, type Socket } from "socket.io-client";
+import {
+  EVENTS,
+  ErrorCode,
+  ClockPingSchema,
+  ErrorSchema,
+  KickedSchema,
+  RoomClosedSchema,
+  RoomPatchSchema,
+  RoomSnapshotSchema,
+  SessionSchema,
+  applyRoomPatch,
+  type ClaimAttemptPayload,
+  type ClockPongPayload,
+  type GestureProof,
+  type QuickMatchPayload,
+  type RoomCreatePayload,
+  type RoomCreateSoloPayload,
+  type RoomJoinPayload,
+  type RoomRejoinPayload,
+  type RoomState,
+} from "@acme/shared";
+import { describeError, texts } from "./texts";
+
+/**
+ * Socket connection of the terminal client
+ *
+ * Keeps the room state from snapshots and patches (asking for a resync when a patch is missed,
+ * like the web client) and exposes the player's actions. Every server payload is checked
+ * against the shared schemas before it is used.
+ */
+
+// Clock ping samples kept to estimate the server clock offset
+const CLOCK_SAMPLES = 8;
+
+export class GameConnection {
+  state?: RoomState;
+  playerId?: string;
+  connected = false;
+  notice?: { text: string; at: number }; // Last error or event worth telling the player
+
+  private socket: Socket;
+  private seq?: number;
+  private session?: RoomRejoinPayload; // Reclaims our seat if the connection drops
+  private clockOffsets: number[] = []; // serverTime - local receive time of recent pings
+
+  constructor(
+    url: string,
+    private onChange: () => void
+  ) {
+    this.socket = io(url, { transports: ["websocket"] });
+
+    this.socket.on("connect", () => {
+      this.connected = true;
+      // Back after a drop: the server holds the seat for a grace period
+      if (this.session) {
+        this.socket.emit(EVENTS.ROOM_REJOIN, this.session);
+      }
+      this.onChange();
+    });
+
+    this.socket.on("disconnect", () => {
+      this.connected = false;
+      this.seq = undefined;
+      this.onChange();
+    });
+
+    this.socket.on(EVENTS.CLOCK_PING, (payload) => {
+      const ping = ClockPingSchema.safeParse(payload);
+      if (!ping.success) return;
+      const now = Date.now();
+      this.clockOffsets = [...this.clockOffsets, ping.data.serverTime - now].slice(-CLOCK_SAMPLES);
+      this.socket.emit(EVENTS.CLOCK_PONG, {
+        serverTime: ping.data.serverTime,
+        clientTime: now,
+      } satisfies ClockPongPayload);
+    });
+
+    this.socket.on(EVENTS.SESSION, (payload) => {
+      const session = SessionSchema.safeParse(payload);
+      if (session.success) {
+        const { code, playerId, sessionToken } = session.data;
+        this.playerId = playerId;
+        this.session = { code, sessionToken };
+      }
+    });
+
+    this.socket.on(EVENTS.ROOM_STATE, (payload) => {
+      const snapshot = RoomSnapshotSchema.safeParse(payload);
+      if (!snapshot.success) return;
+      const { seq, ...state } = snapshot.data;
+      this.seq = seq;
+      this.state = state;
+      this.onChange();
+    });
+
+    this.socket.on(EVENTS.ROOM_PATCH, (payload) => {
+      const patch = RoomPatchSchema.safeParse(payload);
+      if (!patch.success || !this.state || this.seq === undefined) return;
+      if (patch.data.code !== this.state.code || patch.data.seq !== this.seq + 1) {
+        this.seq = undefined;
+        this.socket.emit(EVENTS.ROOM_RESYNC, {});
+        return;
+      }
+      this.seq = patch.data.seq;
+      this.state = applyRoomPatch(this.state, patch.data);
+      this.onChange();
+    });
+
+    this.socket.on(EVENTS.ERROR, (payload) => {
+      const error = ErrorSchema.safeParse(payload);
+      if (!error.success) return;
+      if (error.data.code === ErrorCode.SESSION_EXPIRED) {
+        this.leftRoom(describeError(error.data)); // The held seat is gone
+      } else {
+        this.tell(describeError(error.data));
+      }
+    });
+
+    this.socket.on(EVENTS.KICKED, (payload) => {
+      if (KickedSchema.safeParse(payload).success) {
+        this.leftRoom(texts.kicked);
+      }
+    });
+
+    this.socket.on(EVENTS.ROOM_CLOSED, (payload) => {
+      if (RoomClosedSchema.safeParse(payload).success) {
+        this.leftRoom(texts.roomClosed);
+      }
+    });
+  }
+
+  /**
+   * Current server time (local clock plus the offset measured from clock pings)
+   * Each sample falls short by its ping's network delay, so the largest is the closest
+   */
+  serverNow(): number {
+    const offset = this.clockOffsets.length > 0 ? Math.max(...this.clockOffsets) : 0;
+    return Date.now() + offset;
+  }
+
+  createRoom(name: string, password?: string): void {
+    this.socket.emit(EVENTS.ROOM_CREATE, { name, password } satisfies RoomCreatePayload);
+  }
+
+  createSoloRoom(payload: RoomCreateSoloPayload): void {
+    this.socket.emit(EVENTS.ROOM_CREATE_SOLO, payload);
+  }
+
+  joinRoom(code: string, name: string, password?: string): void {
+    this.socket.emit(EVENTS.ROOM_JOIN, {
+      code: code.toUpperCase(),
+      name,
+      password,
+    } satisfies RoomJoinPayload);
+  }
+
+  quickMatch(name: string): void {
+    this.socket.emit(EVENTS.QUICK_MATCH, { name } satisfies QuickMatchPayload);
+  }
+
+  toggleReady(): void {
+    this.socket.emit(EVENTS.READY_TOGGLE, {});
+  }
+
+  startGame(): void {
+    this.socket.emit(EVENTS.START_GAME, {});
+  }
+
+  rematch(): void {
+    this.socket.emit(EVENTS.REMATCH_REQUEST, {});
+  }
+
+  addBot(): void {
+    this.socket.emit(EVENTS.ADD_BOT, {});
+  }
+
+  flip(): void {
+    this.socket.emit(EVENTS.FLIP_REQUEST, {});
+  }
+
+  /**
+   * Claims the open window (with the gesture proof on SPECIAL windows), or slaps when there is none
+   * reactedAt lets the server compensate for our latency when ordering claimers
+   */
+  claim(claimId?: string, proof?: GestureProof, reactedAt: number = Date.now()): void {
+    this.socket.emit(
+      EVENTS.CLAIM_ATTEMPT,
+      (claimId ? { claimId, proof, reactedAt } : {}) satisfies ClaimAttemptPayload
+    );
+  }
+
+  /**
+   * Leaves the room and closes the connection
+   */
+  close(): void {
+    if (this.state) {
+      this.socket.emit(EVENTS.ROOM_LEAVE);
+    }
+    this.socket.disconnect();
+  }
+
+  private tell(text: string): void {
+    this.notice = { text, at: Date.now() };
+    this.onChange();
+  }
+
+  private leftRoom(reason: string): void {
+    this.state = undefined;
+    this.session = undefined;
+    this.seq = undefined;
+    this.tell(reason);
+  }
+}
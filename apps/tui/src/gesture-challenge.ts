@@ -0,0 +1,148 @@
+import {
+  BUBBLES_COUNT,
+  BUBBLES_MIN_DISTANCE_PX,
+  BUBBLES_SIZE_PX,
+  CLICK_FRENZY_MIN_INTERVAL_MS,
+  CLICK_FRENZY_REQUIRED_CLICKS,
+  generateBubblePositions,
+  type GesturePoint,
+  type GestureProof,
+  type GestureType,
+} from "@acme/shared";
+
+/**
+ * Keyboard stand-ins for the pointer gestures of SPECIAL claim windows
+ *
+ * - CLICK_FRENZY: mash space (presses closer than the minimum interval don't count, as on the web)
+ * - BUBBLES: type the shown letters in order, one per bubble
+ * - CIRCLE: go once around with the arrow keys, clockwise from the shown one, three presses a quarter
+ *
+ * Every accepted press is recorded as a proof sample at the time it was pressed: the bubble it pops,
+ * or the next point on a circle of twelve (a clock face). The server checks it like any other proof.
+ */
+
+const BUBBLE_KEYS = "asdfghjkl";
+const CIRCLE_KEYS = ["up", "right", "down", "left"]; // Clockwise
+const CIRCLE_STEPS_PER_KEY = 3; // Presses per quarter turn
+const CIRCLE_RADIUS_PX = 80;
+const BUBBLES_AREA_PX = 320; // Side of the square the bubbles are laid out in
+const KEY_LABELS: Record<string, string> = {
+  up: "↑",
+  right: "→",
+  down: "↓",
+  left: "←",
+  space: "␣",
+};
+
+export class GestureChallenge {
+  readonly sequence: string[]; // Keys to press in order (CLICK_FRENZY: space every time)
+  private presses: number[] = []; // Times of the accepted presses
+  private samples: GesturePoint[] = []; // BUBBLES and CIRCLE: where each accepted press landed
+
+  constructor(
+    readonly type: GestureType,
+    readonly claimId: string,
+    random: () => number = Math.random
+  ) {
+    switch (type) {
+      case "CLICK_FRENZY":
+        this.sequence = Array.from({ length: CLICK_FRENZY_REQUIRED_CLICKS }, () => "space");
+        break;
+      case "BUBBLES":
+        this.sequence = Array.from(
+          { length: BUBBLES_COUNT },
+          () => BUBBLE_KEYS[Math.floor(random() * BUBBLE_KEYS.length)]
+        );
+        break;
+      case "CIRCLE": {
+        // Four quarter turns and back to the start
+        const start = Math.floor(random() * CIRCLE_KEYS.length);
+        const steps = CIRCLE_KEYS.length * CIRCLE_STEPS_PER_KEY;
+        this.sequence = Array.from(
+          { length: steps + 1 },
+          (_, i) => CIRCLE_KEYS[(start + Math.floor(i / CIRCLE_STEPS_PER_KEY)) % CIRCLE_KEYS.length]
+        );
+        break;
+      }
+    }
+  }
+
+  get progress(): number {
+    return this.presses.length;
+  }
+
+  get done(): boolean {
+    return this.presses.length >= this.sequence.length;
+  }
+
+  /**
+   * Sequence for display, with the keys already pressed marked
+   */
+  get labels(): Array<{ label: string; pressed: boolean }> {
+    return this.sequence.map((key, i) => ({
+      label: KEY_LABELS[key] ?? key,
+      pressed: i < this.presses.length,
+    }));
+  }
+
+  /**
+   * Feeds a key press; returns whether it counted
+   */
+  press(key: string, now: number): boolean {
+    if (this.done || key !== this.sequence[this.presses.length]) {
+      return false;
+    }
+    const last = this.presses[this.presses.length - 1];
+    if (
+      this.type === "CLICK_FRENZY" &&
+      last !== undefined &&
+      now - last < CLICK_FRENZY_MIN_INTERVAL_MS
+    ) {
+      return false;
+    }
+    if (this.type !== "CLICK_FRENZY") {
+      this.samples.push({ ...this.positionOf(this.presses.length), t: now });
+    }
+    this.presses.push(now);
+    return true;
+  }
+
+  /**
+   * Proof for the claim, made of the recorded presses
+   */
+  proof(): GestureProof {
+    switch (this.type) {
+      case "CLICK_FRENZY":
+        return { type: "CLICK_FRENZY", clicks: [...this.presses] };
+      case "BUBBLES":
+        return {
+          type: "BUBBLES",
+          width: BUBBLES_AREA_PX,
+          height: BUBBLES_AREA_PX,
+          pops: [...this.samples],
+        };
+      case "CIRCLE":
+        return { type: "CIRCLE", points: [...this.samples] };
+    }
+  }
+
+  /**
+   * Where the nth press lands: the nth bubble of the claim's layout, or the nth clock position
+   * from the starting key (relative to the circle's center, y down)
+   */
+  private positionOf(index: number): { x: number; y: number } {
+    if (this.type === "BUBBLES") {
+      return generateBubblePositions(
+        this.claimId,
+        BUBBLES_COUNT,
+        BUBBLES_MIN_DISTANCE_PX,
+        BUBBLES_SIZE_PX,
+        BUBBLES_AREA_PX,
+        BUBBLES_AREA_PX
+      )[index];
+    }
+    const startAngle = (CIRCLE_KEYS.indexOf(this.sequence[0]) - 1) * (Math.PI / 2); // up = -90°
+    const angle = startAngle + (index * Math.PI) / (2 * CIRCLE_STEPS_PER_KEY);
+    return { x: Math.cos(angle) * CIRCLE_RADIUS_PX, y: Math.sin(angle) * CIRCLE_RADIUS_PX };
+  }
+}
@@ -0,0 +1,195 @@
+#!/usr/bin/env node
+import { userInfo } from "os";
+import { emitKeypressEvents } from "readline";
+import { parseArgs } from "util";
+import { MAX_PLAYERS } from "@acme/shared";
+import { GameConnection } from "./connection";
+import { GestureChallenge } from "./gesture-challenge";
+import { renderScreen } from "./render";
+
+/**
+ * Terminal client
+ *
+ *   pnpm tui                        # create a room
+ *   pnpm tui --join ABCDE           # join one
+ *   pnpm tui --solo --bots 3        # play against bots
+ */
+
+const USAGE = `Usage: acme-tui [options]
+
+  --url <url>           Server to play on (default http://localhost:3001)
+  --name <name>         Player name (default the system user)
+  --join <code>         Join a room instead of creating one
+  --password <text>     Room password (to create or join)
+  --quick               Quick match: join any public room waiting for players
+  --solo                Play against bots
+  --bots <n>            Bots in a solo room, 1-${MAX_PLAYERS - 1} (default 1)
+`;
+
+// Repaint rate while a claim countdown is running
+const COUNTDOWN_REPAINT_MS = 100;
+const EXIT_FLUSH_MS = 200;
+
+interface Keypress {
+  name?: string;
+  ctrl?: boolean;
+}
+
+function fail(message: string): never {
+  console.error(`${message}\n\n${USAGE}`);
+  process.exit(1);
+}
+
+function main(): void {
+  const { values } = parseArgs({
+    options: {
+      url: { type: "string", default: "http://localhost:3001" },
+      name: { type: "string" },
+      join: { type: "string" },
+      password: { type: "string" },
+      quick: { type: "boolean" },
+      solo: { type: "boolean" },
+      bots: { type: "string", default: "1" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+  if (!process.stdin.isTTY) {
+    fail("The terminal client needs an interactive terminal");
+  }
+
+  const url = values.url!;
+  const name = (values.name ?? userInfo().username).slice(0, 50);
+  const botCount = Number(values.bots);
+  if (!Number.isInteger(botCount) || botCount < 1 || botCount > MAX_PLAYERS - 1) {
+    fail(`--bots must be between 1 and ${MAX_PLAYERS - 1}`);
+  }
+
+  let challenge: GestureChallenge | undefined;
+  let entered = false;
+  let quitting = false;
+
+  const repaint = () => {
+    if (quitting) return; // The terminal is already restored
+    // A new claim window (or none) ends the gesture in progress
+    if (challenge && connection.state?.game?.claim?.id !== challenge.claimId) {
+      challenge = undefined;
+    }
+    process.stdout.write(
+      "\x1b[H" +
+        renderScreen({
+          url,
+          connected: connection.connected,
+          state: connection.state,
+          playerId: connection.playerId,
+          notice: connection.notice,
+          challenge,
+          now: Date.now(),
+          serverNow: connection.serverNow(),
+        })
+    );
+  };
+
+  const connection = new GameConnection(url, () => {
+    // Create or join once, on the first connection (reconnects rejoin on their own)
+    if (connection.connected && !entered) {
+      entered = true;
+      if (values.join) {
+        connection.joinRoom(values.join, name, values.password);
+      } else if (values.quick) {
+        connection.quickMatch(name);
+      } else if (values.solo) {
+        connection.createSoloRoom({
+          name,
+          difficulty: "normal",
+          personality: "balanced",
+          botCount,
+        });
+      } else {
+        connection.createRoom(name, values.password);
+      }
+    }
+    repaint();
+  });
+
+  // Keeps the countdown moving and lets notices fade between server updates
+  const ticker = setInterval(() => {
+    if (connection.state?.game?.claim || connection.notice) {
+      repaint();
+    }
+  }, COUNTDOWN_REPAINT_MS);
+
+  const quit = () => {
+    quitting = true;
+    clearInterval(ticker);
+    connection.close();
+    process.stdin.setRawMode(false);
+    process.stdout.write("\x1b[?25h\x1b[?1049l"); // Show the cursor, back to the main screen
+    setTimeout(() => process.exit(0), EXIT_FLUSH_MS); // Let the leave reach the server
+  };
+
+  const onKey = (key: Keypress) => {
+    const now = Date.now();
+    const state = connection.state;
+
+    if (challenge) {
+      if (key.name === "escape") {
+        challenge = undefined;
+      } else if (key.name && challenge.press(key.name, now) && challenge.done) {
+        connection.claim(challenge.claimId, challenge.proof());
+        challenge = undefined;
+      }
+      return;
+    }
+
+    switch (state?.phase) {
+      case "LOBBY":
+        if (key.name === "r") connection.toggleReady();
+        if (key.name === "s") connection.startGame();
+        if (key.name === "b") connection.addBot();
+        break;
+      case "IN_GAME": {
+        if (key.name === "f") connection.flip();
+        if (key.name !== "space") break;
+        const claim = state.game?.claim;
+        if (!claim) {
+          connection.claim(); // Nothing to claim: a false slap
+        } else if (connection.playerId && claim.claimers.includes(connection.playerId)) {
+          break; // Already claimed this window
+        } else if (claim.gestureType) {
+          // The key that starts the gesture counts as its first press when it fits
+          challenge = new GestureChallenge(claim.gestureType, claim.id);
+          challenge.press(key.name, now);
+        } else {
+          connection.claim(claim.id);
+        }
+        break;
+      }
+      case "ENDED":
+        if (key.name === "r") connection.rematch();
+        break;
+    }
+  };
+
+  process.stdout.write("\x1b[?1049h\x1b[?25l\x1b[2J"); // Alternate screen, hide the cursor
+  emitKeypressEvents(process.stdin);
+  process.stdin.setRawMode(true);
+  process.stdin.on("keypress", (_text: string, key: Keypress | undefined) => {
+    if (!key) return;
+    if ((key.ctrl && key.name === "c") || (!challenge && key.name === "q")) {
+      quit();
+      return;
+    }
+    onKey(key);
+    repaint();
+  });
+  process.on("SIGTERM", quit);
+
+  repaint();
+}
+
+main();
@@ -0,0 +1,196 @@
+import { KINDS, type Card, type RoomState } from "@acme/shared";
+import type { GestureChallenge } from "./gesture-challenge";
+import { texts } from "./texts";
+
+/**
+ * Screen rendering of the terminal client
+ *
+ * Pure: builds the whole screen as a string from the current state, and index.ts repaints it.
+ */
+
+// How long an error or event stays on screen
+const NOTICE_MS = 3000;
+const COUNTDOWN_WIDTH = 30;
+
+const ansi = (code: string) => (text: string) => `\x1b[${code}m${text}\x1b[0m`;
+const bold = ansi("1");
+const dim = ansi("2");
+const inverse = ansi("7");
+const red = ansi("31");
+const green = ansi("32");
+const yellow = ansi("33");
+const cyan = ansi("36");
+
+export interface ScreenView {
+  url: string;
+  connected: boolean;
+  state?: RoomState;
+  playerId?: string;
+  notice?: { text: string; at: number };
+  challenge?: GestureChallenge;
+  now: number; // Local time, for the notice
+  serverNow: number; // Server time, for the claim countdown
+}
+
+function describeCard(card: Card): string {
+  if (card.visual.kind === "special") {
+    return yellow(` ★ ${texts.special} ${card.visual.specialType} `);
+  }
+  return bold(` ${card.word.toUpperCase()} `);
+}
+
+function renderPlayers(state: RoomState, playerId?: string): string[] {
+  const game = state.game;
+  const placements = game?.placements ?? {};
+  const players =
+    state.phase === "ENDED"
+      ? [...state.players].sort(
+          (a, b) => (placements[a.id] ?? Infinity) - (placements[b.id] ?? Infinity)
+        )
+      : state.players;
+  return players.map((player) => {
+    const tags = [
+      player.id === playerId ? texts.you : undefined,
+      player.id === state.hostId ? texts.host : undefined,
+      player.isBot ? texts.bot : undefined,
+    ].filter(Boolean);
+    const name = `${player.avatar ? `${player.avatar} ` : ""}${player.name}${
+      tags.length > 0 ? dim(` (${tags.join(", ")})`) : ""
+    }`;
+
+    if (state.phase === "LOBBY") {
+      return `  ${player.ready ? green("✓") : dim("·")} ${name}  ${
+        player.ready ? green(texts.ready) : dim(texts.notReady)
+      }`;
+    }
+
+    const isTurn = state.phase === "IN_GAME" && game?.turnPlayerId === player.id;
+    const status = game?.playerStatuses[player.id];
+    const cards =
+      status === "OUT" ? red(texts.out) : `${game?.handCounts[player.id] ?? 0} ${texts.cards}`;
+    const place = placements[player.id];
+    return `${isTurn ? cyan(" ▶") : "  "} ${place !== undefined ? `${place}. ` : ""}${name}  ${cards}`;
+  });
+}
+
+function renderTable(state: RoomState, view: ScreenView): string[] {
+  const game = state.game;
+  if (!game) return [];
+
+  const lines = [
+    `${texts.table} ${game.topCard ? inverse(describeCard(game.topCard)) : dim(texts.emptyPile)}  ${dim(
+      `${texts.pile} ${game.pileCount}`
+    )}`,
+    "",
+    // Word timeline: the word said with the last flip, and the one the next flip will say
+    KINDS.map((kind) => {
+      if (kind === game.spokenWord) return inverse(` ${kind} `);
+      if (kind === game.currentWord) return bold(`[${kind}]`);
+      return dim(` ${kind} `);
+    }).join(" "),
+    `${texts.said}: ${game.spokenWord ? bold(game.spokenWord.toUpperCase()) : "-"} → ${texts.next}: ${game.currentWord.toUpperCase()}`,
+  ];
+
+  const claim = game.claim;
+  if (claim) {
+    const total = Math.max(1, claim.closesAt - claim.opensAt);
+    const left = Math.max(0, claim.closesAt - view.serverNow);
+    const filled = Math.round((left / total) * COUNTDOWN_WIDTH);
+    const names = claim.claimers.map(
+      (id) => state.players.find((player) => player.id === id)?.name ?? id
+    );
+    lines.push(
+      "",
+      `${yellow(bold(claim.reason === "SPECIAL" ? texts.specialClaim : texts.match))} ${yellow(
+        "█".repeat(filled)
+      )}${dim("░".repeat(COUNTDOWN_WIDTH - filled))} ${(left / 1000).toFixed(1)}s`
+    );
+    if (names.length > 0) {
+      lines.push(`${texts.claimedBy}: ${names.join(", ")}`);
+    }
+    if (view.playerId && claim.claimers.includes(view.playerId)) {
+      lines.push(green(texts.youClaimed));
+    }
+  }
+
+  if (view.challenge) {
+    const sequence = view.challenge.labels
+      .map(({ label, pressed }) => (pressed ? green(label) : bold(label)))
+      .join(" ");
+    lines.push("", `${texts.gestures[view.challenge.type]}  ${sequence}`);
+  }
+
+  return lines;
+}
+
+function renderEnd(state: RoomState): string[] {
+  const game = state.game;
+  if (!game) return [];
+  const nameOf = (id?: string) => state.players.find((player) => player.id === id)?.name;
+  const winner = nameOf(game.winnerId);
+  const loser = nameOf(game.loserId);
+  return [
+    winner ? green(bold(`${texts.winner}: ${winner}`)) : "",
+    loser ? red(`${texts.loser}: ${loser}`) : "",
+  ].filter(Boolean);
+}
+
+function keyHelp(view: ScreenView): string {
+  if (view.challenge) return texts.keys.gesture;
+  switch (view.state?.phase) {
+    case "LOBBY":
+      return texts.keys.lobby;
+    case "IN_GAME":
+      return texts.keys.game;
+    case "ENDED":
+      return texts.keys.ended;
+    default:
+      return "q";
+  }
+}
+
+/**
+ * Builds the full screen for the current state
+ */
+export function renderScreen(view: ScreenView): string {
+  const { state } = view;
+  const lines = [
+    `${bold(texts.title)}  ${
+      state ? `${texts.room} ${bold(state.code)}  ` : ""
+    }${view.connected ? green(texts.connected) : red(texts.disconnected)}`,
+    "",
+  ];
+
+  if (!state) {
+    lines.push(`${texts.connecting} ${view.url}...`);
+  } else {
+    const seated = state.players.some((player) => player.id === view.playerId);
+    lines.push(
+      `${state.phase === "ENDED" ? texts.placements : texts.players} (${state.players.length}/${
+        state.settings.maxPlayers
+      })`,
+      ...renderPlayers(state, view.playerId),
+      ""
+    );
+    if (!seated) {
+      lines.push(dim(texts.spectating), "");
+    }
+    if (state.phase === "LOBBY" && state.players.length < 2) {
+      lines.push(dim(texts.waitingForPlayers));
+    }
+    if (state.phase === "IN_GAME") {
+      lines.push(...renderTable(state, view));
+    }
+    if (state.phase === "ENDED") {
+      lines.push(...renderEnd(state));
+    }
+  }
+
+  if (view.notice && view.now - view.notice.at < NOTICE_MS) {
+    lines.push("", yellow(view.notice.text));
+  }
+  lines.push("", dim(keyHelp(view)));
+
+  // Raw mode output: lines need an explicit carriage return, and each clears what the previous frame left
+  return lines.map((line) => `${line}\x1b[K`).join("\r\n") + "\x1b[J";
+}
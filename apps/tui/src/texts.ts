@@ -0,0 +1,100 @@
+import { ErrorCode, type ErrorPayload, type GestureType } from "@acme/shared";
+
+/**
+ * Texts of the terminal client (Spanish, like the web client's default language)
+ */
+export const texts = {
+  title: "TACO GATO CAPIBARA CHURRO DONUT",
+  room: "Sala",
+  connecting: "Conectando con",
+  connected: "conectado",
+  disconnected: "desconectado",
+  you: "tú",
+  host: "anfitrión",
+  bot: "bot",
+  ready: "listo",
+  notReady: "sin listo",
+  cards: "cartas",
+  players: "Jugadores",
+  spectating: "Estás mirando la partida",
+  waitingForPlayers: "Esperando jugadores...",
+  out: "FUERA",
+  pile: "montón",
+  table: "Mesa",
+  emptyPile: "(vacía)",
+  special: "ESPECIAL",
+  said: "dicho",
+  next: "siguiente",
+  match: "¡COINCIDENCIA!",
+  specialClaim: "¡CARTA ESPECIAL!",
+  claimedBy: "reclamaron",
+  youClaimed: "Ya reclamaste",
+  winner: "Gana",
+  loser: "Pierde",
+  placements: "Clasificación",
+  roomClosed: "La sala se cerró",
+  kicked: "El anfitrión te expulsó de la sala",
+  keys: {
+    lobby: "r listo · s empezar · b añadir bot · q salir",
+    game: "f voltear · espacio reclamar · q salir",
+    ended: "r revancha · q salir",
+    gesture: "esc cancelar",
+  },
+  gestures: {
+    CLICK_FRENZY: "Machaca ESPACIO",
+    BUBBLES: "Revienta las burbujas: escribe",
+    CIRCLE: "Dibuja el círculo con las flechas",
+  } satisfies Record<GestureType, string>,
+  errors: {
+    INVALID_PAYLOAD: "Petición no válida",
+    RATE_LIMITED: "Demasiadas acciones seguidas, espera",
+    ROOM_QUOTA_EXCEEDED: "Tienes demasiadas salas abiertas, cierra alguna primero",
+    BOTS_UNAVAILABLE: "Los bots no están disponibles ahora mismo",
+    ROOM_NOT_FOUND: "No existe la sala",
+    ROOM_FULL: "Sala llena",
+    ROOM_LOCKED: "El anfitrión bloqueó la sala",
+    WRONG_PASSWORD: "Contraseña incorrecta para la sala",
+    BANNED: "Te expulsaron hace poco de la sala",
+    SPECTATORS_FULL: "Demasiados espectadores en la sala",
+    ALREADY_IN_ROOM: "Ya estás en la sala",
+    SESSION_EXPIRED: "Tu sesión caducó, no puedes volver a la sala",
+    NOT_IN_ROOM: "No estás en ninguna sala",
+    NOT_A_SPECTATOR: "Solo los espectadores pueden sentarse",
+    NOT_HOST: "Solo el anfitrión puede hacer esto",
+    NOT_IN_LOBBY: "Solo se puede hacer en el lobby",
+    NO_FREE_SEATS: "No quedan asientos libres",
+    INVALID_SETTINGS: "Reglas no válidas",
+    MAX_PLAYERS_BELOW_SEATED: "El máximo de jugadores no puede ser menor que los sentados:",
+    INVALID_TARGET: "No puedes hacer esto con ese jugador",
+    NOT_ENOUGH_PLAYERS: "Jugadores mínimos para empezar:",
+    PLAYERS_NOT_READY: "Todos los jugadores deben estar listos",
+    GAME_ALREADY_STARTED: "La partida ya ha empezado",
+    GAME_NOT_ENDED: "La partida aún no ha terminado",
+    GAME_NOT_IN_PROGRESS: "No hay ninguna partida en curso",
+    NOT_PLAYING: "No estás jugando esta ronda",
+    NOT_YOUR_TURN: "No es tu turno",
+    CLAIM_IN_PROGRESS: "Espera a que se resuelva la coincidencia",
+    INVALID_GESTURE: "El gesto no es válido",
+  } satisfies Record<ErrorCode, string>,
+};
+
+/**
+ * Localised text for a server ERROR (same format as the web client)
+ */
+export function describeError({ code, params = {} }: ErrorPayload): string {
+  const text = texts.errors[code];
+  switch (code) {
+    case ErrorCode.RATE_LIMITED:
+      return `${text} ${Math.ceil(Number(params.retryAfterMs ?? 0) / 1000)}s`;
+    case ErrorCode.ROOM_FULL:
+      return `${text}: ${params.code} (${params.maxPlayers}/${params.maxPlayers})`;
+    case ErrorCode.NO_FREE_SEATS:
+      return `${text} (${params.maxPlayers}/${params.maxPlayers})`;
+    case ErrorCode.NOT_ENOUGH_PLAYERS:
+      return `${text} ${params.min}`;
+    case ErrorCode.MAX_PLAYERS_BELOW_SEATED:
+      return `${text} ${params.seated}`;
+    default:
+      return params.code !== undefined ? `${text}: ${params.code}` : text;
+  }
+}
@@ -0,0 +1,13 @@
+import { redirect } from "next/navigation";
+
+interface JoinPageProps {
+  params: { code: string };
+}
+
+/**
+ * Invite link (/join/ABCDE) - opens the home screen with the join form pre-filled
+ */
+export default function JoinPage({ params }: JoinPageProps) {
+  const code = params.code.toUpperCase().replace(/[^A-Z0-9]/g, "").slice(0, 5);
+  redirect(code ? `/?join=${code}` : "/");
+}
@@ -1,14 +1,29 @@
 "use client";
 
-import { useEffect, useState, useRef, useCallback, memo } from "react";
-import Image from "next/image";
+import { useEffect, useState, useRef, useCallback } from "react";
 import { io, Socket } from "socket.io-client";
 import {
   EVENTS,
+  ErrorCode,
   type RoomState,
+  type RoomSnapshot,
+  type RoomPatch,
+  applyRoomPatch,
   type ErrorPayload,
-  type Card,
-  CLAIM_WINDOW_MS,
+  type SessionPayload,
+  type RoomSpectatePayload,
+  type SettingsUpdatePayload,
+  type BotDifficulty,
+  type BotPersonality,
+  type GestureProof,
+  type ClockPingPayload,
+  type ChatMessage,
+  type ChatHistoryPayload,
+  type Emote,
+  type KickedPayload,
+  type RoomClosedPayload,
+  CHAT_HISTORY_SIZE,
+  ROOM_PASSWORD_MAX_LENGTH,
   CLICK_FRENZY_REQUIRED_CLICKS,
   CLICK_FRENZY_MIN_INTERVAL_MS,
   BUBBLES_COUNT,
@@ -20,6 +35,7 @@ import {
   CIRCLE_MAX_RADIUS_VAR,
   CIRCLE_TARGET_CENTER_TOL,
   CIRCLE_MIN_POINTS,
+  MAX_PLAYERS,
 } from "@acme/shared";
 import { motion, AnimatePresence, useReducedMotion } from "framer-motion";
 import { ClickFrenzyGesture } from "../components/ClickFrenzyGesture";
@@ -30,142 +46,39 @@ import { DeckStack } from "../components/DeckStack";
 import { PileCenter } from "../components/PileCenter";
 import { FlyingCardLayer } from "../components/FlyingCardLayer";
 import { ClickablePileArea } from "../components/ClickablePileArea";
+import { CardDisplay } from "../components/CardDisplay";
+import { ReplayViewer } from "../components/ReplayViewer";
+import { RoomSettingsPanel } from "../components/RoomSettingsPanel";
+import { LatencyBadge } from "../components/LatencyBadge";
+import { StatsScreen } from "../components/StatsScreen";
+import { GameSummaryPanel } from "../components/GameSummaryPanel";
+import { Podium } from "../components/Podium";
+import { LobbyBrowser } from "../components/LobbyBrowser";
+import { ChatPanel } from "../components/ChatPanel";
 import { WordTimeline } from "../components/WordTimeline";
 import { useAudio } from "../hooks/useAudio";
 import { useThrowRate } from "../hooks/useThrowRate";
 import { useTranslations } from "../hooks/useTranslations";
 import { preloadCriticalCardAssets } from "../lib/preloadAssets";
+import { loadSession, saveSession, clearSession } from "../lib/sessionManager";
+import { loadProfile, saveProfile, type GuestProfile } from "../lib/profileManager";
+import { LanguageManager } from "../lib/languageManager";
+import { getTranslations } from "../i18n/translations";
+import { describeError } from "../i18n/errors";
 
 const SOCKET_URL = process.env.NEXT_PUBLIC_SOCKET_URL || "http://localhost:3001";
-
-const CardDisplay = memo(function CardDisplay({ card }: { card: Card }) {
-  const bgColorMap: Record<string, string> = {
-    yellow: "#FFCC99",
-    orange: "#8FFFDA",
-    green: "#CC99FF",
-    blue: "#CCFF99",
-    red: "#FF99CC",
-  };
-
-  const bgColor = bgColorMap[card.visual.bgColor] || "#9CA3AF";
-  const [imageError, setImageError] = useState(false);
-
-  if (card.type === "SPECIAL" && card.visual.kind === "special") {
-    // Map SPECIAL_1 -> special_1.webp, SPECIAL_2 -> special_2.webp, etc.
-    const specialTypeToFileName: Record<"SPECIAL_1" | "SPECIAL_2" | "SPECIAL_3", string> = {
-      SPECIAL_1: "special_1",
-      SPECIAL_2: "special_2",
-      SPECIAL_3: "special_3",
-    };
-    // Map SPECIAL_1 -> "Frenzy click", SPECIAL_2 -> "¡Bubbles!", SPECIAL_3 -> "Circles"
-    const specialTypeToDisplayName: Record<"SPECIAL_1" | "SPECIAL_2" | "SPECIAL_3", string> = {
-      SPECIAL_1: "Frenzy click",
-      SPECIAL_2: "¡Bubbles!",
-      SPECIAL_3: "Circles",
-    };
-    const fileName = specialTypeToFileName[card.visual.specialType];
-    const displayName = specialTypeToDisplayName[card.visual.specialType];
-    const imagePath = `/assets/specials/${fileName}.webp`;
-
-    return (
-      <motion.div
-        layoutId={`card-${card.id}`}
-        initial={{ scale: 0.8, opacity: 0 }}
-        animate={{ scale: 1, opacity: 1 }}
-        exit={{ scale: 0.8, opacity: 0 }}
-        transition={{ duration: 0.3 }}
-        className="rounded-xl shadow-xl border-4 border-gray-300 dark:border-gray-600 w-56 h-72 mx-auto flex flex-col items-center justify-center p-4 relative overflow-hidden"
-        style={{ backgroundColor: bgColor }}
-      >
-        {!imageError && (
-          <div className="absolute inset-0 flex items-center justify-center">
-            <div className="relative w-full h-full">
-              <Image
-                src={imagePath}
-                alt={`Special card ${displayName}`}
-                fill
-                className="object-contain"
-                onError={() => setImageError(true)}
-                unoptimized
-              />
-            </div>
-          </div>
-        )}
-        {/* Fallback text if image fails to load */}
-        {imageError && (
-          <div className="absolute inset-0 flex items-center justify-center">
-            <div className="text-center">
-              <p className="text-2xl font-bold text-white mb-2">SPECIAL</p>
-              <p className="text-lg text-white/90">{displayName}</p>
-            </div>
-          </div>
-        )}
-        {/* Card label */}
-        <div className="absolute bottom-2 left-0 right-0 text-center">
-          <p className="text-sm font-semibold text-white/90 uppercase drop-shadow">
-            {displayName}
-          </p>
-        </div>
-      </motion.div>
-    );
-  }
-
-  // NORMAL card - visual.kind must be one of the normal kinds
-  if (card.visual.kind !== "special") {
-    const imagePath = `/assets/${card.visual.kind}/${card.visual.style}.webp`;
-
-    return (
-      <motion.div
-        layoutId={`card-${card.id}`}
-      initial={{ scale: 0.8, opacity: 0 }}
-      animate={{ scale: 1, opacity: 1 }}
-        exit={{ scale: 0.8, opacity: 0 }}
-      transition={{ duration: 0.3 }}
-      className="rounded-xl shadow-xl border-4 border-gray-300 dark:border-gray-600 w-56 h-72 mx-auto flex flex-col items-center justify-center p-4 relative overflow-hidden"
-      style={{ backgroundColor: bgColor }}
-    >
-      {!imageError && (
-        <div className="absolute inset-0 flex items-center justify-center">
-          <div className="relative w-full h-full">
-            <Image
-              src={imagePath}
-              alt={`${card.visual.kind} ${card.visual.style}`}
-              fill
-              className="object-contain"
-              onError={() => setImageError(true)}
-              unoptimized
-            />
-          </div>
-        </div>
-      )}
-      {/* Fallback text if image fails to load */}
-      {imageError && (
-        <div className="absolute inset-0 flex items-center justify-center">
-          <p className="text-3xl font-bold text-white uppercase drop-shadow-lg">
-            {card.visual.kind}
-          </p>
-        </div>
-      )}
-      {/* Card label */}
-      <div className="absolute bottom-2 left-0 right-0 text-center">
-        <p className="text-sm font-semibold text-white/90 uppercase drop-shadow">
-          {card.visual.kind}
-        </p>
-      </div>
-      </motion.div>
-    );
-  }
-
-  return null;
-});
+const EMOTE_FLOAT_MS = 2500; // How long an emote floats over the sender's seat
 
 export default function Home() {
   const [socket, setSocket] = useState<Socket | null>(null);
   const [connected, setConnected] = useState(false);
   const [warmingUp, setWarmingUp] = useState(false);
   const [playerName, setPlayerName] = useState("");
+  const [profile, setProfile] = useState<GuestProfile | null>(null);
   const [roomCode, setRoomCode] = useState("");
   const [joinCode, setJoinCode] = useState("");
+  const [joinPassword, setJoinPassword] = useState("");
+  const [createPassword, setCreatePassword] = useState(""); // Optional password for a new room
   const [roomState, setRoomState] = useState<RoomState | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [socketId, setSocketId] = useState<string | null>(null);
@@ -173,9 +86,23 @@ export default function Home() {
   const [isAttemptingClaim, setIsAttemptingClaim] = useState(false);
   const [currentClaimId, setCurrentClaimId] = useState<string | null>(null);
   const [isPreloadingCards, setIsPreloadingCards] = useState(false);
+  const [seedInput, setSeedInput] = useState(""); // Optional seed the host can set to replay a deal
+  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
+  const [floatingEmotes, setFloatingEmotes] = useState<ChatMessage[]>([]); // Emotes currently floating over seats
+  const [botDifficulty, setBotDifficulty] = useState<BotDifficulty>("normal");
+  const [botPersonality, setBotPersonality] = useState<BotPersonality>("balanced");
+  const [botCount, setBotCount] = useState(1); // Number of bots in solo mode
   
   // Track if we've already preloaded to avoid duplicate work
   const didPreloadRef = useRef(false);
+
+  // True while a ROOM_REJOIN (or a spectator's ROOM_SPECTATE) is in flight after a reconnect
+  // (an ERROR means the held seat or the room is gone)
+  const rejoinPendingRef = useRef(false);
+  // Room we are watching, asked again after a reconnect (spectators hold no seat to rejoin)
+  const spectateRef = useRef<RoomSpectatePayload | null>(null);
+  // Version of the room state we hold; patches must follow it without gaps
+  const roomSeqRef = useRef<{ code: string; seq: number } | null>(null);
   
   // Reduced motion preference (at component level)
   const shouldReduceMotion = useReducedMotion();
@@ -249,9 +176,24 @@ export default function Home() {
         setWarmingUp(false);
         setSocketId(newSocket.id || null);
         setError(null);
+
+        // Reclaim our seat if we were in a room before the socket dropped (or the page reloaded)
+        const session = loadSession();
+        if (session) {
+          rejoinPendingRef.current = true;
+          newSocket.emit(EVENTS.ROOM_REJOIN, {
+            code: session.code,
+            sessionToken: session.sessionToken,
+          });
+        } else if (spectateRef.current) {
+          // The server dropped us as a spectator on disconnect: watch again for a fresh snapshot
+          rejoinPendingRef.current = true;
+          newSocket.emit(EVENTS.ROOM_SPECTATE, spectateRef.current);
+        }
       });
 
       newSocket.on("disconnect", () => {
+        roomSeqRef.current = null;
         setConnected(false);
         setWarmingUp(false);
         setSocketId(null);
@@ -263,15 +205,89 @@ export default function Home() {
         }
       });
 
-      newSocket.on(EVENTS.ROOM_STATE, (data: RoomState) => {
-        setRoomState(data);
-        setRoomCode(data.code);
+      // Full state, sent when we join a room or ask for a resync
+      newSocket.on(EVENTS.ROOM_STATE, ({ seq, ...state }: RoomSnapshot) => {
+        rejoinPendingRef.current = false;
+        roomSeqRef.current = { code: state.code, seq };
+        setRoomState(state);
+        setRoomCode(state.code);
         setError(null);
       });
 
+      // Changes since the previous version
+      newSocket.on(EVENTS.ROOM_PATCH, (patch: RoomPatch) => {
+        const version = roomSeqRef.current;
+        // No snapshot yet (one follows every join) or an old patch
+        if (!version || version.code !== patch.code || patch.seq <= version.seq) {
+          return;
+        }
+        // Missed a patch - drop everything until a fresh snapshot arrives
+        if (patch.seq > version.seq + 1) {
+          roomSeqRef.current = null;
+          newSocket.emit(EVENTS.ROOM_RESYNC, {});
+          return;
+        }
+        roomSeqRef.current = { code: patch.code, seq: patch.seq };
+        setRoomState((state) => (state ? applyRoomPatch(state, patch) : state));
+        setError(null);
+      });
+
+      newSocket.on(EVENTS.SESSION, (data: SessionPayload) => {
+        spectateRef.current = null; // Seated now, the session takes over
+        saveSession(data);
+      });
+
+      // Kicked by the host - the seat is gone, go back to the home screen
+      newSocket.on(EVENTS.KICKED, (data: KickedPayload) => {
+        spectateRef.current = null;
+        clearSession();
+        setRoomState(null);
+        setRoomCode("");
+        setChatMessages([]);
+        setError(`${getTranslations(LanguageManager.getLanguage()).moderation.kicked} ${data.code}`);
+      });
+
+      // The server closed an idle room - back to the home screen
+      newSocket.on(EVENTS.ROOM_CLOSED, (data: RoomClosedPayload) => {
+        spectateRef.current = null;
+        clearSession();
+        setRoomState(null);
+        setRoomCode("");
+        setChatMessages([]);
+        setError(`${getTranslations(LanguageManager.getLanguage()).room.closedIdle} ${data.code}`);
+      });
+
+      // Chat: the room's recent history on join, then each new message
+      newSocket.on(EVENTS.CHAT_HISTORY, (data: ChatHistoryPayload) => {
+        setChatMessages(data.messages);
+      });
+
+      newSocket.on(EVENTS.CHAT_MESSAGE, (message: ChatMessage) => {
+        setChatMessages((messages) => [...messages, message].slice(-CHAT_HISTORY_SIZE));
+        if (message.emote) {
+          setFloatingEmotes((emotes) => [...emotes, message]);
+          setTimeout(() => {
+            setFloatingEmotes((emotes) => emotes.filter((e) => e.id !== message.id));
+          }, EMOTE_FLOAT_MS);
+        }
+      });
+
+      // Clock sync: echo the ping with our clock so the server can order claims by reaction time
+      newSocket.on(EVENTS.CLOCK_PING, (data: ClockPingPayload) => {
+        newSocket.emit(EVENTS.CLOCK_PONG, { serverTime: data.serverTime, clientTime: Date.now() });
+      });
+
       newSocket.on(EVENTS.ERROR, (data: ErrorPayload) => {
-        setError(data.message);
-        console.error("Error:", data.message);
+        // Rejoin was rejected - the seat is gone, go back to the home screen
+        if (rejoinPendingRef.current && data.code !== ErrorCode.RATE_LIMITED) {
+          rejoinPendingRef.current = false;
+          spectateRef.current = null;
+          clearSession();
+          setRoomState(null);
+          setRoomCode("");
+        }
+        setError(describeError(getTranslations(LanguageManager.getLanguage()), data));
+        console.error("Error:", data.code, data.params);
       });
 
       setSocket(newSocket);
@@ -297,12 +313,42 @@ export default function Home() {
     return () => clearInterval(interval);
   }, []);
 
+  // Invite links (/join/ABCDE) land here with ?join=ABCDE: pre-fill the join form
+  useEffect(() => {
+    const invitedCode = new URLSearchParams(window.location.search).get("join");
+    if (invitedCode) {
+      setJoinCode(invitedCode.toUpperCase().slice(0, 5));
+      window.history.replaceState(null, "", window.location.pathname);
+    }
+  }, []);
+
+  // Load (or create) this browser's guest profile; a claimed nickname prefills the name
+  useEffect(() => {
+    const loaded = loadProfile();
+    setProfile(loaded);
+    if (loaded?.nickname) {
+      setPlayerName((name) => name || loaded.nickname!);
+    }
+  }, []);
+
+  const handleNicknameClaimed = (nickname: string, profileSecret?: string) => {
+    if (!profile) return;
+    const updated = { ...profile, nickname, profileSecret };
+    saveProfile(updated);
+    setProfile(updated);
+    setPlayerName(nickname);
+  };
+
   const handleCreateRoom = () => {
     if (!socket || !playerName.trim()) {
       setError(t.player.pleaseEnterName);
       return;
     }
-    socket.emit(EVENTS.ROOM_CREATE, { name: playerName.trim() });
+    socket.emit(EVENTS.ROOM_CREATE, {
+      name: playerName.trim(),
+      profileId: profile?.guestId,
+      password: createPassword || undefined,
+    });
   };
 
   const handleCreateSoloRoom = () => {
@@ -310,7 +356,29 @@ export default function Home() {
       setError(t.player.pleaseEnterName);
       return;
     }
-    socket.emit(EVENTS.ROOM_CREATE_SOLO, { name: playerName.trim() });
+    socket.emit(EVENTS.ROOM_CREATE_SOLO, {
+      name: playerName.trim(),
+      difficulty: botDifficulty,
+      personality: botPersonality,
+      botCount,
+      profileId: profile?.guestId,
+    });
+  };
+
+  const handleQuickMatch = () => {
+    if (!socket || !playerName.trim()) {
+      setError(t.player.pleaseEnterName);
+      return;
+    }
+    socket.emit(EVENTS.QUICK_MATCH, { name: playerName.trim(), profileId: profile?.guestId });
+  };
+
+  const handleJoinPublicRoom = (code: string) => {
+    if (!socket || !playerName.trim()) {
+      setError(t.player.pleaseEnterName);
+      return;
+    }
+    socket.emit(EVENTS.ROOM_JOIN, { code, name: playerName.trim(), profileId: profile?.guestId });
   };
 
   const handleJoinRoom = () => {
@@ -321,20 +389,55 @@ export default function Home() {
     socket.emit(EVENTS.ROOM_JOIN, {
       code: joinCode.trim().toUpperCase(),
       name: playerName.trim(),
+      profileId: profile?.guestId,
+      password: joinPassword || undefined,
     });
   };
 
+  const handleSpectateRoom = () => {
+    if (!socket || !playerName.trim() || !joinCode.trim()) {
+      setError(t.player.pleaseEnterNameAndRoomCode);
+      return;
+    }
+    const payload: RoomSpectatePayload = {
+      code: joinCode.trim().toUpperCase(),
+      name: playerName.trim(),
+      profileId: profile?.guestId,
+      password: joinPassword || undefined,
+    };
+    spectateRef.current = payload;
+    socket.emit(EVENTS.ROOM_SPECTATE, payload);
+  };
+
+  const handleTakeSeat = () => {
+    if (!socket || !roomState) return;
+    socket.emit(EVENTS.TAKE_SEAT, {});
+  };
+
   const handleLeaveRoom = () => {
     if (!socket) return;
     socket.emit(EVENTS.ROOM_LEAVE);
+    spectateRef.current = null;
+    clearSession();
     setRoomState(null);
     setRoomCode("");
+    setChatMessages([]);
   };
 
-  const handleCopyRoomCode = async () => {
+  const handleSendChat = (text: string) => {
+    if (!socket) return;
+    socket.emit(EVENTS.CHAT_SEND, { text });
+  };
+
+  const handleSendEmote = (emote: Emote) => {
+    if (!socket) return;
+    socket.emit(EVENTS.CHAT_SEND, { emote });
+  };
+
+  const handleCopyInviteLink = async () => {
     if (!roomState?.code) return;
     try {
-      await navigator.clipboard.writeText(roomState.code);
+      await navigator.clipboard.writeText(`${window.location.origin}/join/${roomState.code}`);
       // Show toast notification
       const toastKey = Date.now();
       setCopyToast({ key: toastKey });
@@ -344,7 +447,7 @@ export default function Home() {
         setCopyToast((prev) => prev?.key === toastKey ? null : prev);
       }, 2000);
     } catch (error) {
-      console.error('Failed to copy room code:', error);
+      console.error('Failed to copy invite link:', error);
     }
   };
 
@@ -355,7 +458,38 @@ export default function Home() {
 
   const handleStartGame = () => {
     if (!socket || !roomState) return;
-    socket.emit(EVENTS.START_GAME, {});
+    const seed = seedInput.trim() ? Number(seedInput.trim()) : undefined;
+    socket.emit(EVENTS.START_GAME, seed !== undefined && Number.isInteger(seed) ? { seed } : {});
+  };
+
+  const handleAddBot = () => {
+    if (!socket || !roomState) return;
+    socket.emit(EVENTS.ADD_BOT, { difficulty: botDifficulty, personality: botPersonality });
+  };
+
+  const handleRemoveBot = (botId: string) => {
+    if (!socket || !roomState) return;
+    socket.emit(EVENTS.REMOVE_BOT, { botId });
+  };
+
+  const handleKickPlayer = (playerId: string) => {
+    if (!socket || !roomState) return;
+    socket.emit(EVENTS.KICK_PLAYER, { playerId });
+  };
+
+  const handleTransferHost = (playerId: string) => {
+    if (!socket || !roomState) return;
+    socket.emit(EVENTS.TRANSFER_HOST, { playerId });
+  };
+
+  const handleToggleLock = () => {
+    if (!socket || !roomState) return;
+    socket.emit(EVENTS.LOCK_ROOM, { locked: !roomState.locked });
+  };
+
+  const handleSettingsChange = (update: SettingsUpdatePayload) => {
+    if (!socket || !roomState) return;
+    socket.emit(EVENTS.SETTINGS_UPDATE, update);
   };
 
   const handleFlipCard = () => {
@@ -374,10 +508,11 @@ export default function Home() {
     }, 800);
   }, []);
 
-  const handleClaim = (claimId?: string) => {
+  const handleClaim = (claimId?: string, proof?: GestureProof) => {
     if (!socket || !roomState) return;
-    // Send CLAIM_ATTEMPT with optional claimId
-    socket.emit(EVENTS.CLAIM_ATTEMPT, claimId ? { claimId } : {});
+    // Send CLAIM_ATTEMPT with optional claimId (and the gesture proof for SPECIAL windows)
+    // reactedAt lets the server compensate for our latency when ordering claimers
+    socket.emit(EVENTS.CLAIM_ATTEMPT, claimId ? { claimId, proof, reactedAt: Date.now() } : {});
   };
 
   // Reset claim attempt state when claim changes
@@ -408,6 +543,9 @@ export default function Home() {
   const handlePileClick = (e: React.MouseEvent) => {
     if (!socket || !roomState || !roomState.game) return;
 
+    // Spectators only watch
+    if (!socketId || !(socketId in roomState.game.playerStatuses)) return;
+
     // Check if player can participate (not OUT)
     const myStatus =
       socketId && roomState.game.playerStatuses
@@ -467,9 +605,9 @@ export default function Home() {
   };
 
   // Handle gesture completion
-  const handleGestureComplete = () => {
+  const handleGestureComplete = (proof: GestureProof) => {
     if (!roomState?.game?.claim) return;
-    handleClaim(roomState.game.claim.id);
+    handleClaim(roomState.game.claim.id, proof);
     setIsAttemptingClaim(false);
     // Reset gesture tracking when gesture completes successfully
     gestureAttemptStartedAtRef.current = null;
@@ -531,6 +669,8 @@ export default function Home() {
   
   // Track rematch state
   const [isRematching, setIsRematching] = useState(false);
+  const [isReplayOpen, setIsReplayOpen] = useState(false);
+  const [isStatsOpen, setIsStatsOpen] = useState(false);
 
   // Track last local flip's flying card ID to know when to play card_throw sound
   const lastLocalFlipCardIdRef = useRef<string | null>(null);
@@ -661,7 +801,7 @@ export default function Home() {
       if (slapIntentAt !== null) {
         const timeSinceSlap = Date.now() - slapIntentAt;
         // Check within the 1500ms window for direct slaps
-        if (timeSinceSlap < CLAIM_WINDOW_MS) {
+        if (timeSinceSlap < roomState.settings.claimWindowMs) {
           shouldShowOops = true;
           // For false slaps, use actual cards received (more accurate than snapshot)
           cardCount = actualCardsReceived;
@@ -813,7 +953,7 @@ export default function Home() {
     // Update hand/pile counts for next comparison cycle
     prevMyHandCountRef.current = myHandCount;
     prevPileCountRef.current = pileCount;
-  }, [roomState?.game, socketId, slapIntentAt, isAttemptingClaim, playSfx]);
+  }, [roomState?.game, roomState?.settings.claimWindowMs, socketId, slapIntentAt, isAttemptingClaim, playSfx]);
 
   // Clear slap intent after 2000ms if not consumed (increased to account for claim resolution time)
   useEffect(() => {
@@ -973,20 +1113,13 @@ export default function Home() {
 
   useEffect(() => {
     if (roomState?.phase === "ENDED" && prevPhaseRef.current === "IN_GAME") {
-      // Game just ended
-      if (socketId && roomState.game) {
-        const myHandCount = roomState.game.handCounts[socketId] ?? 0;
-        const myStatus = roomState.game.playerStatuses?.[socketId] || "ACTIVE";
-        
-        // Player won if they have 0 cards (regardless of status)
-        if (myHandCount === 0) {
-          // Player won! Play victory sound
-          // (This covers both cases: direct win and final claim completion)
-          playSfx('game_win');
-        } else {
-          // Player lost if they have cards (didn't win)
-          // This covers all cases: OUT with cards, ACTIVE with cards, etc.
+      // Game just ended (spectators have no result to play)
+      if (socketId && roomState.game && socketId in roomState.game.handCounts) {
+        // Only the player left holding cards loses, everyone else got out
+        if (roomState.game.loserId === socketId) {
           playSfx('game_lose');
+        } else {
+          playSfx('game_win');
         }
       }
     }
@@ -995,11 +1128,16 @@ export default function Home() {
 
   // Check if current player is host
   const isHost = roomState && socketId && roomState.hostId === socketId;
+
+  // Check if current socket is watching rather than playing
+  const isSpectator = !!(roomState && socketId && roomState.spectators.some((s) => s.id === socketId));
+  const canTakeSeat = isSpectator && !!roomState && roomState.players.length < roomState.settings.maxPlayers;
   
-  // Reset rematch state when phase changes
+  // Reset rematch and replay state when phase changes
   useEffect(() => {
     if (roomState?.phase !== "ENDED") {
       setIsRematching(false);
+      setIsReplayOpen(false);
     }
   }, [roomState?.phase]);
 
@@ -1009,6 +1147,16 @@ export default function Home() {
       ? roomState.players.find((p) => p.id === socketId)
       : null;
 
+  // Room chat, shown in the lobby, during the game and on the end screen
+  const chatPanel = (
+    <ChatPanel
+      messages={chatMessages}
+      myId={socketId}
+      onSendText={handleSendChat}
+      onSendEmote={handleSendEmote}
+    />
+  );
+
   // Check if can start game
   const canStartGame =
     isHost &&
@@ -1218,9 +1366,9 @@ export default function Home() {
                     {t.room.roomCode}:
                   </span>
                   <button
-                    onClick={handleCopyRoomCode}
+                    onClick={handleCopyInviteLink}
                     className="text-2xl font-bold font-mono flex items-center gap-2 text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200 transition-colors cursor-pointer group px-2 py-1 -mx-2 -my-1 rounded"
-                    title="Click para copiar"
+                    title={t.room.copyInviteLink}
                   >
                     <span className="transition-transform group-hover:scale-110">📋</span>
                     <span>{roomState.code}</span>
@@ -1228,6 +1376,16 @@ export default function Home() {
                   <span className="text-xs px-2 py-1 bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200 rounded-full font-medium">
                     {roomState.phase === 'LOBBY' ? t.game.phase.lobby : roomState.phase === 'IN_GAME' ? t.game.phase.inGame : t.game.phase.ended}
                   </span>
+                  {roomState.hasPassword && (
+                    <span className="text-xs px-2 py-1 bg-gray-200 dark:bg-gray-600 text-gray-800 dark:text-gray-200 rounded-full font-medium" title={t.room.passwordProtected}>
+                      🔑
+                    </span>
+                  )}
+                  {roomState.locked && (
+                    <span className="text-xs px-2 py-1 bg-gray-200 dark:bg-gray-600 text-gray-800 dark:text-gray-200 rounded-full font-medium" title={t.moderation.lockedHint}>
+                      🔒 {t.moderation.locked}
+                    </span>
+                  )}
                 </div>
                 
                 {/* Copy toast notification */}
@@ -1242,7 +1400,7 @@ export default function Home() {
                       transition={{ duration: 0.2 }}
                     >
                       <div className="px-4 py-2 rounded-lg text-sm font-medium shadow-lg whitespace-nowrap" style={{ backgroundColor: '#CCFF99', color: '#1a1a1a' }}>
-                        {t.room.codeCopied}
+                        {t.room.inviteLinkCopied}
                       </div>
                     </motion.div>
                   )}
@@ -1263,6 +1421,21 @@ export default function Home() {
           {/* Create Room */}
           {!roomState && (
             <div className="mb-4 space-y-3">
+              <button
+                onClick={handleQuickMatch}
+                disabled={!connected || !playerName.trim()}
+                className="w-full px-4 py-3 bg-yellow-400 text-gray-900 rounded-lg font-semibold hover:bg-yellow-500 disabled:bg-gray-400 disabled:text-white disabled:cursor-not-allowed transition-colors"
+              >
+                {t.lobbies.quickMatch}
+              </button>
+              <input
+                type="password"
+                value={createPassword}
+                onChange={(e) => setCreatePassword(e.target.value.slice(0, ROOM_PASSWORD_MAX_LENGTH))}
+                placeholder={t.room.passwordPlaceholder}
+                aria-label={t.room.passwordPlaceholder}
+                className="w-full px-4 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+              />
               <button
                 onClick={handleCreateRoom}
                 disabled={!connected || !playerName.trim()}
@@ -1290,6 +1463,48 @@ export default function Home() {
               >
                 {t.room.playSolo}
               </button>
+              {/* Solo bot options */}
+              <div className="grid grid-cols-3 gap-2">
+                <select
+                  value={botCount}
+                  onChange={(e) => setBotCount(Number(e.target.value))}
+                  aria-label={t.bots.count}
+                  title={t.bots.count}
+                  className="px-3 py-2 text-sm border border-gray-300 rounded-lg dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                >
+                  {Array.from({ length: MAX_PLAYERS - 1 }, (_, i) => i + 1).map((count) => (
+                    <option key={count} value={count}>
+                      🤖 × {count}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  value={botDifficulty}
+                  onChange={(e) => setBotDifficulty(e.target.value as BotDifficulty)}
+                  aria-label={t.bots.difficulty}
+                  title={t.bots.difficulty}
+                  className="px-3 py-2 text-sm border border-gray-300 rounded-lg dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                >
+                  {(Object.keys(t.bots.difficulties) as BotDifficulty[]).map((difficulty) => (
+                    <option key={difficulty} value={difficulty}>
+                      {t.bots.difficulties[difficulty]}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  value={botPersonality}
+                  onChange={(e) => setBotPersonality(e.target.value as BotPersonality)}
+                  aria-label={t.bots.personality}
+                  title={t.bots.personality}
+                  className="px-3 py-2 text-sm border border-gray-300 rounded-lg dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                >
+                  {(Object.keys(t.bots.personalities) as BotPersonality[]).map((personality) => (
+                    <option key={personality} value={personality}>
+                      {t.bots.personalities[personality]}
+                    </option>
+                  ))}
+                </select>
+              </div>
             </div>
           )}
 
@@ -1314,6 +1529,14 @@ export default function Home() {
                   maxLength={5}
                   className="w-full md:flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent dark:bg-gray-700 dark:border-gray-600 dark:text-white font-mono uppercase"
                 />
+                <input
+                  type="password"
+                  value={joinPassword}
+                  onChange={(e) => setJoinPassword(e.target.value.slice(0, ROOM_PASSWORD_MAX_LENGTH))}
+                  placeholder={t.room.passwordPlaceholder}
+                  aria-label={t.room.passwordPlaceholder}
+                  className="w-full md:flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                />
                 <button
                   onClick={handleJoinRoom}
                   disabled={!connected || !playerName.trim() || !joinCode.trim()}
@@ -1332,10 +1555,35 @@ export default function Home() {
                 >
                   {t.room.join}
                 </button>
+                <button
+                  onClick={handleSpectateRoom}
+                  disabled={!connected || !playerName.trim() || !joinCode.trim()}
+                  className="w-full md:w-auto px-4 py-3 md:py-2 md:px-6 rounded-lg font-medium bg-gray-200 text-gray-800 hover:bg-gray-300 dark:bg-gray-600 dark:text-white dark:hover:bg-gray-500 disabled:bg-gray-400 disabled:text-white disabled:cursor-not-allowed transition-colors"
+                  title={t.room.spectateHint}
+                >
+                  👁️ {t.room.spectate}
+                </button>
               </div>
             </div>
           )}
 
+          {/* Public lobbies */}
+          {!roomState && socket && connected && (
+            <LobbyBrowser socket={socket} canJoin={!!playerName.trim()} onJoin={handleJoinPublicRoom} />
+          )}
+
+          {/* Stats of this browser's guest profile */}
+          {!roomState && profile && (
+            <div className="mb-6 text-center">
+              <button
+                onClick={() => setIsStatsOpen(true)}
+                className="px-4 py-2 text-sm rounded-lg font-medium bg-gray-200 text-gray-800 hover:bg-gray-300 dark:bg-gray-600 dark:text-white dark:hover:bg-gray-500 transition-colors"
+              >
+                📊 {t.stats.myStats}
+              </button>
+            </div>
+          )}
+
           {/* Lobby UI */}
           {roomState && roomState.phase === "LOBBY" && (
             <motion.div
@@ -1361,14 +1609,20 @@ export default function Home() {
                     >
                       <div className="flex items-center gap-2">
                         <span className="text-gray-900 dark:text-white font-medium">
+                          {player.avatar && <span className="mr-1">{player.avatar}</span>}
                           {player.name}
                         </span>
                         {player.isBot && (
                           <span
                             className="text-xs px-2 py-0.5 bg-purple-100 dark:bg-purple-900 text-purple-800 dark:text-purple-200 rounded-full font-medium"
-                            title={t.players.bot}
+                            title={
+                              player.bot
+                                ? `${t.bots.difficulties[player.bot.difficulty]} · ${t.bots.personalities[player.bot.personality]}`
+                                : t.players.bot
+                            }
                           >
                             🤖 {t.players.bot}
+                            {player.bot && ` · ${t.bots.difficulties[player.bot.difficulty]}`}
                           </span>
                         )}
                         {isPlayerHost && (
@@ -1379,6 +1633,14 @@ export default function Home() {
                             👑 {t.players.host}
                           </span>
                         )}
+                        {player.reconnecting && (
+                          <span
+                            className="text-xs px-2 py-0.5 bg-orange-100 dark:bg-orange-900 text-orange-800 dark:text-orange-200 rounded-full font-medium animate-pulse"
+                            title={t.players.reconnecting}
+                          >
+                            📶 {t.players.reconnecting}
+                          </span>
+                        )}
                         {player.ready && (
                           <span
                             className="text-xs px-2 py-0.5 dark:bg-green-900 dark:text-green-200 rounded-full font-medium"
@@ -1397,14 +1659,127 @@ export default function Home() {
                           </span>
                         )}
                       </div>
-                      <span className="text-xs text-gray-500 dark:text-gray-400">
-                        {new Date(player.joinedAt).toLocaleTimeString()}
-                      </span>
+                      <div className="flex items-center gap-2">
+                        <span className="text-xs text-gray-500 dark:text-gray-400">
+                          {new Date(player.joinedAt).toLocaleTimeString()}
+                        </span>
+                        {isHost && player.isBot && (
+                          <button
+                            onClick={() => handleRemoveBot(player.id)}
+                            className="text-xs px-2 py-0.5 text-red-600 hover:bg-red-100 dark:text-red-300 dark:hover:bg-red-900 rounded-full"
+                            title={t.bots.removeBot}
+                            aria-label={t.bots.removeBot}
+                          >
+                            ✕
+                          </button>
+                        )}
+                        {isHost && !player.isBot && !isCurrentPlayer && (
+                          <>
+                            <button
+                              onClick={() => handleTransferHost(player.id)}
+                              className="text-xs px-2 py-0.5 hover:bg-yellow-100 dark:hover:bg-yellow-900 rounded-full"
+                              title={t.moderation.makeHost}
+                              aria-label={t.moderation.makeHost}
+                            >
+                              👑
+                            </button>
+                            <button
+                              onClick={() => handleKickPlayer(player.id)}
+                              className="text-xs px-2 py-0.5 text-red-600 hover:bg-red-100 dark:text-red-300 dark:hover:bg-red-900 rounded-full"
+                              title={t.moderation.kick}
+                              aria-label={t.moderation.kick}
+                            >
+                              👢
+                            </button>
+                          </>
+                        )}
+                      </div>
                     </motion.div>
                   );
                 })}
               </div>
 
+              {/* Spectators */}
+              {roomState.spectators.length > 0 && (
+                <div className="mb-6">
+                  <h3 className="text-sm font-semibold mb-2 text-gray-700 dark:text-gray-300">
+                    👁️ {t.players.spectators} ({roomState.spectators.length})
+                  </h3>
+                  <div className="flex flex-wrap gap-2">
+                    {roomState.spectators.map((spectator) => (
+                      <span
+                        key={spectator.id}
+                        className={`text-xs px-2 py-1 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-full ${
+                          spectator.id === socketId ? "ring-2 ring-indigo-500" : ""
+                        }`}
+                      >
+                        {spectator.name}
+                        {isHost && (
+                          <button
+                            onClick={() => handleKickPlayer(spectator.id)}
+                            className="ml-1 text-red-600 hover:text-red-700 dark:text-red-300"
+                            title={t.moderation.kick}
+                            aria-label={t.moderation.kick}
+                          >
+                            ✕
+                          </button>
+                        )}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {/* Add Bot (host only) */}
+              {isHost && roomState.players.length < roomState.settings.maxPlayers && (
+                <div className="mb-6 grid grid-cols-3 gap-2">
+                  <select
+                    value={botDifficulty}
+                    onChange={(e) => setBotDifficulty(e.target.value as BotDifficulty)}
+                    aria-label={t.bots.difficulty}
+                    title={t.bots.difficulty}
+                    className="px-2 py-2 text-sm border border-gray-300 rounded-lg dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                  >
+                    {(Object.keys(t.bots.difficulties) as BotDifficulty[]).map((difficulty) => (
+                      <option key={difficulty} value={difficulty}>
+                        {t.bots.difficulties[difficulty]}
+                      </option>
+                    ))}
+                  </select>
+                  <select
+                    value={botPersonality}
+                    onChange={(e) => setBotPersonality(e.target.value as BotPersonality)}
+                    aria-label={t.bots.personality}
+                    title={t.bots.personality}
+                    className="px-2 py-2 text-sm border border-gray-300 rounded-lg dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                  >
+                    {(Object.keys(t.bots.personalities) as BotPersonality[]).map((personality) => (
+                      <option key={personality} value={personality}>
+                        {t.bots.personalities[personality]}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={handleAddBot}
+                    className="px-3 py-2 bg-purple-100 hover:bg-purple-200 dark:bg-purple-900 dark:hover:bg-purple-800 text-purple-800 dark:text-purple-200 rounded-lg text-sm font-medium transition-colors"
+                  >
+                    🤖 {t.bots.addBot}
+                  </button>
+                </div>
+              )}
+
+              {/* Take Seat Button (spectators only) */}
+              {canTakeSeat && (
+                <div className="mb-4">
+                  <button
+                    onClick={handleTakeSeat}
+                    className="w-full px-4 py-3 bg-indigo-600 text-white rounded-lg font-medium hover:bg-indigo-700 transition-colors"
+                  >
+                    🪑 {t.room.takeSeat}
+                  </button>
+                </div>
+              )}
+
               {/* Ready Toggle Button */}
               {currentPlayer && !currentPlayer.isBot && (
                 <div className="mb-4">
@@ -1432,6 +1807,34 @@ export default function Home() {
                 </div>
               )}
 
+              {/* Quick-match countdown */}
+              {roomState.autoStartAt !== undefined && (
+                <p className="mb-4 p-3 text-center text-sm font-medium bg-yellow-50 dark:bg-yellow-900/20 text-yellow-800 dark:text-yellow-200 rounded-lg">
+                  ⏱️ {t.lobbies.autoStartIn} {Math.max(0, Math.ceil((roomState.autoStartAt - currentTime) / 1000))}s
+                </p>
+              )}
+
+              {/* Lock the room (host only) */}
+              {isHost && (
+                <div className="mb-4">
+                  <button
+                    onClick={handleToggleLock}
+                    className="w-full px-4 py-2 text-sm rounded-lg font-medium bg-gray-200 text-gray-800 hover:bg-gray-300 dark:bg-gray-600 dark:text-white dark:hover:bg-gray-500 transition-colors"
+                    title={t.moderation.lockedHint}
+                  >
+                    {roomState.locked ? `🔓 ${t.moderation.unlockRoom}` : `🔒 ${t.moderation.lockRoom}`}
+                  </button>
+                </div>
+              )}
+
+              {/* House rules (editable by the host) */}
+              <RoomSettingsPanel
+                settings={roomState.settings}
+                editable={!!isHost}
+                playerCount={roomState.players.length}
+                onChange={handleSettingsChange}
+              />
+
               {/* Start Game Button (Host only) */}
               {isHost && (
                 <div className="mb-4">
@@ -1460,8 +1863,18 @@ export default function Home() {
                       {getStartGameMessage()}
                     </p>
                   )}
+                  <input
+                    type="text"
+                    inputMode="numeric"
+                    value={seedInput}
+                    onChange={(e) => setSeedInput(e.target.value.replace(/[^0-9]/g, "").slice(0, 10))}
+                    placeholder={t.game.seedPlaceholder}
+                    className="mt-2 w-full px-3 py-1.5 text-xs border border-gray-200 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent dark:bg-gray-700 dark:border-gray-600 dark:text-white font-mono"
+                  />
                 </div>
               )}
+
+              {chatPanel}
             </motion.div>
           )}
 
@@ -1623,7 +2036,16 @@ export default function Home() {
                 />
 
                 {/* Deck Stack - My Deck */}
-                {socketId && roomState.game.handCounts && (() => {
+                {/* Spectator banner */}
+                {isSpectator && (
+                  <div className="mb-4 p-3 bg-gray-50 dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
+                    <p className="text-sm font-semibold text-gray-700 dark:text-gray-300 text-center">
+                      👁️ {t.players.spectating}
+                    </p>
+                  </div>
+                )}
+
+                {socketId && roomState.game.handCounts && socketId in roomState.game.handCounts && (() => {
                   const myHandCount = roomState.game.handCounts[socketId] || 0;
                   const isMyTurn = roomState.game.turnPlayerId === socketId;
                   const claimActive = !!roomState.game.claim;
@@ -1839,7 +2261,7 @@ export default function Home() {
                   })()}
 
                 {/* Player Status Indicator */}
-                {socketId && roomState.game.playerStatuses && (
+                {socketId && roomState.game.playerStatuses && socketId in roomState.game.playerStatuses && (
                   <div className="mb-4">
                     {(() => {
                       const myStatus = roomState.game.playerStatuses[socketId] || "ACTIVE";
@@ -1923,15 +2345,33 @@ export default function Home() {
                                 }
                               : {}
                           }
-                          className={`flex items-center justify-between p-3 rounded-lg ${
+                          className={`relative flex items-center justify-between p-3 rounded-lg ${
                             isCurrentTurn
                               ? "bg-green-100 dark:bg-green-900/30 border-2"
                               : "bg-gray-50 dark:bg-gray-700"
                           }`}
                           style={isCurrentTurn ? { borderColor: '#CCFF99' } : {}}
                         >
+                          {/* Emotes float up from the sender's seat */}
+                          <AnimatePresence>
+                            {floatingEmotes
+                              .filter((emote) => emote.senderId === player.id)
+                              .map((emote) => (
+                                <motion.span
+                                  key={emote.id}
+                                  initial={{ opacity: 0, y: 0, scale: 0.6 }}
+                                  animate={{ opacity: 1, y: -28, scale: 1.2 }}
+                                  exit={{ opacity: 0, y: -44 }}
+                                  transition={{ duration: shouldReduceMotion ? 0 : 0.4, ease: "easeOut" }}
+                                  className="absolute right-1/2 top-0 z-20 pointer-events-none text-2xl font-bold drop-shadow"
+                                >
+                                  {emote.emote}
+                                </motion.span>
+                              ))}
+                          </AnimatePresence>
                           <div className="flex items-center gap-2">
                             <span className="font-medium text-gray-900 dark:text-white">
+                              {player.avatar && <span className="mr-1">{player.avatar}</span>}
                               {player.name}
                             </span>
                             {isPlayerHost && (
@@ -1950,6 +2390,17 @@ export default function Home() {
                                 ⏱️<span className="hidden md:inline ml-1">{t.players.turn}</span>
                               </span>
                             )}
+                            {player.reconnecting && (
+                              <span
+                                className="text-xs px-2 py-0.5 bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200 rounded-full font-medium flex items-center justify-center min-w-[2rem] md:min-w-0 animate-pulse"
+                                title={t.players.reconnecting}
+                              >
+                                📶<span className="hidden md:inline ml-1">{t.players.reconnecting}</span>
+                              </span>
+                            )}
+                            {!player.reconnecting && player.latencyMs !== undefined && (
+                              <LatencyBadge latencyMs={player.latencyMs} />
+                            )}
                             {playerStatus === "PENDING_EXIT" && (
                               <span
                                 className="text-xs px-2 py-0.5 bg-yellow-200 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200 rounded-full font-medium"
@@ -1974,7 +2425,14 @@ export default function Home() {
                       );
                     })}
                   </div>
+                  {roomState.spectators.length > 0 && (
+                    <p className="mt-3 px-1 text-xs text-gray-500 dark:text-gray-400">
+                      👁️ {t.players.spectators}: {roomState.spectators.map((s) => s.name).join(", ")}
+                    </p>
+                  )}
                 </div>
+
+                {chatPanel}
               </div>
             </motion.div>
           )}
@@ -1987,6 +2445,35 @@ export default function Home() {
               className="mt-6"
             >
               <div className="p-6 bg-gray-50 dark:bg-gray-800 rounded-lg text-center">
+                {/* Final placings */}
+                {roomState.game?.placements && (
+                  <Podium
+                    placements={roomState.game.placements}
+                    players={roomState.players}
+                    handCounts={roomState.game.handCounts}
+                    myId={socketId}
+                  />
+                )}
+                {/* Summary and awards, above the rematch controls */}
+                {roomState.game?.summary && (
+                  <GameSummaryPanel summary={roomState.game.summary} myId={socketId} />
+                )}
+                {/* Take a seat for the rematch - only visible to spectators */}
+                {canTakeSeat && (
+                  <motion.div
+                    initial={{ opacity: 0, y: 10 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    transition={{ delay: 0.3, duration: 0.4 }}
+                    className="mb-6"
+                  >
+                    <button
+                      onClick={handleTakeSeat}
+                      className="px-6 py-3 bg-indigo-600 hover:bg-indigo-700 text-white font-semibold rounded-lg shadow-lg transition-colors duration-200"
+                    >
+                      🪑 {t.room.takeSeatForRematch}
+                    </button>
+                  </motion.div>
+                )}
                 {/* Rematch button - only visible to host */}
                 {isHost && roomState.players.length >= 2 && (
                   <motion.div
@@ -2011,7 +2498,8 @@ export default function Home() {
                 )}
                 {(() => {
                   // Always show at least the basic message
-                  if (!socketId || !roomState.game) {
+                  // (also for spectators and seats taken after the game ended)
+                  if (!socketId || !roomState.game || !(socketId in roomState.game.handCounts)) {
                     return (
                       <>
                         <p className="text-xl font-semibold text-gray-900 dark:text-white mb-2">
@@ -2024,14 +2512,10 @@ export default function Home() {
                     );
                   }
 
-                  const myHandCount = roomState.game.handCounts[socketId] ?? 0;
-                  const myStatus = roomState.game.playerStatuses?.[socketId] || "ACTIVE";
-                  
-                  // Player won if they have 0 cards
-                  const isWinner = myHandCount === 0;
-                  // Player lost if they are OUT and have cards (last one to exit)
-                  // Also consider losing if they have cards and are not the winner
-                  const isLoser = (myStatus === "OUT" && myHandCount > 0) || (!isWinner && myHandCount > 0);
+                  // First place wins, the player left holding cards loses, anyone in between just gets their place
+                  const isWinner = roomState.game.winnerId === socketId;
+                  const isLoser = roomState.game.loserId === socketId;
+                  const myPlace = roomState.game.placements?.[socketId];
                   
                   // Select random message once when result is determined
                   // Reset refs when phase changes back to IN_GAME or LOBBY
@@ -2198,20 +2682,61 @@ export default function Home() {
                   return (
                     <>
                       <p className="text-xl font-semibold text-gray-900 dark:text-white mb-2">
-                        {t.game.phase.ended}
+                        {t.game.thanksForPlaying}
                       </p>
                       <p className="text-gray-600 dark:text-gray-400 mb-4">
                         {t.game.gameEnded}
                       </p>
+                      {myPlace !== undefined && (
+                        <div className="mt-4 inline-block px-6 py-4 rounded-xl shadow-lg bg-indigo-500 text-white">
+                          <p className="text-xl font-bold mb-1">🏅</p>
+                          <p className="text-lg font-semibold">
+                            {t.podium.youFinished} {myPlace}
+                          </p>
+                        </div>
+                      )}
                     </>
                   );
                 })()}
+                <button
+                  onClick={() => setIsReplayOpen(true)}
+                  className="mt-6 px-4 py-2 bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-900 dark:text-white rounded-lg transition-colors duration-200"
+                >
+                  🎬 {t.replay.watchReplay}
+                </button>
+                {roomState.game?.seed !== undefined && (
+                  <p className="mt-4 text-xs text-gray-400 dark:text-gray-500 font-mono">
+                    {t.game.seed}: {roomState.game.seed}
+                  </p>
+                )}
               </div>
+              <div className="mt-4">{chatPanel}</div>
             </motion.div>
           )}
         </motion.div>
       </div>
       
+      {/* Replay viewer for the room's finished games */}
+      {isReplayOpen && roomState && roomState.phase === "ENDED" && (
+        <ReplayViewer
+          serverUrl={SOCKET_URL}
+          roomCode={roomState.code}
+          onClose={() => setIsReplayOpen(false)}
+        />
+      )}
+
+      {/* Stats screen for this browser's guest profile */}
+      {isStatsOpen && profile && (
+        <StatsScreen
+          serverUrl={SOCKET_URL}
+          profileId={profile.guestId}
+          nickname={profile.nickname}
+          profileSecret={profile.profileSecret}
+          onNicknameClaimed={handleNicknameClaimed}
+          onClose={() => setIsStatsOpen(false)}
+        />
+      )}
+
       {/* Flying Card Layer - renders on top of everything */}
       {roomState?.phase === "IN_GAME" && (
         <FlyingCardLayer
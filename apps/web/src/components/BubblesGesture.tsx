@@ -5,6 +5,7 @@ import { motion, AnimatePresence } from "framer-motion";
 import { useAudio } from "../hooks/useAudio";
 import { useTranslations } from "../hooks/useTranslations";
 import { isMobileDevice } from "../lib/deviceDetection";
+import { generateBubblePositions, type GesturePoint, type GestureProof } from "@acme/shared";
 
 interface Bubble {
   id: string;
@@ -19,92 +20,7 @@ interface BubblesGestureProps {
   bubbleCount: number;
   minDistancePx: number;
   bubbleSizePx: number;
-  onComplete: () => void;
-}
-
-/**
- * Simple hash function for claimId to generate seed
- */
-function hashString(str: string): number {
-  let hash = 0;
-  for (let i = 0; i < str.length; i++) {
-    const char = str.charCodeAt(i);
-    hash = (hash << 5) - hash + char;
-    hash = hash & hash; // Convert to 32-bit integer
-  }
-  return Math.abs(hash);
-}
-
-/**
- * Simple pseudo-random generator (Mulberry32)
- */
-function createPRNG(seed: number) {
-  return function () {
-    let t = (seed += 0x6d2b79f5);
-    t = Math.imul(t ^ (t >>> 15), t | 1);
-    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
-    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
-  };
-}
-
-/**
- * Generates bubble positions deterministically based on claimId
- */
-function generateBubblePositions(
-  claimId: string,
-  count: number,
-  minDistance: number,
-  bubbleSize: number,
-  containerWidth: number,
-  containerHeight: number
-): Array<{ x: number; y: number }> {
-  const seed = hashString(claimId);
-  const random = createPRNG(seed);
-
-  const positions: Array<{ x: number; y: number }> = [];
-  const attemptsPerBubble = 50; // Max attempts to place each bubble
-
-  for (let i = 0; i < count; i++) {
-    let attempts = 0;
-    let position: { x: number; y: number } | null = null;
-
-    while (attempts < attemptsPerBubble && !position) {
-      // Generate position (leave margin for bubble size)
-      const margin = bubbleSize / 2;
-      const x = margin + random() * (containerWidth - bubbleSize - margin * 2);
-      const y = margin + random() * (containerHeight - bubbleSize - margin * 2);
-
-      // Check distance from existing bubbles
-      let valid = true;
-      for (const existing of positions) {
-        const dx = x - existing.x;
-        const dy = y - existing.y;
-        const distance = Math.sqrt(dx * dx + dy * dy);
-        if (distance < minDistance) {
-          valid = false;
-          break;
-        }
-      }
-
-      if (valid) {
-        position = { x, y };
-        positions.push(position);
-      }
-
-      attempts++;
-    }
-
-    // If we couldn't place it after attempts, place it anyway (better than missing bubble)
-    if (!position) {
-      const fallbackMargin = bubbleSize / 2;
-      positions.push({
-        x: fallbackMargin + random() * (containerWidth - bubbleSize - fallbackMargin * 2),
-        y: fallbackMargin + random() * (containerHeight - bubbleSize - fallbackMargin * 2),
-      });
-    }
-  }
-
-  return positions;
+  onComplete: (proof: GestureProof) => void;
 }
 
 export function BubblesGesture({
@@ -133,6 +49,10 @@ export function BubblesGesture({
   const prevContainerSizeRef = useRef<{ width: number; height: number }>({ width: 0, height: 0 });
   const bubblesRef = useRef<Bubble[]>([]);
   const containerSizeRef = useRef<{ width: number; height: number }>({ width: 0, height: 0 });
+
+  // Size the bubbles were laid out in and where they were popped (sent to the server as proof)
+  const layoutSizeRef = useRef<{ width: number; height: number }>({ width: 0, height: 0 });
+  const popsRef = useRef<GesturePoint[]>([]);
   
   // Keep refs in sync with state
   useEffect(() => {
@@ -218,8 +138,10 @@ export function BubblesGesture({
       );
       // Reset popped count when bubbles are initialized (new gesture)
       poppedCountRef.current = 0;
+      layoutSizeRef.current = { width: containerSize.width, height: containerSize.height };
+      popsRef.current = [];
     }
-  }, [bubblePositions, claimId, bubbles.length]);
+  }, [bubblePositions, claimId, bubbles.length, containerSize.width, containerSize.height]);
 
   // Handle container resize: regenerate bubbles only if user hasn't started popping
   useEffect(() => {
@@ -279,6 +201,8 @@ export function BubblesGesture({
         }))
       );
       poppedCountRef.current = 0;
+      layoutSizeRef.current = currentSize;
+      popsRef.current = [];
     }
     
     prevContainerSizeRef.current = currentSize;
@@ -289,6 +213,7 @@ export function BubblesGesture({
     if (claimId !== prevClaimIdRef.current) {
       setBubbles([]);
       poppedCountRef.current = 0; // Reset popped count when claim changes
+      popsRef.current = [];
       prevClaimIdRef.current = claimId;
     }
   }, [claimId]);
@@ -305,18 +230,24 @@ export function BubblesGesture({
   // Auto-complete when all bubbles are popped
   useEffect(() => {
     if (allPopped && !isExpired) {
-      onComplete();
+      onComplete({ type: "BUBBLES", ...layoutSizeRef.current, pops: popsRef.current });
     }
   }, [allPopped, isExpired, onComplete]);
 
   // Handle bubble pop
-  const handleBubblePop = (bubbleId: string) => {
+  const handleBubblePop = (bubbleId: string, e: React.MouseEvent) => {
     if (isExpired) return;
 
     // Find bubble to pop (must exist and not already popped)
     const bubbleToPop = bubbles.find((b) => b.id === bubbleId && !b.popped);
     if (!bubbleToPop) return; // Already popped or doesn't exist
 
+    // Record where the pop landed, relative to the container
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (rect) {
+      popsRef.current.push({ x: e.clientX - rect.left, y: e.clientY - rect.top, t: Date.now() });
+    }
+
     // Calculate progressive pitch based on current popped count (BEFORE incrementing)
     const totalBubbles = bubbles.length;
     const currentPoppedCount = poppedCountRef.current;
@@ -408,7 +339,7 @@ export function BubblesGesture({
                   width: `${bubbleSizePx}px`,
                   height: `${bubbleSizePx}px`,
                 }}
-                onClick={() => handleBubblePop(bubble.id)}
+                onClick={(e) => handleBubblePop(bubble.id, e)}
                 whileHover={{ scale: 1.1 }}
                 whileTap={{ scale: 0.95 }}
               >
@@ -0,0 +1,127 @@
+"use client";
+
+import { memo, useState } from "react";
+import Image from "next/image";
+import { motion } from "framer-motion";
+import type { Card } from "@acme/shared";
+
+export const CardDisplay = memo(function CardDisplay({ card }: { card: Card }) {
+  const bgColorMap: Record<string, string> = {
+    yellow: "#FFCC99",
+    orange: "#8FFFDA",
+    green: "#CC99FF",
+    blue: "#CCFF99",
+    red: "#FF99CC",
+  };
+
+  const bgColor = bgColorMap[card.visual.bgColor] || "#9CA3AF";
+  const [imageError, setImageError] = useState(false);
+
+  if (card.type === "SPECIAL" && card.visual.kind === "special") {
+    // Map SPECIAL_1 -> special_1.webp, SPECIAL_2 -> special_2.webp, etc.
+    const specialTypeToFileName: Record<"SPECIAL_1" | "SPECIAL_2" | "SPECIAL_3", string> = {
+      SPECIAL_1: "special_1",
+      SPECIAL_2: "special_2",
+      SPECIAL_3: "special_3",
+    };
+    // Map SPECIAL_1 -> "Frenzy click", SPECIAL_2 -> "¡Bubbles!", SPECIAL_3 -> "Circles"
+    const specialTypeToDisplayName: Record<"SPECIAL_1" | "SPECIAL_2" | "SPECIAL_3", string> = {
+      SPECIAL_1: "Frenzy click",
+      SPECIAL_2: "¡Bubbles!",
+      SPECIAL_3: "Circles",
+    };
+    const fileName = specialTypeToFileName[card.visual.specialType];
+    const displayName = specialTypeToDisplayName[card.visual.specialType];
+    const imagePath = `/assets/specials/${fileName}.webp`;
+
+    return (
+      <motion.div
+        layoutId={`card-${card.id}`}
+        initial={{ scale: 0.8, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.8, opacity: 0 }}
+        transition={{ duration: 0.3 }}
+        className="rounded-xl shadow-xl border-4 border-gray-300 dark:border-gray-600 w-56 h-72 mx-auto flex flex-col items-center justify-center p-4 relative overflow-hidden"
+        style={{ backgroundColor: bgColor }}
+      >
+        {!imageError && (
+          <div className="absolute inset-0 flex items-center justify-center">
+            <div className="relative w-full h-full">
+              <Image
+                src={imagePath}
+                alt={`Special card ${displayName}`}
+                fill
+                className="object-contain"
+                onError={() => setImageError(true)}
+                unoptimized
+              />
+            </div>
+          </div>
+        )}
+        {/* Fallback text if image fails to load */}
+        {imageError && (
+          <div className="absolute inset-0 flex items-center justify-center">
+            <div className="text-center">
+              <p className="text-2xl font-bold text-white mb-2">SPECIAL</p>
+              <p className="text-lg text-white/90">{displayName}</p>
+            </div>
+          </div>
+        )}
+        {/* Card label */}
+        <div className="absolute bottom-2 left-0 right-0 text-center">
+          <p className="text-sm font-semibold text-white/90 uppercase drop-shadow">
+            {displayName}
+          </p>
+        </div>
+      </motion.div>
+    );
+  }
+
+  // NORMAL card - visual.kind must be one of the normal kinds
+  if (card.visual.kind !== "special") {
+    const imagePath = `/assets/${card.visual.kind}/${card.visual.style}.webp`;
+
+    return (
+      <motion.div
+        layoutId={`card-${card.id}`}
+      initial={{ scale: 0.8, opacity: 0 }}
+      animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.8, opacity: 0 }}
+      transition={{ duration: 0.3 }}
+      className="rounded-xl shadow-xl border-4 border-gray-300 dark:border-gray-600 w-56 h-72 mx-auto flex flex-col items-center justify-center p-4 relative overflow-hidden"
+      style={{ backgroundColor: bgColor }}
+    >
+      {!imageError && (
+        <div className="absolute inset-0 flex items-center justify-center">
+          <div className="relative w-full h-full">
+            <Image
+              src={imagePath}
+              alt={`${card.visual.kind} ${card.visual.style}`}
+              fill
+              className="object-contain"
+              onError={() => setImageError(true)}
+              unoptimized
+            />
+          </div>
+        </div>
+      )}
+      {/* Fallback text if image fails to load */}
+      {imageError && (
+        <div className="absolute inset-0 flex items-center justify-center">
+          <p className="text-3xl font-bold text-white uppercase drop-shadow-lg">
+            {card.visual.kind}
+          </p>
+        </div>
+      )}
+      {/* Card label */}
+      <div className="absolute bottom-2 left-0 right-0 text-center">
+        <p className="text-sm font-semibold text-white/90 uppercase drop-shadow">
+          {card.visual.kind}
+        </p>
+      </div>
+      </motion.div>
+    );
+  }
+
+  return null;
+});
@@ -0,0 +1,90 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { CHAT_MAX_LENGTH, EMOTES, type ChatMessage, type Emote } from "@acme/shared";
+import { useTranslations } from "../hooks/useTranslations";
+
+interface ChatPanelProps {
+  messages: ChatMessage[];
+  myId: string | null; // Highlights the current player's messages
+  onSendText: (text: string) => void;
+  onSendEmote: (emote: Emote) => void;
+}
+
+/**
+ * Compact room chat: recent messages, a text box and one-tap emotes
+ */
+export function ChatPanel({ messages, myId, onSendText, onSendEmote }: ChatPanelProps) {
+  const t = useTranslations();
+  const [draft, setDraft] = useState("");
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Keep the newest message in view
+  useEffect(() => {
+    if (listRef.current) {
+      listRef.current.scrollTop = listRef.current.scrollHeight;
+    }
+  }, [messages]);
+
+  const handleSend = () => {
+    const text = draft.trim();
+    if (!text) return;
+    onSendText(text);
+    setDraft("");
+  };
+
+  return (
+    <div className="mb-4 p-3 bg-gray-50 dark:bg-gray-700 rounded-lg border border-gray-200 dark:border-gray-600">
+      <h3 className="text-sm font-semibold mb-2 text-gray-900 dark:text-white">💬 {t.chat.title}</h3>
+
+      <div ref={listRef} className="h-32 overflow-y-auto mb-2 space-y-1 text-sm">
+        {messages.length === 0 && <p className="text-gray-500 dark:text-gray-400">{t.chat.empty}</p>}
+        {messages.map((message) => (
+          <p key={message.id} className="break-words text-gray-800 dark:text-gray-200">
+            <span
+              className={`font-semibold ${
+                message.senderId === myId ? "text-indigo-600 dark:text-indigo-400" : "text-gray-900 dark:text-white"
+              }`}
+            >
+              {message.senderName}:
+            </span>{" "}
+            {message.emote ? <span className="text-lg">{message.emote}</span> : message.text}
+          </p>
+        ))}
+      </div>
+
+      <div className="flex gap-2 mb-2">
+        <input
+          type="text"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") handleSend();
+          }}
+          maxLength={CHAT_MAX_LENGTH}
+          placeholder={t.chat.placeholder}
+          className="flex-1 min-w-0 px-3 py-1.5 text-sm border border-gray-300 rounded-lg dark:bg-gray-800 dark:border-gray-600 dark:text-white"
+        />
+        <button
+          onClick={handleSend}
+          disabled={!draft.trim()}
+          className="px-3 py-1.5 text-sm bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white rounded-lg font-medium transition-colors"
+        >
+          {t.chat.send}
+        </button>
+      </div>
+
+      <div className="flex flex-wrap gap-1">
+        {EMOTES.map((emote) => (
+          <button
+            key={emote}
+            onClick={() => onSendEmote(emote)}
+            className="px-2 py-1 text-sm bg-white dark:bg-gray-800 hover:bg-gray-100 dark:hover:bg-gray-600 rounded-lg border border-gray-200 dark:border-gray-600 transition-colors"
+          >
+            {emote}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -4,17 +4,12 @@ import { useState, useEffect, useRef } from "react";
 import { motion } from "framer-motion";
 import { useAudio } from "../hooks/useAudio";
 import { useTranslations } from "../hooks/useTranslations";
-
-interface Point {
-  x: number;
-  y: number;
-  t: number;
-}
+import { validateCircle, type GesturePoint, type GestureProof } from "@acme/shared";
 
 interface CircleGestureProps {
   claimId: string;
   closesAt: number;
-  onComplete: () => void;
+  onComplete: (proof: GestureProof) => void;
   minPathLen: number;
   closeDist: number;
   minRadius: number;
@@ -23,85 +18,6 @@ interface CircleGestureProps {
   minPoints: number;
 }
 
-/**
- * Validates if the drawn path forms a valid circle
- */
-function validateCircle(
-  points: Point[],
-  targetCenter: { x: number; y: number },
-  minPathLen: number,
-  closeDist: number,
-  minRadius: number,
-  maxRadiusVar: number,
-  targetCenterTol: number,
-  minPoints: number
-): boolean {
-  if (points.length < minPoints) {
-    return false;
-  }
-
-  // Calculate path length
-  let pathLength = 0;
-  for (let i = 1; i < points.length; i++) {
-    const dx = points[i].x - points[i - 1].x;
-    const dy = points[i].y - points[i - 1].y;
-    pathLength += Math.sqrt(dx * dx + dy * dy);
-  }
-
-  if (pathLength < minPathLen) {
-    return false;
-  }
-
-  // Check if path is closed (start and end are close)
-  const start = points[0];
-  const end = points[points.length - 1];
-  const startEndDist = Math.sqrt(
-    (end.x - start.x) ** 2 + (end.y - start.y) ** 2
-  );
-
-  if (startEndDist > closeDist) {
-    return false;
-  }
-
-  // Calculate center of the drawn path (average of all points)
-  const cx = points.reduce((sum, p) => sum + p.x, 0) / points.length;
-  const cy = points.reduce((sum, p) => sum + p.y, 0) / points.length;
-
-  // Check if center is close to target center
-  const centerDist = Math.sqrt(
-    (cx - targetCenter.x) ** 2 + (cy - targetCenter.y) ** 2
-  );
-
-  if (centerDist > targetCenterTol) {
-    return false;
-  }
-
-  // Calculate radii from center to each point
-  const radii = points.map((p) =>
-    Math.sqrt((p.x - cx) ** 2 + (p.y - cy) ** 2)
-  );
-
-  const meanR = radii.reduce((sum, r) => sum + r, 0) / radii.length;
-
-  if (meanR < minRadius) {
-    return false;
-  }
-
-  // Calculate standard deviation of radii
-  const variance =
-    radii.reduce((sum, r) => sum + (r - meanR) ** 2, 0) / radii.length;
-  const stdDevR = Math.sqrt(variance);
-
-  // Check circularity (coefficient of variation)
-  const radiusVar = stdDevR / meanR;
-
-  if (radiusVar > maxRadiusVar) {
-    return false;
-  }
-
-  return true;
-}
-
 export function CircleGesture({
   claimId,
   closesAt,
@@ -114,7 +30,7 @@ export function CircleGesture({
   minPoints,
 }: CircleGestureProps) {
   const t = useTranslations();
-  const [points, setPoints] = useState<Point[]>([]);
+  const [points, setPoints] = useState<GesturePoint[]>([]);
   const [isDrawing, setIsDrawing] = useState(false);
   const [isComplete, setIsComplete] = useState(false);
   const [hasError, setHasError] = useState(false);
@@ -188,7 +104,7 @@ export function CircleGesture({
   };
 
   // Get point coordinates relative to container using getBoundingClientRect
-  const getPointFromEvent = (e: React.PointerEvent | PointerEvent): Point | null => {
+  const getPointFromEvent = (e: React.PointerEvent | PointerEvent): GesturePoint | null => {
     if (!containerRef.current) return null;
 
     const rect = containerRef.current.getBoundingClientRect();
@@ -289,7 +205,11 @@ export function CircleGesture({
         hasPlayedCompletionSoundRef.current = true;
       }
       
-      onComplete();
+      // Send the path relative to the target center (the server has no layout)
+      onComplete({
+        type: "CIRCLE",
+        points: points.map((p) => ({ x: p.x - targetCenter.x, y: p.y - targetCenter.y, t: p.t })),
+      });
     } else {
       // On failure, do NOT play any sound (silence)
       setHasError(true);
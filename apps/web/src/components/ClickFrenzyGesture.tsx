@@ -4,13 +4,14 @@ import { useState, useEffect, useRef } from "react";
 import { motion } from "framer-motion";
 import { useAudio } from "../hooks/useAudio";
 import { useTranslations } from "../hooks/useTranslations";
+import type { GestureProof } from "@acme/shared";
 
 interface ClickFrenzyGestureProps {
   claimId: string;
   closesAt: number;
   requiredClicks: number;
   minIntervalMs: number;
-  onComplete: () => void;
+  onComplete: (proof: GestureProof) => void;
 }
 
 export function ClickFrenzyGesture({
@@ -31,6 +32,9 @@ export function ClickFrenzyGesture({
   const lastSfxAtRef = useRef<number>(0);
   const SFX_MIN_INTERVAL_MS = 50; // Throttle SFX to prevent spam
   
+  // Timestamps of the clicks that counted (sent to the server as proof)
+  const clickTimesRef = useRef<number[]>([]);
+
   // Track previous claimId to reset on change
   const prevClaimIdRef = useRef<string>(claimId);
 
@@ -41,6 +45,7 @@ export function ClickFrenzyGesture({
       setLastClickAt(0);
       setIsComplete(false);
       lastSfxAtRef.current = 0; // Reset SFX throttle
+      clickTimesRef.current = [];
       prevClaimIdRef.current = claimId;
     }
   }, [claimId]);
@@ -88,11 +93,12 @@ export function ClickFrenzyGesture({
       // Update state
       setClicksCount(newCount);
       setLastClickAt(now);
+      clickTimesRef.current.push(now);
 
       // Check if completed
       if (newCount >= requiredClicks) {
         setIsComplete(true);
-        onComplete();
+        onComplete({ type: "CLICK_FRENZY", clicks: clickTimesRef.current });
       }
     }
     // Note: If click doesn't pass minIntervalMs check, no sound is played (silence)
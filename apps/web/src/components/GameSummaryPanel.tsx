@@ -0,0 +1,91 @@
+"use client";
+
+import { motion } from "framer-motion";
+import type { GameAward, GameSummary } from "@acme/shared";
+import { useTranslations } from "../hooks/useTranslations";
+
+interface GameSummaryPanelProps {
+  summary: GameSummary;
+  myId: string | null; // Highlights the current player's row
+}
+
+const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(2)}s`;
+
+/**
+ * End-of-game summary: finishing order with per-player numbers, and the awards
+ */
+export function GameSummaryPanel({ summary, myId }: GameSummaryPanelProps) {
+  const t = useTranslations();
+
+  const nameOf = (playerId: string) =>
+    summary.players.find((p) => p.id === playerId)?.name ?? "?";
+
+  const awards: Array<{ icon: string; label: string; award: GameAward | null; format: (value: number) => string }> = [
+    { icon: "⚡", label: t.summary.fastestClaim, award: summary.fastestClaim, format: formatSeconds },
+    { icon: "🐢", label: t.summary.slowestClaimer, award: summary.slowestClaimer, format: formatSeconds },
+    {
+      icon: "🤦",
+      label: t.summary.mostFalseSlaps,
+      award: summary.mostFalseSlaps,
+      format: (value) => `${value} ${t.summary.falseSlaps}`,
+    },
+    {
+      icon: "🏔️",
+      label: t.summary.longestPile,
+      award: summary.longestPile,
+      format: (value) => `${value} ${t.summary.cards}`,
+    },
+  ];
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.2, duration: 0.4 }}
+      className="mb-6 text-left"
+    >
+      <h3 className="text-lg font-semibold mb-3 text-gray-900 dark:text-white text-center">
+        📋 {t.summary.title}
+      </h3>
+
+      {/* Finishing order */}
+      <div className="space-y-2 mb-4">
+        {summary.finishingOrder.map((playerId, index) => (
+          <div
+            key={playerId}
+            className={`flex items-center justify-between gap-3 p-3 rounded-lg text-sm ${
+              playerId === myId
+                ? "bg-indigo-50 dark:bg-indigo-900/30 border border-indigo-300 dark:border-indigo-700"
+                : "bg-white dark:bg-gray-700"
+            }`}
+          >
+            <span className="font-medium text-gray-900 dark:text-white">
+              <span className="inline-block w-6 text-gray-500 dark:text-gray-400 tabular-nums">{index + 1}.</span>
+              {nameOf(playerId)}
+            </span>
+            <span className="text-gray-600 dark:text-gray-300 tabular-nums">
+              {summary.cardsTaken[playerId] ?? 0} {t.summary.cardsTaken} · {summary.gesturesCompleted[playerId] ?? 0}{" "}
+              {t.summary.gestures}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      {/* Awards */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+        {awards
+          .filter(({ award }) => award !== null)
+          .map(({ icon, label, award, format }) => (
+            <div key={label} className="p-3 rounded-lg bg-yellow-50 dark:bg-yellow-900/20 text-sm">
+              <p className="text-gray-600 dark:text-gray-400">
+                {icon} {label}
+              </p>
+              <p className="font-semibold text-gray-900 dark:text-white">
+                {nameOf(award!.playerId)} · {format(award!.value)}
+              </p>
+            </div>
+          ))}
+      </div>
+    </motion.div>
+  );
+}
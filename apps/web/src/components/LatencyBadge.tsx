@@ -0,0 +1,30 @@
+"use client";
+
+import { useTranslations } from "../hooks/useTranslations";
+
+interface LatencyBadgeProps {
+  latencyMs: number; // Round trip measured by the server
+}
+
+/**
+ * Small connection-quality pill shown next to a player during the game
+ */
+export function LatencyBadge({ latencyMs }: LatencyBadgeProps) {
+  const t = useTranslations();
+
+  const colorClass =
+    latencyMs < 100
+      ? "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200"
+      : latencyMs < 250
+        ? "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200"
+        : "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200";
+
+  return (
+    <span
+      className={`text-xs px-2 py-0.5 rounded-full font-medium tabular-nums ${colorClass}`}
+      title={`${t.players.latency}: ${Math.round(latencyMs)} ms`}
+    >
+      {Math.round(latencyMs)}ms
+    </span>
+  );
+}
@@ -0,0 +1,88 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { Socket } from "socket.io-client";
+import { EVENTS, type LobbyListPayload, type PublicRoom } from "@acme/shared";
+import { useTranslations } from "../hooks/useTranslations";
+
+interface LobbyBrowserProps {
+  socket: Socket;
+  canJoin: boolean; // Joining needs a player name
+  onJoin: (code: string) => void;
+}
+
+const LOBBY_LIST_REFRESH_MS = 5000;
+
+/**
+ * Open public lobbies, refreshed every few seconds while the home screen is shown
+ */
+export function LobbyBrowser({ socket, canJoin, onJoin }: LobbyBrowserProps) {
+  const t = useTranslations();
+  const [rooms, setRooms] = useState<PublicRoom[]>([]);
+
+  useEffect(() => {
+    const handleLobbyList = (data: LobbyListPayload) => setRooms(data.rooms);
+    const requestList = () => socket.emit(EVENTS.LOBBY_LIST_REQUEST, {});
+
+    socket.on(EVENTS.LOBBY_LIST, handleLobbyList);
+    requestList();
+    const interval = setInterval(requestList, LOBBY_LIST_REFRESH_MS);
+    return () => {
+      clearInterval(interval);
+      socket.off(EVENTS.LOBBY_LIST, handleLobbyList);
+    };
+  }, [socket]);
+
+  return (
+    <div className="mb-6">
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-sm font-medium text-gray-700 dark:text-gray-300">{t.lobbies.title}</h2>
+        <button
+          onClick={() => socket.emit(EVENTS.LOBBY_LIST_REQUEST, {})}
+          className="text-xs text-indigo-600 hover:text-indigo-700 dark:text-indigo-400 dark:hover:text-indigo-300"
+        >
+          🔄 {t.lobbies.refresh}
+        </button>
+      </div>
+
+      {rooms.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">{t.lobbies.empty}</p>
+      ) : (
+        <div className="space-y-2 max-h-60 overflow-y-auto">
+          {rooms.map((room) => (
+            <div
+              key={room.code}
+              className="flex items-center justify-between gap-3 p-3 bg-gray-50 dark:bg-gray-700 rounded-lg text-sm"
+            >
+              <div className="min-w-0">
+                <p className="font-mono font-semibold text-gray-900 dark:text-white">
+                  {room.code}
+                  {room.quickMatch && (
+                    <span className="ml-2 text-xs font-sans px-2 py-0.5 bg-yellow-100 dark:bg-yellow-900 text-yellow-800 dark:text-yellow-200 rounded-full">
+                      {t.lobbies.quickMatchTag}
+                    </span>
+                  )}
+                </p>
+                <p className="text-gray-600 dark:text-gray-400 truncate">
+                  {t.lobbies.host}: {room.hostName}
+                </p>
+              </div>
+              <div className="flex items-center gap-3 shrink-0">
+                <span className="tabular-nums text-gray-700 dark:text-gray-300">
+                  👥 {room.playerCount}/{room.maxPlayers}
+                </span>
+                <button
+                  onClick={() => onJoin(room.code)}
+                  disabled={!canJoin}
+                  className="px-3 py-1.5 bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white rounded-lg font-medium transition-colors"
+                >
+                  {t.lobbies.join}
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
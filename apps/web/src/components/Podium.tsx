@@ -0,0 +1,90 @@
+"use client";
+
+import { motion } from "framer-motion";
+import type { Player } from "@acme/shared";
+import { useTranslations } from "../hooks/useTranslations";
+
+interface PodiumProps {
+  placements: Record<string, number>; // Record<playerId, place>, 1 = winner
+  players: Player[];
+  handCounts: Record<string, number>;
+  myId: string | null; // Highlights the current player
+}
+
+const MEDALS = ["🥇", "🥈", "🥉"];
+
+// Step heights for 1st, 2nd and 3rd
+const STEP_HEIGHTS = ["h-24", "h-16", "h-10"];
+
+/**
+ * Final placings: the top three on podium steps, everyone else listed below
+ */
+export function Podium({ placements, players, handCounts, myId }: PodiumProps) {
+  const t = useTranslations();
+
+  const ranked = Object.entries(placements)
+    .sort(([, a], [, b]) => a - b)
+    .map(([playerId, place]) => ({
+      playerId,
+      place,
+      name: players.find((p) => p.id === playerId)?.name ?? "?",
+    }));
+  const top = ranked.slice(0, 3);
+  const rest = ranked.slice(3);
+
+  // Classic podium layout: 2nd on the left, 1st in the middle, 3rd on the right
+  const podiumOrder = [top[1], top[0], top[2]].filter((entry) => entry !== undefined);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.4 }}
+      className="mb-6"
+    >
+      <h3 className="text-lg font-semibold mb-3 text-gray-900 dark:text-white">🏆 {t.podium.title}</h3>
+
+      <div className="flex items-end justify-center gap-2 mb-4">
+        {podiumOrder.map(({ playerId, place, name }) => (
+          <div key={playerId} className="flex flex-col items-center w-28">
+            <span className="text-2xl">{MEDALS[place - 1]}</span>
+            <span
+              className={`text-sm font-medium truncate max-w-full ${
+                playerId === myId ? "text-indigo-600 dark:text-indigo-400" : "text-gray-900 dark:text-white"
+              }`}
+            >
+              {name}
+            </span>
+            <div
+              className={`${STEP_HEIGHTS[place - 1]} w-full mt-1 rounded-t-lg bg-yellow-300 dark:bg-yellow-600 flex items-center justify-center text-xl font-bold text-gray-900 dark:text-white`}
+            >
+              {place}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {rest.length > 0 && (
+        <div className="space-y-1 text-sm">
+          {rest.map(({ playerId, place, name }) => (
+            <div
+              key={playerId}
+              className={`flex items-center justify-between px-3 py-2 rounded-lg ${
+                playerId === myId
+                  ? "bg-indigo-50 dark:bg-indigo-900/30 border border-indigo-300 dark:border-indigo-700"
+                  : "bg-white dark:bg-gray-700"
+              }`}
+            >
+              <span className="text-gray-900 dark:text-white">
+                {t.podium.place} {place} · {name}
+              </span>
+              <span className="text-gray-600 dark:text-gray-300 tabular-nums">
+                {handCounts[playerId] ?? 0} {t.podium.cardsLeft}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </motion.div>
+  );
+}
@@ -0,0 +1,403 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import {
+  KINDS,
+  type Card,
+  type GameLog,
+  type GameLogEvent,
+  type GameLogSummary,
+  type PlayerGameStatus,
+} from "@acme/shared";
+import { PileCenter } from "./PileCenter";
+import { WordTimeline } from "./WordTimeline";
+import { FlyingCardLayer } from "./FlyingCardLayer";
+import { CardDisplay } from "./CardDisplay";
+import { useTranslations } from "../hooks/useTranslations";
+
+const BACK_SRC = "/assets/card-back.webp";
+const PLAY_STEP_MS = 700; // Time between events while auto-playing
+
+interface ReplayViewerProps {
+  serverUrl: string;
+  roomCode: string;
+  onClose: () => void;
+}
+
+/**
+ * Table state after applying the first `step + 1` events of a log
+ */
+interface ReplayFrame {
+  handCounts: Record<string, number>;
+  statuses: Record<string, PlayerGameStatus>;
+  pile: Card[];
+  spokenWord: string | null;
+  claimOpens: number; // Counters drive the PileCenter animation keys
+  claimsResolved: number;
+  falseSlaps: number;
+  lastFalseSlapCount: number;
+}
+
+function buildFrame(events: GameLogEvent[], step: number): ReplayFrame {
+  const frame: ReplayFrame = {
+    handCounts: {},
+    statuses: {},
+    pile: [],
+    spokenWord: null,
+    claimOpens: 0,
+    claimsResolved: 0,
+    falseSlaps: 0,
+    lastFalseSlapCount: 0,
+  };
+
+  for (const event of events.slice(0, step + 1)) {
+    switch (event.type) {
+      case "DEAL":
+        frame.handCounts = { ...event.handCounts };
+        for (const id of Object.keys(event.handCounts)) {
+          frame.statuses[id] = "ACTIVE";
+        }
+        break;
+      case "FLIP":
+        frame.handCounts[event.playerId] = (frame.handCounts[event.playerId] ?? 1) - 1;
+        frame.pile.push(event.card);
+        frame.spokenWord = event.spokenWord;
+        break;
+      case "CLAIM_OPEN":
+        frame.claimOpens++;
+        break;
+      case "FALSE_SLAP":
+        // The slapper takes cards from the top (the whole pile unless the room uses a fixed penalty)
+        frame.handCounts[event.playerId] = (frame.handCounts[event.playerId] ?? 0) + event.cardsTaken;
+        frame.pile = frame.pile.slice(0, frame.pile.length - event.cardsTaken);
+        frame.spokenWord = frame.pile.length > 0 ? KINDS[(frame.pile.length - 1) % KINDS.length] : null;
+        frame.falseSlaps++;
+        frame.lastFalseSlapCount = event.cardsTaken;
+        break;
+      case "CLAIM_RESOLVED":
+        for (const [id, count] of Object.entries(event.distribution)) {
+          frame.handCounts[id] = (frame.handCounts[id] ?? 0) + count;
+        }
+        frame.pile = [];
+        frame.spokenWord = null;
+        frame.claimsResolved++;
+        break;
+      case "STATUS_CHANGE":
+        frame.statuses[event.playerId] = event.to;
+        break;
+      case "SEAT_FILLED":
+        // The bot carries on with the leaving player's hand and status
+        frame.handCounts[event.botId] = frame.handCounts[event.playerId] ?? 0;
+        frame.statuses[event.botId] = frame.statuses[event.playerId] ?? "ACTIVE";
+        frame.handCounts[event.playerId] = 0;
+        frame.statuses[event.playerId] = "OUT";
+        break;
+      case "END":
+        frame.handCounts = { ...event.handCounts };
+        frame.statuses = { ...event.playerStatuses };
+        break;
+    }
+  }
+
+  return frame;
+}
+
+/**
+ * Steps through a finished game's event log using the in-game table components
+ */
+export function ReplayViewer({ serverUrl, roomCode, onClose }: ReplayViewerProps) {
+  const t = useTranslations();
+  const [games, setGames] = useState<GameLogSummary[] | null>(null);
+  const [gameNumber, setGameNumber] = useState<number | null>(null);
+  const [log, setLog] = useState<GameLog | null>(null);
+  const [error, setError] = useState(false);
+  const [step, setStep] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [impactKey, setImpactKey] = useState(0);
+  const [flyingCards, setFlyingCards] = useState<Array<{
+    id: string;
+    from: { x: number; y: number };
+    to: { x: number; y: number };
+    kind: "BACK";
+    backSrc: string;
+  }>>([]);
+
+  const pileRef = useRef<HTMLDivElement>(null);
+  const playerRowRefs = useRef<Record<string, HTMLDivElement | null>>({});
+  const prevStepRef = useRef(0);
+
+  // Load the list of finished games and pick the most recent one
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`${serverUrl}/rooms/${roomCode}/games`)
+      .then((res) => (res.ok ? res.json() : Promise.reject(res.status)))
+      .then((list: GameLogSummary[]) => {
+        if (cancelled) return;
+        setGames(list);
+        setGameNumber(list.length > 0 ? list[list.length - 1].gameNumber : null);
+      })
+      .catch(() => {
+        if (!cancelled) setError(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [serverUrl, roomCode]);
+
+  // Load the selected game's log
+  useEffect(() => {
+    if (gameNumber === null) return;
+    let cancelled = false;
+    setLog(null);
+    setStep(0);
+    setIsPlaying(false);
+    prevStepRef.current = 0;
+    fetch(`${serverUrl}/rooms/${roomCode}/games/${gameNumber}/log`)
+      .then((res) => (res.ok ? res.json() : Promise.reject(res.status)))
+      .then((data: GameLog) => {
+        if (!cancelled) setLog(data);
+      })
+      .catch(() => {
+        if (!cancelled) setError(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [serverUrl, roomCode, gameNumber]);
+
+  const lastStep = log ? log.events.length - 1 : 0;
+
+  // Auto-play advances one event at a time and stops at the end
+  useEffect(() => {
+    if (!isPlaying) return;
+    if (step >= lastStep) {
+      setIsPlaying(false);
+      return;
+    }
+    const timeout = setTimeout(() => setStep((s) => Math.min(s + 1, lastStep)), PLAY_STEP_MS);
+    return () => clearTimeout(timeout);
+  }, [isPlaying, step, lastStep]);
+
+  // Throw a card from the player's row to the pile when stepping forward onto a flip
+  useEffect(() => {
+    const event = log?.events[step];
+    const steppedForward = step === prevStepRef.current + 1;
+    prevStepRef.current = step;
+    if (!event || event.type !== "FLIP" || !steppedForward) return;
+
+    const fromEl = playerRowRefs.current[event.playerId];
+    const toEl = pileRef.current;
+    if (!fromEl || !toEl) return;
+
+    const fromRect = fromEl.getBoundingClientRect();
+    const toRect = toEl.getBoundingClientRect();
+    setFlyingCards((prev) => [
+      ...prev,
+      {
+        id: `replay-${step}-${Date.now()}`,
+        from: { x: fromRect.left + fromRect.width / 2, y: fromRect.top + fromRect.height / 2 },
+        to: { x: toRect.left + toRect.width / 2, y: toRect.top + toRect.height / 2 },
+        kind: "BACK",
+        backSrc: BACK_SRC,
+      },
+    ]);
+  }, [log, step]);
+
+  const frame = useMemo(() => (log ? buildFrame(log.events, step) : null), [log, step]);
+  const playerNames = useMemo(
+    () => Object.fromEntries((log?.players ?? []).map((p) => [p.id, p.name])),
+    [log]
+  );
+
+  const statusLabels: Record<PlayerGameStatus, string> = {
+    ACTIVE: t.replay.statuses.active,
+    PENDING_EXIT: t.replay.statuses.pendingExit,
+    OUT: t.replay.statuses.out,
+  };
+
+  const describeEvent = (event: GameLogEvent): string => {
+    const name = "playerId" in event ? playerNames[event.playerId] ?? "?" : "";
+    switch (event.type) {
+      case "DEAL":
+        return t.replay.events.deal;
+      case "FLIP":
+        return `${name} ${t.replay.events.flip} "${event.spokenWord}"`;
+      case "CLAIM_OPEN":
+        return t.replay.events.claimOpen;
+      case "CLAIM_ATTEMPT":
+        return `${name} ${t.replay.events.claimAttempt}`;
+      case "FALSE_SLAP":
+        return `${name} ${t.replay.events.falseSlap} ${event.cardsTaken} ${t.replay.cards}`;
+      case "CLAIM_RESOLVED":
+        return t.replay.events.claimResolved;
+      case "STATUS_CHANGE":
+        return `${name}: ${statusLabels[event.from]} → ${statusLabels[event.to]}`;
+      case "SEAT_FILLED":
+        return `${event.botName} ${t.replay.events.seatFilled} ${name}`;
+      case "END":
+        return t.replay.events.end;
+    }
+  };
+
+  const topCard = frame && frame.pile.length > 0 ? frame.pile[frame.pile.length - 1] : undefined;
+  const currentEvent = log?.events[step];
+
+  return (
+    <div className="fixed inset-0 z-40 bg-black/60 flex items-center justify-center p-4">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="bg-white dark:bg-gray-800 rounded-xl shadow-2xl w-full max-w-3xl max-h-full overflow-y-auto p-6"
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between gap-4 mb-4">
+          <h2 className="text-2xl font-bold text-gray-900 dark:text-white">🎬 {t.replay.title}</h2>
+          <div className="flex items-center gap-2">
+            {games && games.length > 1 && (
+              <select
+                value={gameNumber ?? undefined}
+                onChange={(e) => setGameNumber(Number(e.target.value))}
+                className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+              >
+                {games.map((game) => (
+                  <option key={game.gameNumber} value={game.gameNumber}>
+                    {t.replay.game} {game.gameNumber}
+                  </option>
+                ))}
+              </select>
+            )}
+            <button
+              onClick={onClose}
+              className="px-4 py-2 bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-900 dark:text-white rounded-lg transition-colors duration-200"
+            >
+              {t.replay.close}
+            </button>
+          </div>
+        </div>
+
+        {error && <p className="text-center text-red-500 py-8">{t.replay.loadFailed}</p>}
+        {!error && games && games.length === 0 && (
+          <p className="text-center text-gray-500 dark:text-gray-400 py-8">{t.replay.noGames}</p>
+        )}
+        {!error && gameNumber !== null && (!log || !frame) && (
+          <p className="text-center text-gray-500 dark:text-gray-400 py-8">{t.replay.loading}</p>
+        )}
+
+        {!error && log && frame && (
+          <>
+            {/* Players */}
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-2 mb-6">
+              {log.players.map((player) => {
+                const status = frame.statuses[player.id] ?? "ACTIVE";
+                const isActor = currentEvent && "playerId" in currentEvent && currentEvent.playerId === player.id;
+                return (
+                  <div
+                    key={player.id}
+                    ref={(el) => {
+                      playerRowRefs.current[player.id] = el;
+                    }}
+                    className={`p-2 rounded-lg border text-sm ${
+                      isActor
+                        ? "border-blue-500 bg-blue-50 dark:bg-blue-900/30"
+                        : "border-gray-200 dark:border-gray-700"
+                    } ${status === "OUT" ? "opacity-60" : ""}`}
+                  >
+                    <p className="font-semibold text-gray-900 dark:text-white truncate">
+                      {player.isBot ? "🤖 " : ""}{player.name}
+                    </p>
+                    <p className="text-gray-600 dark:text-gray-400">
+                      {frame.handCounts[player.id] ?? 0} {t.replay.cards} · {statusLabels[status]}
+                    </p>
+                  </div>
+                );
+              })}
+            </div>
+
+            {/* Table */}
+            <div className="mb-4">
+              <WordTimeline
+                spokenWord={frame.spokenWord}
+                currentWord={KINDS[frame.pile.length % KINDS.length]}
+                anticipationKey={frame.claimOpens}
+              />
+            </div>
+            <div className="mb-6 flex flex-col items-center">
+              <PileCenter
+                ref={pileRef}
+                pileCount={frame.pile.length}
+                topCard={topCard}
+                backSrc={BACK_SRC}
+                impactKey={impactKey}
+                oopsKey={frame.falseSlaps}
+                oopsCardCount={frame.lastFalseSlapCount}
+                goodKey={frame.claimsResolved}
+                anticipationKey={frame.claimOpens}
+              >
+                {topCard ? (
+                  <AnimatePresence mode="wait">
+                    <CardDisplay key={topCard.id} card={topCard} />
+                  </AnimatePresence>
+                ) : (
+                  <div className="bg-white dark:bg-gray-800 rounded-xl shadow-xl border-4 border-gray-300 dark:border-gray-600 w-56 h-72 mx-auto" />
+                )}
+              </PileCenter>
+            </div>
+
+            {/* Current event */}
+            <p className="text-center text-gray-700 dark:text-gray-300 mb-4 min-h-[1.5rem]">
+              {currentEvent && describeEvent(currentEvent)}
+            </p>
+
+            {/* Controls */}
+            <div className="flex items-center justify-center gap-2 mb-3">
+              <button
+                onClick={() => setStep((s) => Math.max(0, s - 1))}
+                disabled={step === 0}
+                className="px-4 py-2 bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed text-gray-900 dark:text-white rounded-lg transition-colors duration-200"
+              >
+                ⏮ {t.replay.previous}
+              </button>
+              <button
+                onClick={() => {
+                  if (step >= lastStep) setStep(0);
+                  setIsPlaying((playing) => !playing);
+                }}
+                className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white font-semibold rounded-lg transition-colors duration-200"
+              >
+                {isPlaying ? `⏸ ${t.replay.pause}` : `▶ ${t.replay.play}`}
+              </button>
+              <button
+                onClick={() => setStep((s) => Math.min(lastStep, s + 1))}
+                disabled={step >= lastStep}
+                className="px-4 py-2 bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed text-gray-900 dark:text-white rounded-lg transition-colors duration-200"
+              >
+                {t.replay.next} ⏭
+              </button>
+            </div>
+            <input
+              type="range"
+              min={0}
+              max={lastStep}
+              value={step}
+              onChange={(e) => {
+                setIsPlaying(false);
+                setStep(Number(e.target.value));
+              }}
+              className="w-full"
+            />
+            <p className="text-center text-xs text-gray-400 dark:text-gray-500 font-mono mt-2">
+              {step + 1} / {log.events.length} · {t.game.seed}: {log.seed}
+            </p>
+          </>
+        )}
+      </motion.div>
+
+      <FlyingCardLayer
+        flyingCards={flyingCards}
+        onCardComplete={(id) => setFlyingCards((prev) => prev.filter((card) => card.id !== id))}
+        onImpact={() => setImpactKey((key) => key + 1)}
+      />
+    </div>
+  );
+}
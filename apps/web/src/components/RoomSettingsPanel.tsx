@@ -0,0 +1,170 @@
+"use client";
+
+import { ReactNode } from "react";
+import {
+  KINDS,
+  MAX_PLAYERS,
+  MIN_CLAIM_WINDOW_MS,
+  MAX_CLAIM_WINDOW_MS,
+  MIN_NORMAL_CARDS_PER_KIND,
+  MAX_NORMAL_CARDS_PER_KIND,
+  MAX_SPECIALS_PER_TYPE,
+  type RoomSettings,
+  type SettingsUpdatePayload,
+  type SpecialType,
+} from "@acme/shared";
+import { useTranslations } from "../hooks/useTranslations";
+
+interface RoomSettingsPanelProps {
+  settings: RoomSettings;
+  editable: boolean; // Only the host can change the rules
+  playerCount: number; // Lower bound for max players
+  onChange: (update: SettingsUpdatePayload) => void;
+}
+
+// Same names as the special cards themselves
+const SPECIAL_NAMES: Record<SpecialType, string> = {
+  SPECIAL_1: "Frenzy click",
+  SPECIAL_2: "¡Bubbles!",
+  SPECIAL_3: "Circles",
+};
+
+const range = (min: number, max: number) =>
+  Array.from({ length: max - min + 1 }, (_, i) => min + i);
+
+/**
+ * House rules shown in the lobby (editable by the host, read-only for everyone else)
+ */
+export function RoomSettingsPanel({ settings, editable, playerCount, onChange }: RoomSettingsPanelProps) {
+  const t = useTranslations();
+
+  const deckTotal =
+    settings.cardsPerKind * KINDS.length +
+    Object.values(settings.specialsPerType).reduce((sum, count) => sum + count, 0);
+
+  const selectClass =
+    "px-2 py-1 text-sm border border-gray-300 rounded-lg dark:bg-gray-700 dark:border-gray-600 dark:text-white disabled:opacity-70";
+
+  const row = (label: string, control: ReactNode) => (
+    <label className="flex items-center justify-between gap-3 text-sm text-gray-700 dark:text-gray-300">
+      <span>{label}</span>
+      {control}
+    </label>
+  );
+
+  const numberSelect = (value: number, options: number[], onSelect: (value: number) => void) => (
+    <select
+      value={value}
+      disabled={!editable}
+      onChange={(e) => onSelect(Number(e.target.value))}
+      className={selectClass}
+    >
+      {options.map((option) => (
+        <option key={option} value={option}>
+          {option}
+        </option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="mb-6 p-4 bg-gray-50 dark:bg-gray-700 rounded-lg space-y-2">
+      <h3 className="font-semibold text-gray-900 dark:text-white">⚙️ {t.settings.title}</h3>
+
+      {row(
+        t.settings.claimWindow,
+        numberSelect(
+          settings.claimWindowMs / 1000,
+          range(MIN_CLAIM_WINDOW_MS / 1000, MAX_CLAIM_WINDOW_MS / 1000),
+          (seconds) => onChange({ claimWindowMs: seconds * 1000 })
+        )
+      )}
+
+      {row(
+        t.settings.maxPlayers,
+        numberSelect(settings.maxPlayers, range(Math.max(2, playerCount), MAX_PLAYERS), (maxPlayers) =>
+          onChange({ maxPlayers })
+        )
+      )}
+
+      {row(
+        t.settings.cardsPerKind,
+        numberSelect(
+          settings.cardsPerKind,
+          range(MIN_NORMAL_CARDS_PER_KIND, MAX_NORMAL_CARDS_PER_KIND),
+          (cardsPerKind) => onChange({ cardsPerKind })
+        )
+      )}
+
+      {(Object.keys(SPECIAL_NAMES) as SpecialType[]).map((specialType) => (
+        <div key={specialType}>
+          {row(
+            `${t.settings.specials}: ${SPECIAL_NAMES[specialType]}`,
+            numberSelect(settings.specialsPerType[specialType], range(0, MAX_SPECIALS_PER_TYPE), (count) =>
+              onChange({ specialsPerType: { ...settings.specialsPerType, [specialType]: count } })
+            )
+          )}
+        </div>
+      ))}
+
+      {row(
+        t.settings.falseSlapPenalty,
+        <select
+          value={settings.falseSlapPenalty}
+          disabled={!editable}
+          onChange={(e) => onChange({ falseSlapPenalty: e.target.value as RoomSettings["falseSlapPenalty"] })}
+          className={selectClass}
+        >
+          <option value="WHOLE_PILE">{t.settings.falseSlapWholePile}</option>
+          <option value="FIXED">{t.settings.falseSlapFixed}</option>
+        </select>
+      )}
+
+      {settings.falseSlapPenalty === "FIXED" &&
+        row(
+          t.settings.falseSlapCards,
+          numberSelect(settings.falseSlapCards, range(1, 10), (falseSlapCards) => onChange({ falseSlapCards }))
+        )}
+
+      {row(
+        t.settings.allClaimedPenalty,
+        <select
+          value={settings.allClaimedPenalty}
+          disabled={!editable}
+          onChange={(e) => onChange({ allClaimedPenalty: e.target.value as RoomSettings["allClaimedPenalty"] })}
+          className={selectClass}
+        >
+          <option value="LAST_CLAIMER">{t.settings.allClaimedLastClaimer}</option>
+          <option value="DISCARD">{t.settings.allClaimedDiscard}</option>
+        </select>
+      )}
+
+      {row(
+        t.settings.requireFinalClaim,
+        <input
+          type="checkbox"
+          checked={settings.requireFinalClaim}
+          disabled={!editable}
+          onChange={(e) => onChange({ requireFinalClaim: e.target.checked })}
+          className="w-4 h-4"
+        />
+      )}
+
+      {row(
+        t.settings.isPublic,
+        <input
+          type="checkbox"
+          checked={settings.isPublic}
+          disabled={!editable}
+          onChange={(e) => onChange({ isPublic: e.target.checked })}
+          className="w-4 h-4"
+        />
+      )}
+
+      <p className="pt-1 text-xs text-gray-500 dark:text-gray-400">
+        {t.settings.deckTotal}: {deckTotal}
+        {!editable && ` · ${t.settings.hostOnly}`}
+      </p>
+    </div>
+  );
+}
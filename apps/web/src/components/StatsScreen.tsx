@@ -0,0 +1,181 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { motion } from "framer-motion";
+import type { GestureType, NicknameClaimResponse, PlayerStats } from "@acme/shared";
+import { useTranslations } from "../hooks/useTranslations";
+
+interface StatsScreenProps {
+  serverUrl: string;
+  profileId: string;
+  nickname?: string;
+  profileSecret?: string;
+  onNicknameClaimed: (nickname: string, profileSecret?: string) => void;
+  onClose: () => void;
+}
+
+// Same names as the gesture screens
+const GESTURE_NAMES: Record<GestureType, string> = {
+  CLICK_FRENZY: "Frenzy click",
+  BUBBLES: "¡Bubbles!",
+  CIRCLE: "Circles",
+};
+
+const formatMs = (ms: number | null | undefined) =>
+  ms === null || ms === undefined ? "—" : `${(ms / 1000).toFixed(2)}s`;
+
+/**
+ * Stats of this browser's guest profile, with the nickname claim form
+ */
+export function StatsScreen({
+  serverUrl,
+  profileId,
+  nickname,
+  profileSecret,
+  onNicknameClaimed,
+  onClose,
+}: StatsScreenProps) {
+  const t = useTranslations();
+  const [stats, setStats] = useState<PlayerStats | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState(false);
+  const [nicknameInput, setNicknameInput] = useState(nickname ?? "");
+  const [nicknameError, setNicknameError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`${serverUrl}/players/${profileId}/stats`)
+      .then((res) => {
+        // 404 just means no finished games yet
+        if (res.status === 404) return null;
+        return res.ok ? res.json() : Promise.reject(res.status);
+      })
+      .then((data: PlayerStats | null) => {
+        if (!cancelled) setStats(data);
+      })
+      .catch(() => {
+        if (!cancelled) setError(true);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [serverUrl, profileId]);
+
+  const handleClaimNickname = () => {
+    const wanted = nicknameInput.trim();
+    if (wanted.length < 2) {
+      setNicknameError(t.stats.nicknameInvalid);
+      return;
+    }
+    setNicknameError(null);
+    fetch(`${serverUrl}/players/${profileId}/nickname`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ nickname: wanted, profileSecret }),
+    })
+      .then((res) => {
+        const refusal: Record<number, string> = {
+          403: t.stats.nicknameForbidden,
+          404: t.stats.nicknameNeedsGame,
+          409: t.stats.nicknameTaken,
+        };
+        if (refusal[res.status]) {
+          setNicknameError(refusal[res.status]);
+          return null;
+        }
+        return res.ok ? res.json() : Promise.reject(res.status);
+      })
+      .then((data: NicknameClaimResponse | null) => {
+        if (!data) return;
+        const { profileSecret: issuedSecret, ...claimedStats } = data;
+        setStats(claimedStats);
+        // The server only sends the secret with the profile's first claim
+        onNicknameClaimed(claimedStats.nickname ?? wanted, issuedSecret ?? profileSecret);
+      })
+      .catch(() => setNicknameError(t.stats.loadFailed));
+  };
+
+  const statRow = (label: string, value: string | number) => (
+    <div className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-700 rounded-lg text-sm">
+      <span className="text-gray-700 dark:text-gray-300">{label}</span>
+      <span className="font-semibold text-gray-900 dark:text-white tabular-nums">{value}</span>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-40 bg-black/60 flex items-center justify-center p-4">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="bg-white dark:bg-gray-800 rounded-xl shadow-2xl w-full max-w-lg max-h-full overflow-y-auto p-6"
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between gap-4 mb-4">
+          <h2 className="text-2xl font-bold text-gray-900 dark:text-white">📊 {t.stats.title}</h2>
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-900 dark:text-white rounded-lg transition-colors duration-200"
+          >
+            {t.stats.close}
+          </button>
+        </div>
+
+        {/* Nickname claim */}
+        <div className="mb-6">
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            {t.stats.nickname}
+          </label>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={nicknameInput}
+              onChange={(e) => setNicknameInput(e.target.value)}
+              maxLength={20}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+            />
+            <button
+              onClick={handleClaimNickname}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium transition-colors"
+            >
+              {t.stats.claimNickname}
+            </button>
+          </div>
+          {nicknameError && <p className="mt-2 text-sm text-red-500">{nicknameError}</p>}
+          <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">{t.stats.nicknameHint}</p>
+        </div>
+
+        {isLoading && <p className="text-center text-gray-500 dark:text-gray-400 py-8">{t.stats.loading}</p>}
+        {!isLoading && error && <p className="text-center text-red-500 py-8">{t.stats.loadFailed}</p>}
+        {!isLoading && !error && (!stats || stats.gamesPlayed === 0) && (
+          <p className="text-center text-gray-500 dark:text-gray-400 py-8">{t.stats.noGames}</p>
+        )}
+
+        {!isLoading && !error && stats && stats.gamesPlayed > 0 && (
+          <div className="space-y-2">
+            {statRow(t.stats.gamesPlayed, stats.gamesPlayed)}
+            {statRow(t.stats.wins, stats.wins)}
+            {statRow(t.stats.losses, stats.losses)}
+            {statRow(t.stats.averagePlacement, stats.averagePlacement ?? "—")}
+            {statRow(t.stats.averageReaction, formatMs(stats.averageReactionMs))}
+            {statRow(t.stats.falseSlaps, stats.falseSlaps)}
+            {statRow(
+              t.stats.gestureSuccessRate,
+              stats.gestureSuccessRate === null
+                ? "—"
+                : `${Math.round(stats.gestureSuccessRate * 100)}% (${stats.gestureSuccesses}/${stats.gestureAttempts})`
+            )}
+            <h3 className="pt-4 font-semibold text-gray-900 dark:text-white">{t.stats.fastestGestures}</h3>
+            {(Object.keys(GESTURE_NAMES) as GestureType[]).map((gestureType) => (
+              <div key={gestureType}>
+                {statRow(GESTURE_NAMES[gestureType], formatMs(stats.fastestGestureMs[gestureType]))}
+              </div>
+            ))}
+          </div>
+        )}
+      </motion.div>
+    </div>
+  );
+}
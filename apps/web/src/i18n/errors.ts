@@ -0,0 +1,24 @@
+import { ErrorCode, type ErrorPayload } from '@acme/shared';
+import type { Translations } from './translations';
+
+/**
+ * Localised text for a server ERROR - the code's params are appended to its translation
+ */
+export function describeError(t: Translations, { code, params = {} }: ErrorPayload): string {
+  const text = t.errors[code];
+  switch (code) {
+    case ErrorCode.RATE_LIMITED:
+      return `${text} ${Math.ceil(Number(params.retryAfterMs ?? 0) / 1000)}s`;
+    case ErrorCode.ROOM_FULL:
+      return `${text}: ${params.code} (${params.maxPlayers}/${params.maxPlayers})`;
+    case ErrorCode.NO_FREE_SEATS:
+      return `${text} (${params.maxPlayers}/${params.maxPlayers})`;
+    case ErrorCode.NOT_ENOUGH_PLAYERS:
+      return `${text} ${params.min}`;
+    case ErrorCode.MAX_PLAYERS_BELOW_SEATED:
+      return `${text} ${params.seated}`;
+    default:
+      // Errors about a specific room name it
+      return params.code !== undefined ? `${text}: ${params.code}` : text;
+  }
+}
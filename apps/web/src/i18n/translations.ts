@@ -6,6 +6,8 @@
  * Future: English (en) and other languages can be added
  */
 
+import type { BotDifficulty, BotPersonality, ErrorCode } from '@acme/shared';
+
 export type Language = 'es' | 'en';
 
 export interface Translations {
@@ -50,7 +52,15 @@ export interface Translations {
     join: string;
     roomCodePlaceholder: string;
     leaveRoom: string;
-    codeCopied: string;
+    copyInviteLink: string;
+    inviteLinkCopied: string;
+    passwordPlaceholder: string;
+    passwordProtected: string;
+    closedIdle: string;
+    spectate: string;
+    spectateHint: string;
+    takeSeat: string;
+    takeSeatForRematch: string;
   };
 
   // Game
@@ -67,6 +77,8 @@ export interface Translations {
     needAtLeast2Players: string;
     playersNotReady: string;
     playerNotReady: string;
+    seed: string;
+    seedPlaceholder: string;
     howToPlay: string;
     howToPlaySteps: {
       turnBased: {
@@ -108,6 +120,10 @@ export interface Translations {
     notReady: string;
     waitingForFinalClaim: string;
     spectator: string;
+    reconnecting: string;
+    latency: string;
+    spectators: string;
+    spectating: string;
   };
 
   // Deck
@@ -132,6 +148,148 @@ export interface Translations {
     card: string;
   };
 
+  // Bots (solo mode)
+  bots: {
+    count: string;
+    addBot: string;
+    removeBot: string;
+    difficulty: string;
+    personality: string;
+    difficulties: Record<BotDifficulty, string>;
+    personalities: Record<BotPersonality, string>;
+  };
+
+  // House rules
+  settings: {
+    title: string;
+    claimWindow: string;
+    maxPlayers: string;
+    cardsPerKind: string;
+    specials: string;
+    falseSlapPenalty: string;
+    falseSlapWholePile: string;
+    falseSlapFixed: string;
+    falseSlapCards: string;
+    allClaimedPenalty: string;
+    allClaimedLastClaimer: string;
+    allClaimedDiscard: string;
+    requireFinalClaim: string;
+    isPublic: string;
+    deckTotal: string;
+    hostOnly: string;
+  };
+
+  // Replay
+  replay: {
+    watchReplay: string;
+    title: string;
+    game: string;
+    loading: string;
+    loadFailed: string;
+    noGames: string;
+    previous: string;
+    next: string;
+    play: string;
+    pause: string;
+    close: string;
+    cards: string;
+    statuses: {
+      active: string;
+      pendingExit: string;
+      out: string;
+    };
+    events: {
+      deal: string;
+      flip: string;
+      claimOpen: string;
+      claimAttempt: string;
+      falseSlap: string;
+      claimResolved: string;
+      seatFilled: string;
+      end: string;
+    };
+  };
+
+  // End-of-game summary
+  summary: {
+    title: string;
+    cardsTaken: string;
+    gestures: string;
+    fastestClaim: string;
+    slowestClaimer: string;
+    mostFalseSlaps: string;
+    longestPile: string;
+    falseSlaps: string;
+    cards: string;
+  };
+
+  // Final placings
+  podium: {
+    title: string;
+    place: string;
+    cardsLeft: string;
+    youFinished: string;
+  };
+
+  // Public lobbies and quick match
+  lobbies: {
+    quickMatch: string;
+    title: string;
+    refresh: string;
+    empty: string;
+    join: string;
+    host: string;
+    quickMatchTag: string;
+    autoStartIn: string;
+  };
+
+  // Host moderation
+  moderation: {
+    kick: string;
+    makeHost: string;
+    lockRoom: string;
+    unlockRoom: string;
+    locked: string;
+    lockedHint: string;
+    kicked: string;
+  };
+
+  // Room chat
+  chat: {
+    title: string;
+    empty: string;
+    placeholder: string;
+    send: string;
+  };
+
+  // Server ERROR codes (see i18n/errors.ts for how params are appended)
+  errors: Record<ErrorCode, string>;
+
+  // Player stats
+  stats: {
+    myStats: string;
+    title: string;
+    close: string;
+    loading: string;
+    loadFailed: string;
+    noGames: string;
+    nickname: string;
+    claimNickname: string;
+    nicknameHint: string;
+    nicknameTaken: string;
+    nicknameInvalid: string;
+    nicknameNeedsGame: string;
+    nicknameForbidden: string;
+    gamesPlayed: string;
+    wins: string;
+    losses: string;
+    averagePlacement: string;
+    averageReaction: string;
+    falseSlaps: string;
+    gestureSuccessRate: string;
+    fastestGestures: string;
+  };
+
   // Gestures
   gestures: {
     clickFrenzy: {
@@ -195,7 +353,15 @@ const translations: Record<Language, Translations> = {
       join: 'Unirse',
       roomCodePlaceholder: 'Código de sala',
       leaveRoom: 'Salir de Sala',
-      codeCopied: '¡Código copiado!',
+      copyInviteLink: 'Click para copiar el enlace de invitación',
+      inviteLinkCopied: '¡Enlace de invitación copiado!',
+      passwordPlaceholder: 'Contraseña (opcional)',
+      passwordProtected: 'Sala con contraseña',
+      closedIdle: 'Se cerró por inactividad la sala',
+      spectate: 'Mirar',
+      spectateHint: 'Mira la partida sin jugar',
+      takeSeat: 'Tomar asiento',
+      takeSeatForRematch: 'Jugar la revancha',
     },
     game: {
       gameInProgress: '🎮 Partida en Curso',
@@ -218,6 +384,8 @@ const translations: Record<Language, Translations> = {
       needAtLeast2Players: 'Se necesitan al menos 2 jugadores para empezar',
       playersNotReady: 'jugadores no están listos',
       playerNotReady: 'jugador no está listo',
+      seed: 'Semilla',
+      seedPlaceholder: 'Semilla (opcional, para repetir un reparto)',
       howToPlay: '🎮 Cómo jugar',
       howToPlaySteps: {
         turnBased: {
@@ -257,6 +425,10 @@ const translations: Record<Language, Translations> = {
       notReady: '○ No Listo',
       waitingForFinalClaim: '⏳ Esperando claim final para salir',
       spectator: '👁️ Espectador',
+      reconnecting: 'Reconectando...',
+      latency: 'Latencia',
+      spectators: 'Espectadores',
+      spectating: 'Estás mirando esta partida',
     },
     deck: {
       touchToPlay: '¡Tócame para jugar tu próxima carta!',
@@ -276,6 +448,168 @@ const translations: Record<Language, Translations> = {
       cards: 'cartas',
       card: 'carta',
     },
+    bots: {
+      count: 'Número de bots',
+      addBot: 'Añadir bot',
+      removeBot: 'Quitar bot',
+      difficulty: 'Dificultad del bot',
+      personality: 'Personalidad',
+      difficulties: {
+        easy: 'Fácil',
+        normal: 'Normal',
+        hard: 'Difícil',
+        insane: 'Imposible',
+      },
+      personalities: {
+        balanced: 'Equilibrado',
+        cautious: 'Prudente',
+        trigger_happy: 'Impulsivo',
+        slow_gesturer: 'Lento con los gestos',
+      },
+    },
+    settings: {
+      title: 'Reglas de la casa',
+      claimWindow: 'Ventana de claim (segundos)',
+      maxPlayers: 'Máximo de jugadores',
+      cardsPerKind: 'Cartas por tipo',
+      specials: 'Especiales',
+      falseSlapPenalty: 'Claim en falso',
+      falseSlapWholePile: 'Se lleva toda la pila',
+      falseSlapFixed: 'Se lleva algunas cartas',
+      falseSlapCards: 'Cartas por claim en falso',
+      allClaimedPenalty: 'Si todos reclaman',
+      allClaimedLastClaimer: 'El último se lleva la pila',
+      allClaimedDiscard: 'La pila se descarta',
+      requireFinalClaim: 'Último claim obligatorio para salir',
+      isPublic: 'Sala pública (aparece en la lista de salas)',
+      deckTotal: 'Cartas en el mazo',
+      hostOnly: 'Solo el host puede cambiar las reglas',
+    },
+    replay: {
+      watchReplay: 'Ver repetición',
+      title: 'Repetición',
+      game: 'Partida',
+      loading: 'Cargando repetición...',
+      loadFailed: 'No se pudo cargar la repetición',
+      noGames: 'Todavía no hay partidas terminadas',
+      previous: 'Anterior',
+      next: 'Siguiente',
+      play: 'Reproducir',
+      pause: 'Pausa',
+      close: 'Cerrar',
+      cards: 'cartas',
+      statuses: {
+        active: 'en juego',
+        pendingExit: 'sin cartas',
+        out: 'fuera',
+      },
+      events: {
+        deal: 'Se reparten las cartas',
+        flip: 'tira y dice',
+        claimOpen: '¡Coincidencia! Se abre la ventana de reclamo',
+        claimAttempt: 'reclama',
+        falseSlap: 'reclama por error y se lleva',
+        claimResolved: 'Se reparte la pila',
+        seatFilled: 'toma el asiento de',
+        end: 'Fin de la partida',
+      },
+    },
+    summary: {
+      title: 'Resumen de la partida',
+      cardsTaken: 'cartas recogidas',
+      gestures: 'gestos',
+      fastestClaim: 'Claim más rápido',
+      slowestClaimer: 'El más lento',
+      mostFalseSlaps: 'Más claims en falso',
+      longestPile: 'Pila más grande',
+      falseSlaps: 'en falso',
+      cards: 'cartas',
+    },
+    podium: {
+      title: 'Podio',
+      place: 'Puesto',
+      cardsLeft: 'cartas en mano',
+      youFinished: 'Terminaste en el puesto',
+    },
+    lobbies: {
+      quickMatch: '⚡ Partida rápida',
+      title: 'Salas públicas',
+      refresh: 'Actualizar',
+      empty: 'No hay salas públicas abiertas',
+      join: 'Unirse',
+      host: 'Anfitrión',
+      quickMatchTag: 'Partida rápida',
+      autoStartIn: 'La partida empieza sola en',
+    },
+    moderation: {
+      kick: 'Expulsar',
+      makeHost: 'Hacer anfitrión',
+      lockRoom: 'Bloquear sala',
+      unlockRoom: 'Desbloquear sala',
+      locked: 'Bloqueada',
+      lockedHint: 'Nadie nuevo puede unirse ni mirar la sala',
+      kicked: 'El anfitrión te expulsó de la sala',
+    },
+    chat: {
+      title: 'Chat',
+      empty: 'Todavía no hay mensajes',
+      placeholder: 'Escribe un mensaje...',
+      send: 'Enviar',
+    },
+    errors: {
+      INVALID_PAYLOAD: 'Petición no válida',
+      RATE_LIMITED: 'Demasiadas acciones seguidas, espera',
+      ROOM_QUOTA_EXCEEDED: 'Tienes demasiadas salas abiertas, cierra alguna primero',
+      BOTS_UNAVAILABLE: 'Los bots no están disponibles ahora mismo',
+      ROOM_NOT_FOUND: 'No existe la sala',
+      ROOM_FULL: 'Sala llena',
+      ROOM_LOCKED: 'El anfitrión bloqueó la sala',
+      WRONG_PASSWORD: 'Contraseña incorrecta para la sala',
+      BANNED: 'Te expulsaron hace poco de la sala',
+      SPECTATORS_FULL: 'Demasiados espectadores en la sala',
+      ALREADY_IN_ROOM: 'Ya estás en la sala',
+      SESSION_EXPIRED: 'Tu sesión caducó, no puedes volver a la sala',
+      NOT_IN_ROOM: 'No estás en ninguna sala',
+      NOT_A_SPECTATOR: 'Solo los espectadores pueden sentarse',
+      NOT_HOST: 'Solo el anfitrión puede hacer esto',
+      NOT_IN_LOBBY: 'Solo se puede hacer en el lobby',
+      NO_FREE_SEATS: 'No quedan asientos libres',
+      INVALID_SETTINGS: 'Reglas no válidas',
+      MAX_PLAYERS_BELOW_SEATED: 'El máximo de jugadores no puede ser menor que los sentados:',
+      INVALID_TARGET: 'No puedes hacer esto con ese jugador',
+      NOT_ENOUGH_PLAYERS: 'Jugadores mínimos para empezar:',
+      PLAYERS_NOT_READY: 'Todos los jugadores deben estar listos',
+      GAME_ALREADY_STARTED: 'La partida ya ha empezado',
+      GAME_NOT_ENDED: 'La partida aún no ha terminado',
+      GAME_NOT_IN_PROGRESS: 'No hay ninguna partida en curso',
+      NOT_PLAYING: 'No estás jugando esta ronda',
+      NOT_YOUR_TURN: 'No es tu turno',
+      CLAIM_IN_PROGRESS: 'Espera a que se resuelva la coincidencia',
+      INVALID_GESTURE: 'El gesto no es válido',
+    },
+    stats: {
+      myStats: 'Mis estadísticas',
+      title: 'Estadísticas',
+      close: 'Cerrar',
+      loading: 'Cargando estadísticas...',
+      loadFailed: 'No se pudieron cargar las estadísticas',
+      noGames: 'Todavía no terminaste ninguna partida',
+      nickname: 'Apodo',
+      claimNickname: 'Reservar',
+      nicknameHint: 'El apodo es único: nadie más puede reservarlo. Se guarda en este navegador.',
+      nicknameTaken: 'Ese apodo ya está reservado',
+      nicknameInvalid: 'El apodo debe tener entre 2 y 20 caracteres',
+      nicknameNeedsGame: 'Termina una partida antes de reservar un apodo',
+      nicknameForbidden: 'El apodo de este perfil se reservó desde otro navegador',
+      gamesPlayed: 'Partidas jugadas',
+      wins: 'Victorias',
+      losses: 'Derrotas',
+      averagePlacement: 'Puesto medio',
+      averageReaction: 'Reacción media',
+      falseSlaps: 'Claims en falso',
+      gestureSuccessRate: 'Gestos completados',
+      fastestGestures: 'Gesto más rápido',
+    },
     gestures: {
       clickFrenzy: {
         completed: '¡Completado!',
@@ -336,7 +670,15 @@ const translations: Record<Language, Translations> = {
       join: 'Join',
       roomCodePlaceholder: 'Room code',
       leaveRoom: 'Leave Room',
-      codeCopied: 'Code copied!',
+      copyInviteLink: 'Click to copy the invite link',
+      inviteLinkCopied: 'Invite link copied!',
+      passwordPlaceholder: 'Password (optional)',
+      passwordProtected: 'Password-protected room',
+      closedIdle: 'Closed for inactivity: room',
+      spectate: 'Watch',
+      spectateHint: 'Watch the game without playing',
+      takeSeat: 'Take a seat',
+      takeSeatForRematch: 'Join the rematch',
     },
     game: {
       gameInProgress: '🎮 Game In Progress',
@@ -359,6 +701,8 @@ const translations: Record<Language, Translations> = {
       needAtLeast2Players: 'Need at least 2 players to start',
       playersNotReady: 'player(s) not ready',
       playerNotReady: 'player not ready',
+      seed: 'Seed',
+      seedPlaceholder: 'Seed (optional, to replay a deal)',
       howToPlay: '🎮 How to Play',
       howToPlaySteps: {
         turnBased: {
@@ -398,6 +742,10 @@ const translations: Record<Language, Translations> = {
       notReady: '○ Not Ready',
       waitingForFinalClaim: '⏳ Waiting for final claim to exit',
       spectator: '👁️ Spectator',
+      reconnecting: 'Reconnecting...',
+      latency: 'Latency',
+      spectators: 'Spectators',
+      spectating: 'You are watching this game',
     },
     deck: {
       touchToPlay: 'Touch me to play your next card!',
@@ -417,6 +765,168 @@ const translations: Record<Language, Translations> = {
       cards: 'cards',
       card: 'card',
     },
+    bots: {
+      count: 'Number of bots',
+      addBot: 'Add bot',
+      removeBot: 'Remove bot',
+      difficulty: 'Bot difficulty',
+      personality: 'Personality',
+      difficulties: {
+        easy: 'Easy',
+        normal: 'Normal',
+        hard: 'Hard',
+        insane: 'Insane',
+      },
+      personalities: {
+        balanced: 'Balanced',
+        cautious: 'Cautious',
+        trigger_happy: 'Trigger-happy',
+        slow_gesturer: 'Slow gesturer',
+      },
+    },
+    settings: {
+      title: 'House rules',
+      claimWindow: 'Claim window (seconds)',
+      maxPlayers: 'Max players',
+      cardsPerKind: 'Cards per kind',
+      specials: 'Specials',
+      falseSlapPenalty: 'False slap',
+      falseSlapWholePile: 'Takes the whole pile',
+      falseSlapFixed: 'Takes a few cards',
+      falseSlapCards: 'Cards per false slap',
+      allClaimedPenalty: 'If everyone claims',
+      allClaimedLastClaimer: 'Slowest takes the pile',
+      allClaimedDiscard: 'Pile is discarded',
+      requireFinalClaim: 'Final claim required to get out',
+      isPublic: 'Public room (shown in the room list)',
+      deckTotal: 'Cards in the deck',
+      hostOnly: 'Only the host can change the rules',
+    },
+    replay: {
+      watchReplay: 'Watch replay',
+      title: 'Replay',
+      game: 'Game',
+      loading: 'Loading replay...',
+      loadFailed: 'Could not load the replay',
+      noGames: 'No finished games yet',
+      previous: 'Previous',
+      next: 'Next',
+      play: 'Play',
+      pause: 'Pause',
+      close: 'Close',
+      cards: 'cards',
+      statuses: {
+        active: 'playing',
+        pendingExit: 'no cards left',
+        out: 'out',
+      },
+      events: {
+        deal: 'Cards are dealt',
+        flip: 'flips and says',
+        claimOpen: 'Match! The claim window opens',
+        claimAttempt: 'claims',
+        falseSlap: 'false-slaps and takes',
+        claimResolved: 'The pile is handed out',
+        seatFilled: 'takes the seat of',
+        end: 'Game over',
+      },
+    },
+    summary: {
+      title: 'Game summary',
+      cardsTaken: 'cards taken',
+      gestures: 'gestures',
+      fastestClaim: 'Fastest claim',
+      slowestClaimer: 'Slowest claimer',
+      mostFalseSlaps: 'Most false slaps',
+      longestPile: 'Biggest pile',
+      falseSlaps: 'false slaps',
+      cards: 'cards',
+    },
+    podium: {
+      title: 'Podium',
+      place: 'Place',
+      cardsLeft: 'cards in hand',
+      youFinished: 'You finished in place',
+    },
+    lobbies: {
+      quickMatch: '⚡ Quick match',
+      title: 'Public rooms',
+      refresh: 'Refresh',
+      empty: 'No open public rooms',
+      join: 'Join',
+      host: 'Host',
+      quickMatchTag: 'Quick match',
+      autoStartIn: 'The game starts on its own in',
+    },
+    moderation: {
+      kick: 'Kick',
+      makeHost: 'Make host',
+      lockRoom: 'Lock room',
+      unlockRoom: 'Unlock room',
+      locked: 'Locked',
+      lockedHint: 'Nobody new can join or watch the room',
+      kicked: 'The host kicked you from room',
+    },
+    chat: {
+      title: 'Chat',
+      empty: 'No messages yet',
+      placeholder: 'Type a message...',
+      send: 'Send',
+    },
+    errors: {
+      INVALID_PAYLOAD: 'Invalid request',
+      RATE_LIMITED: 'Too many actions in a row, wait',
+      ROOM_QUOTA_EXCEEDED: 'You have too many open rooms, close one first',
+      BOTS_UNAVAILABLE: 'Bots are not available right now',
+      ROOM_NOT_FOUND: 'Room not found',
+      ROOM_FULL: 'Room full',
+      ROOM_LOCKED: 'The host locked the room',
+      WRONG_PASSWORD: 'Wrong password for room',
+      BANNED: 'You were kicked from this room recently',
+      SPECTATORS_FULL: 'Too many spectators in room',
+      ALREADY_IN_ROOM: 'You are already in room',
+      SESSION_EXPIRED: 'Your session expired, you cannot go back to room',
+      NOT_IN_ROOM: 'You are not in a room',
+      NOT_A_SPECTATOR: 'Only spectators can take a seat',
+      NOT_HOST: 'Only the host can do this',
+      NOT_IN_LOBBY: 'This can only be done in the lobby',
+      NO_FREE_SEATS: 'No free seats left',
+      INVALID_SETTINGS: 'Invalid rules',
+      MAX_PLAYERS_BELOW_SEATED: 'Max players cannot be below the seated players:',
+      INVALID_TARGET: 'You cannot do this to that player',
+      NOT_ENOUGH_PLAYERS: 'Minimum players to start:',
+      PLAYERS_NOT_READY: 'All players must be ready',
+      GAME_ALREADY_STARTED: 'The game has already started',
+      GAME_NOT_ENDED: 'The game has not ended yet',
+      GAME_NOT_IN_PROGRESS: 'No game in progress',
+      NOT_PLAYING: 'You are not playing this round',
+      NOT_YOUR_TURN: "It's not your turn",
+      CLAIM_IN_PROGRESS: 'Wait for the match to be resolved',
+      INVALID_GESTURE: 'The gesture was not valid',
+    },
+    stats: {
+      myStats: 'My stats',
+      title: 'Stats',
+      close: 'Close',
+      loading: 'Loading stats...',
+      loadFailed: 'Could not load stats',
+      noGames: 'You have not finished a game yet',
+      nickname: 'Nickname',
+      claimNickname: 'Claim',
+      nicknameHint: 'Nicknames are unique: nobody else can claim yours. It is kept in this browser.',
+      nicknameTaken: 'That nickname is already taken',
+      nicknameInvalid: 'Nicknames must be 2 to 20 characters long',
+      nicknameNeedsGame: 'Finish a game before claiming a nickname',
+      nicknameForbidden: "This profile's nickname was claimed from another browser",
+      gamesPlayed: 'Games played',
+      wins: 'Wins',
+      losses: 'Losses',
+      averagePlacement: 'Average place',
+      averageReaction: 'Average reaction',
+      falseSlaps: 'False slaps',
+      gestureSuccessRate: 'Gestures completed',
+      fastestGestures: 'Fastest gesture',
+    },
     gestures: {
       clickFrenzy: {
         completed: 'Completed!',
@@ -0,0 +1,66 @@
+/**
+ * Profile Manager - Remembers this browser's guest profile
+ *
+ * Handles:
+ * - Generating a guest id once and persisting it to localStorage (shared by all tabs)
+ * - Remembering the nickname claimed for it, to prefill the name field
+ * - Keeping the secret the server issued with the first nickname claim (needed to change it)
+ */
+
+const STORAGE_KEY = 'taco-game-profile';
+
+export interface GuestProfile {
+  guestId: string;
+  nickname?: string;
+  profileSecret?: string;
+}
+
+/**
+ * Random v4 UUID (crypto.randomUUID is missing outside secure contexts, e.g. LAN http)
+ */
+function generateGuestId(): string {
+  if (typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  bytes[6] = (bytes[6] & 0x0f) | 0x40;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  const hex = Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+/**
+ * Load the guest profile, creating it on first use
+ */
+export function loadProfile(): GuestProfile | null {
+  if (typeof window === 'undefined') return null;
+
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored) as Partial<GuestProfile>;
+      if (parsed.guestId) {
+        return parsed as GuestProfile;
+      }
+    }
+  } catch (error) {
+    console.warn('[ProfileManager] Failed to load profile from localStorage:', error);
+  }
+
+  const profile: GuestProfile = { guestId: generateGuestId() };
+  saveProfile(profile);
+  return profile;
+}
+
+/**
+ * Save the guest profile
+ */
+export function saveProfile(profile: GuestProfile): void {
+  if (typeof window === 'undefined') return;
+
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(profile));
+  } catch (error) {
+    console.warn('[ProfileManager] Failed to save profile to localStorage:', error);
+  }
+}
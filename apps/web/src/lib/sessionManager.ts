@@ -0,0 +1,56 @@
+/**
+ * Session Manager - Remembers the seat this tab holds in a room
+ *
+ * Handles:
+ * - Persisting the session token issued by the server to sessionStorage
+ * - Reading it back after a socket reconnect or page reload so the client can rejoin
+ */
+
+import type { SessionPayload } from '@acme/shared';
+
+const STORAGE_KEY = 'taco-game-session';
+
+/**
+ * Load the stored session, if any
+ */
+export function loadSession(): SessionPayload | null {
+  if (typeof window === 'undefined') return null;
+
+  try {
+    const stored = sessionStorage.getItem(STORAGE_KEY);
+    if (!stored) return null;
+    const parsed = JSON.parse(stored) as Partial<SessionPayload>;
+    if (parsed.code && parsed.playerId && parsed.sessionToken) {
+      return parsed as SessionPayload;
+    }
+  } catch (error) {
+    console.warn('[SessionManager] Failed to load session from sessionStorage:', error);
+  }
+  return null;
+}
+
+/**
+ * Save the session issued by the server
+ */
+export function saveSession(session: SessionPayload): void {
+  if (typeof window === 'undefined') return;
+
+  try {
+    sessionStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+  } catch (error) {
+    console.warn('[SessionManager] Failed to save session to sessionStorage:', error);
+  }
+}
+
+/**
+ * Forget the stored session (after leaving or when the server rejects it)
+ */
+export function clearSession(): void {
+  if (typeof window === 'undefined') return;
+
+  try {
+    sessionStorage.removeItem(STORAGE_KEY);
+  } catch (error) {
+    console.warn('[SessionManager] Failed to clear session from sessionStorage:', error);
+  }
+}
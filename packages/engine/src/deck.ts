@@ -0,0 +1,94 @@
+import { BG_COLORS, KINDS, type Card, type RoomSettings, type SpecialType } from "@acme/shared";
+
+/**
+ * Shuffles an array using Fisher-Yates algorithm
+ */
+export function shuffleArray<T>(array: T[], random: () => number): T[] {
+  const shuffled = [...array];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+/**
+ * Generates a shuffled deck from the room settings
+ * With the default settings this is the classic 64 cards (55 normal + 9 special)
+ * Card ids are `<gameId>-<n>`, unique across games as long as game ids are
+ */
+export function generateDeck(random: () => number, settings: RoomSettings, gameId: string): Card[] {
+  const deck: Card[] = [];
+  const nextId = () => `${gameId}-${deck.length}`;
+
+  // One style3 card per kind, the rest split between style1 and style2
+  const style1Count = Math.ceil((settings.cardsPerKind - 1) / 2);
+  const style2Count = settings.cardsPerKind - 1 - style1Count;
+
+  // Generate normal cards (cardsPerKind per kind, 11 by default)
+  for (const kind of KINDS) {
+    // 1 card with style3 (rare)
+    const bgColorStyle3 = BG_COLORS[Math.floor(random() * BG_COLORS.length)];
+    deck.push({
+      id: nextId(),
+      type: "NORMAL",
+      word: kind,
+      visual: {
+        kind,
+        style: "style3",
+        bgColor: bgColorStyle3,
+      },
+    });
+
+    // Cards with style1 (5 by default)
+    for (let i = 0; i < style1Count; i++) {
+      const bgColor = BG_COLORS[i % BG_COLORS.length]; // Cycle through colors
+      deck.push({
+        id: nextId(),
+        type: "NORMAL",
+        word: kind,
+        visual: {
+          kind,
+          style: "style1",
+          bgColor,
+        },
+      });
+    }
+
+    // Cards with style2 (5 by default)
+    for (let i = 0; i < style2Count; i++) {
+      const bgColor = BG_COLORS[(i + 2) % BG_COLORS.length]; // Offset cycle
+      deck.push({
+        id: nextId(),
+        type: "NORMAL",
+        word: kind,
+        visual: {
+          kind,
+          style: "style2",
+          bgColor,
+        },
+      });
+    }
+  }
+
+  // Generate special cards (3 of each type by default)
+  const specialTypes: SpecialType[] = ["SPECIAL_1", "SPECIAL_2", "SPECIAL_3"];
+  for (const specialType of specialTypes) {
+    for (let i = 0; i < settings.specialsPerType[specialType]; i++) {
+      const bgColor = BG_COLORS[i % BG_COLORS.length];
+      deck.push({
+        id: nextId(),
+        type: "SPECIAL",
+        word: "special",
+        visual: {
+          kind: "special",
+          bgColor,
+          specialType,
+        },
+      });
+    }
+  }
+
+  // Shuffle the deck
+  return shuffleArray(deck, random);
+}
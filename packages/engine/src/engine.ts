@@ -0,0 +1,786 @@
+import {
+  ErrorCode,
+  KINDS,
+  validateGestureProof,
+  type Card,
+  type ErrorParams,
+  type ErrorPayload,
+  type GameLogEvent,
+  type GestureProof,
+  type GestureType,
+  type PlayerGameStatus,
+  type SpecialType,
+} from "@acme/shared";
+import { generateDeck } from "./deck";
+import { BOT_RNG_STREAM, createRng, nextRandom } from "./rng";
+import type {
+  ClaimWindow,
+  EngineAction,
+  EngineEffect,
+  EnginePlayer,
+  EngineResult,
+  EngineState,
+  InternalGameState,
+} from "./types";
+
+/**
+ * Players needed to start a game or a rematch
+ */
+export const MIN_PLAYERS = 2;
+
+/**
+ * Copy of the state an action is applied to
+ * Rule helpers mutate it freely; the caller's state is never touched
+ */
+interface Draft<P extends EnginePlayer> {
+  state: EngineState<P>;
+  effects: EngineEffect[];
+  now: number;
+}
+
+type ActiveDraft<P extends EnginePlayer> = Draft<P> & {
+  state: EngineState<P> & { internalGame: InternalGameState };
+};
+
+function fail(code: ErrorCode, params?: ErrorParams): ErrorPayload {
+  return params ? { code, params } : { code };
+}
+
+/**
+ * Copies everything the rules mutate (cards themselves are never modified)
+ */
+function cloneGame(game: InternalGameState): InternalGameState {
+  return {
+    ...game,
+    hands: Object.fromEntries(Object.entries(game.hands).map(([id, hand]) => [id, [...hand]])),
+    pile: [...game.pile],
+    statuses: { ...game.statuses },
+    claim: game.claim && {
+      ...game.claim,
+      claimers: [...game.claim.claimers],
+      claimTimes: { ...game.claim.claimTimes },
+    },
+    finishOrder: game.finishOrder && [...game.finishOrder],
+    placements: game.placements && [...game.placements],
+    rng: { ...game.rng },
+    botRng: { ...game.botRng },
+  };
+}
+
+/**
+ * Applies an action to a room's state
+ * Pure: returns the next state and the effects to carry out (logging, timers), or an error
+ */
+export function reduce<P extends EnginePlayer>(
+  state: EngineState<P>,
+  action: EngineAction,
+  now: number
+): EngineResult<P> {
+  const draft: Draft<P> = {
+    state: {
+      phase: state.phase,
+      players: [...state.players],
+      settings: state.settings,
+      internalGame: state.internalGame && cloneGame(state.internalGame),
+    },
+    effects: [],
+    now,
+  };
+
+  const error = apply(draft, action);
+  if (error) {
+    return { state, effects: [], error };
+  }
+  return { state: draft.state, effects: draft.effects };
+}
+
+function apply<P extends EnginePlayer>(draft: Draft<P>, action: EngineAction): ErrorPayload | undefined {
+  switch (action.type) {
+    case "START":
+      return start(draft, action.seed, action.gameId);
+    case "LEAVE":
+      return leave(draft, action.playerId);
+  }
+
+  if (!isInGame(draft)) {
+    // A timer firing after the game ended has nothing left to do
+    return action.type === "CLOSE_CLAIM" ? undefined : fail(ErrorCode.GAME_NOT_IN_PROGRESS);
+  }
+
+  switch (action.type) {
+    case "FLIP":
+      return flip(draft, action.playerId);
+    case "CLAIM":
+      return claim(draft, action.playerId, action.claimId, action.proof, action.claimedAt);
+    case "CLOSE_CLAIM":
+      // Windows that closed early (everyone claimed, false slap) have already been resolved
+      if (draft.state.internalGame.claim?.id === action.claimId) {
+        resolveClaim(draft);
+      }
+      return undefined;
+    case "SKIP_TURN":
+      return skipTurn(draft, action.playerId);
+  }
+}
+
+function isInGame<P extends EnginePlayer>(draft: Draft<P>): draft is ActiveDraft<P> {
+  return draft.state.phase === "IN_GAME" && !!draft.state.internalGame;
+}
+
+/**
+ * Records an event in the running game's log
+ */
+function log<P extends EnginePlayer>(draft: Draft<P>, event: GameLogEvent): void {
+  draft.effects.push({ type: "LOG", event });
+}
+
+/**
+ * Deals a new game
+ */
+function start<P extends EnginePlayer>(draft: Draft<P>, seed: number, gameId: string): ErrorPayload | undefined {
+  const { state, now } = draft;
+  if (state.phase === "IN_GAME") {
+    return fail(ErrorCode.GAME_ALREADY_STARTED);
+  }
+  if (state.players.length < MIN_PLAYERS) {
+    return fail(ErrorCode.NOT_ENOUGH_PLAYERS, { min: MIN_PLAYERS });
+  }
+
+  const rng = createRng(seed);
+
+  // Generate the deck described by the room's house rules
+  const deck = generateDeck(() => nextRandom(rng), state.settings, gameId);
+
+  // Distribute cards evenly to players (round-robin)
+  const hands: Record<string, Card[]> = {};
+  state.players.forEach((player) => {
+    hands[player.id] = [];
+  });
+
+  // Round-robin distribution - distribute all cards evenly
+  let playerIndex = 0;
+  for (const card of deck) {
+    const playerId = state.players[playerIndex].id;
+    hands[playerId].push(card);
+    playerIndex = (playerIndex + 1) % state.players.length;
+  }
+
+  // Initialize all players as ACTIVE
+  const statuses: Record<string, PlayerGameStatus> = {};
+  state.players.forEach((player) => {
+    statuses[player.id] = "ACTIVE";
+  });
+
+  state.phase = "IN_GAME";
+  state.internalGame = {
+    gameId,
+    hands,
+    pile: [],
+    turnIndex: 0,
+    wordIndex: 0, // Start at "taco" (index 0)
+    statuses,
+    claimCount: 0,
+    finishOrder: [],
+    rng,
+    botRng: createRng(seed, BOT_RNG_STREAM),
+  };
+
+  draft.effects.push({ type: "GAME_STARTED", seed, at: now });
+  log(draft, {
+    type: "DEAL",
+    at: now,
+    seed,
+    handCounts: Object.fromEntries(Object.entries(hands).map(([id, hand]) => [id, hand.length])),
+  });
+  return undefined;
+}
+
+/**
+ * Removes a seat; mid-game its hand is lost and the turn moves on if needed
+ */
+function leave<P extends EnginePlayer>(draft: Draft<P>, playerId: string): ErrorPayload | undefined {
+  const { state } = draft;
+  const playerIndex = state.players.findIndex((p) => p.id === playerId);
+  if (playerIndex === -1) {
+    return fail(ErrorCode.NOT_IN_ROOM);
+  }
+  state.players = state.players.filter((p) => p.id !== playerId);
+
+  if (!isInGame(draft)) {
+    return undefined;
+  }
+  const game = draft.state.internalGame;
+
+  // Remove player's hand (cards are lost) and status
+  delete game.hands[playerId];
+  delete game.statuses[playerId];
+
+  // If the leaving player was before or at the current turn index, adjust
+  if (playerIndex <= game.turnIndex && state.players.length > 0) {
+    const nextIndex = findNextPlayerWithCards(draft, game.turnIndex % state.players.length);
+    if (nextIndex !== null) {
+      game.turnIndex = nextIndex;
+    }
+  }
+
+  // Update player statuses and check end game
+  updatePlayerStatuses(draft);
+  checkEndGame(draft);
+
+  // If less than 2 players remain, end game
+  if (state.players.length < MIN_PLAYERS) {
+    if (state.phase === "IN_GAME") {
+      endGame(draft);
+    }
+    state.phase = "ENDED";
+    discardGame(draft);
+  }
+  return undefined;
+}
+
+/**
+ * Turns over the current player's top card
+ */
+function flip<P extends EnginePlayer>(draft: ActiveDraft<P>, playerId: string): ErrorPayload | undefined {
+  const { state, now } = draft;
+  const game = state.internalGame;
+
+  // Cannot flip if claim is active
+  if (game.claim) {
+    return fail(ErrorCode.CLAIM_IN_PROGRESS);
+  }
+
+  // Check if player is OUT or PENDING_EXIT (cannot flip)
+  const playerStatus = game.statuses[playerId] || "ACTIVE";
+  if (playerStatus === "OUT" || playerStatus === "PENDING_EXIT") {
+    return fail(ErrorCode.NOT_PLAYING);
+  }
+
+  // Validate it's the player's turn
+  const currentPlayer = state.players[game.turnIndex];
+  if (!currentPlayer || currentPlayer.id !== playerId) {
+    return fail(ErrorCode.NOT_YOUR_TURN);
+  }
+
+  // Check if player has cards
+  const playerHand = game.hands[playerId];
+  if (!playerHand || playerHand.length === 0) {
+    // Skip this player's turn
+    const nextIndex = findNextPlayerWithCards(draft, (game.turnIndex + 1) % state.players.length);
+    if (nextIndex === null) {
+      // No players with cards, end game
+      endGame(draft);
+      discardGame(draft);
+      return undefined;
+    }
+    game.turnIndex = nextIndex;
+    return undefined;
+  }
+
+  // Capture pile size BEFORE adding the card
+  const pileSizeBeforeFlip = game.pile.length;
+
+  // Take card from front of hand and add to pile
+  const card = playerHand.shift();
+  if (!card) {
+    return fail(ErrorCode.NOT_PLAYING);
+  }
+
+  game.pile.push(card);
+
+  // Store who performed this flip (for UI animations)
+  game.lastFlipPlayerId = playerId;
+
+  // Calculate spoken word for this flip based on pile size BEFORE flip
+  // This ensures the word matches what was "said" when flipping
+  const spokenWordForThisFlip = KINDS[pileSizeBeforeFlip % KINDS.length];
+
+  log(draft, {
+    type: "FLIP",
+    at: now,
+    playerId,
+    card,
+    spokenWord: spokenWordForThisFlip,
+    pileCount: game.pile.length,
+  });
+
+  // Check if match triggers claim window
+  const isMatch =
+    card.type === "SPECIAL" || (card.type === "NORMAL" && card.word === spokenWordForThisFlip);
+
+  if (isMatch) {
+    // Open claim window (pass card to determine gesture type if SPECIAL)
+    openClaimWindow(draft, card.type === "SPECIAL" ? "SPECIAL" : "MATCH", card);
+  }
+
+  // Always synchronize wordIndex with pile length (NEXT word for UI)
+  // wordIndex represents the word that will be "said" in the next flip
+  game.wordIndex = game.pile.length % KINDS.length;
+
+  // Update player statuses based on hand counts
+  updatePlayerStatuses(draft);
+
+  // Advance turn index to next player with cards (if no claim opened)
+  if (!game.claim) {
+    const nextIndex = findNextPlayerWithCards(draft, (game.turnIndex + 1) % state.players.length);
+    if (nextIndex === null) {
+      checkEndGame(draft);
+      return undefined;
+    }
+    game.turnIndex = nextIndex;
+  }
+  return undefined;
+}
+
+/**
+ * Handles a slap
+ * Claims on a gesture window are rejected (INVALID_GESTURE) unless they carry a valid gesture proof
+ */
+function claim<P extends EnginePlayer>(
+  draft: ActiveDraft<P>,
+  playerId: string,
+  claimId: string | undefined,
+  proof: GestureProof | undefined,
+  claimedAt: number | undefined
+): ErrorPayload | undefined {
+  const { state, now } = draft;
+  const game = state.internalGame;
+
+  // Only players dealt into the game can claim (not spectators), and OUT players cannot
+  if (!(playerId in game.statuses) || game.statuses[playerId] === "OUT") {
+    return fail(ErrorCode.NOT_PLAYING);
+  }
+
+  // CASE C: False slap - no open claim window, or the claimId doesn't match it
+  const window = game.claim;
+  if (!window || now >= window.closesAt || (claimId && window.id !== claimId)) {
+    falseSlap(draft, playerId);
+    return undefined;
+  }
+
+  // Gesture windows need a proof that passes the same checks as the client (bots are trusted)
+  const isBot = state.players.find((p) => p.id === playerId)?.isBot;
+  if (window.gestureType && !isBot && !window.claimers.includes(playerId)) {
+    if (
+      !proof ||
+      proof.type !== window.gestureType ||
+      !validateGestureProof(window.id, window.closesAt - window.opensAt, proof)
+    ) {
+      return fail(ErrorCode.INVALID_GESTURE);
+    }
+  }
+
+  // Valid claim - add player to claimers if not already there
+  if (window.claimers.includes(playerId)) {
+    return undefined;
+  }
+
+  // Never earlier than the window opened, never later than now
+  const at = Math.min(now, Math.max(window.opensAt, claimedAt ?? now));
+  insertClaimer(window, playerId, at);
+  log(draft, {
+    type: "CLAIM_ATTEMPT",
+    at: now,
+    claimId: window.id,
+    playerId,
+    claimedAt: at,
+  });
+
+  // If all active participants have claimed, resolve immediately
+  const allClaimed = state.players
+    .filter((p) => game.statuses[p.id] !== "OUT")
+    .every((p) => window.claimers.includes(p.id));
+  if (allClaimed) {
+    resolveClaim(draft);
+  }
+  return undefined;
+}
+
+/**
+ * Slap with no claim to join: the player takes the pile, or the top falseSlapCards cards (house rule)
+ */
+function falseSlap<P extends EnginePlayer>(draft: ActiveDraft<P>, playerId: string): void {
+  const { state, now } = draft;
+  const game = state.internalGame;
+
+  const cardsTaken =
+    state.settings.falseSlapPenalty === "FIXED"
+      ? Math.min(state.settings.falseSlapCards, game.pile.length)
+      : game.pile.length;
+
+  log(draft, { type: "FALSE_SLAP", at: now, playerId, cardsTaken });
+
+  if (cardsTaken > 0) {
+    const taken = game.pile.splice(game.pile.length - cardsTaken, cardsTaken);
+    game.hands[playerId]?.push(...taken);
+    // Keep the word sequence in step with what is left on the pile
+    game.wordIndex = game.pile.length % KINDS.length;
+  }
+
+  // Update statuses after false slap
+  updatePlayerStatuses(draft);
+
+  // A false slap during an expired window closes it
+  clearClaim(draft);
+
+  checkEndGame(draft);
+}
+
+/**
+ * Passes a disconnected player's turn to the next connected player with cards
+ */
+function skipTurn<P extends EnginePlayer>(draft: ActiveDraft<P>, playerId: string): ErrorPayload | undefined {
+  const { state } = draft;
+  const game = state.internalGame;
+  if (game.claim) {
+    return fail(ErrorCode.CLAIM_IN_PROGRESS);
+  }
+
+  const current = state.players[game.turnIndex];
+  if (current?.id !== playerId || !current.reconnecting) {
+    return fail(ErrorCode.NOT_YOUR_TURN);
+  }
+
+  // Nobody else can play: the turn stays put
+  const nextIndex = findNextPlayerWithCards(draft, (game.turnIndex + 1) % state.players.length, true);
+  if (nextIndex !== null) {
+    game.turnIndex = nextIndex;
+  }
+  return undefined;
+}
+
+/**
+ * Sets a player's game status, logging the change
+ */
+function setStatus<P extends EnginePlayer>(draft: ActiveDraft<P>, playerId: string, status: PlayerGameStatus): void {
+  const game = draft.state.internalGame;
+
+  const from = game.statuses[playerId] || "ACTIVE";
+  game.statuses[playerId] = status;
+  if (from !== status) {
+    log(draft, { type: "STATUS_CHANGE", at: draft.now, playerId, from, to: status });
+  }
+
+  // Remember who got out first for the placings
+  if (status === "OUT") {
+    const finishOrder = (game.finishOrder ??= []);
+    if (!finishOrder.includes(playerId)) {
+      finishOrder.push(playerId);
+    }
+  }
+}
+
+/**
+ * Updates player statuses based on hand counts
+ */
+function updatePlayerStatuses<P extends EnginePlayer>(draft: ActiveDraft<P>): void {
+  const { state } = draft;
+  const game = state.internalGame;
+
+  state.players.forEach((player) => {
+    const handCount = game.hands[player.id]?.length || 0;
+    const currentStatus = game.statuses[player.id] || "ACTIVE";
+
+    // If OUT, stay OUT
+    if (currentStatus === "OUT") {
+      return;
+    }
+
+    // If has cards, must be ACTIVE
+    if (handCount > 0) {
+      setStatus(draft, player.id, "ACTIVE");
+    } else if (state.settings.requireFinalClaim) {
+      // If no cards and not OUT, set to PENDING_EXIT
+      setStatus(draft, player.id, "PENDING_EXIT");
+    } else {
+      // House rule: no final claim needed, out as soon as the hand is empty
+      setStatus(draft, player.id, "OUT");
+    }
+  });
+}
+
+/**
+ * Ends the game once at most one player still in play has cards
+ */
+function checkEndGame<P extends EnginePlayer>(draft: ActiveDraft<P>): void {
+  const { state } = draft;
+  if (state.phase !== "IN_GAME") return;
+  const game = state.internalGame;
+
+  // Participants (players who are not OUT) with cards
+  const aliveWithCards = state.players.filter(
+    (p) => game.statuses[p.id] !== "OUT" && (game.hands[p.id]?.length || 0) > 0
+  );
+
+  if (aliveWithCards.length <= 1) {
+    endGame(draft);
+  }
+}
+
+/**
+ * Final placings of the dealt players (first = 1)
+ * Players who got out rank in the order they did, then the rest by cards left (seat order breaks ties)
+ */
+function computePlacements(players: EnginePlayer[], game: InternalGameState): string[] {
+  const dealtIds = players.filter((p) => p.id in game.statuses).map((p) => p.id);
+  const finished = (game.finishOrder ?? []).filter((id) => dealtIds.includes(id));
+  const cardsLeft = (id: string) => game.hands[id]?.length ?? 0;
+  const remaining = dealtIds
+    .filter((id) => !finished.includes(id))
+    .sort((a, b) => cardsLeft(a) - cardsLeft(b));
+  return [...finished, ...remaining];
+}
+
+/**
+ * Moves the room to ENDED and closes the game's log with the final hand counts, statuses and placings
+ */
+function endGame<P extends EnginePlayer>(draft: ActiveDraft<P>): void {
+  const { state, now } = draft;
+  const game = state.internalGame;
+
+  state.phase = "ENDED";
+  clearClaim(draft);
+
+  const handCounts: Record<string, number> = {};
+  for (const [id, hand] of Object.entries(game.hands)) {
+    handCounts[id] = hand.length;
+  }
+  game.placements = computePlacements(state.players, game);
+  log(draft, {
+    type: "END",
+    at: now,
+    handCounts,
+    playerStatuses: { ...game.statuses },
+    placements: [...game.placements],
+  });
+  draft.effects.push({ type: "GAME_ENDED", at: now });
+}
+
+/**
+ * Forgets an ended game whose results are meaningless (everyone left or nobody had cards)
+ */
+function discardGame<P extends EnginePlayer>(draft: Draft<P>): void {
+  draft.state.internalGame = undefined;
+}
+
+/**
+ * Drops the claim window, cancelling its scheduled close
+ */
+function clearClaim<P extends EnginePlayer>(draft: ActiveDraft<P>): void {
+  if (draft.state.internalGame.claim) {
+    draft.state.internalGame.claim = undefined;
+    draft.effects.push({ type: "CANCEL_CLAIM_CLOSE" });
+  }
+}
+
+/**
+ * Resolves and closes the claim window
+ */
+function resolveClaim<P extends EnginePlayer>(draft: ActiveDraft<P>): void {
+  const { state, now } = draft;
+  const game = state.internalGame;
+  const window = game.claim;
+  if (!window) return;
+
+  // Calculate non-claimers only among participants (players who are not OUT)
+  const nonClaimers = state.players
+    .filter((p) => game.statuses[p.id] !== "OUT")
+    .map((p) => p.id)
+    .filter((playerId) => !window.claimers.includes(playerId));
+
+  // Cards received by each player (for the game log)
+  const distribution: Record<string, number> = {};
+
+  if (nonClaimers.length > 0) {
+    // CASE A: Not everyone claimed - distribute pile to non-claimers round-robin
+    game.pile.forEach((card, cardIndex) => {
+      const playerId = nonClaimers[cardIndex % nonClaimers.length];
+      const hand = game.hands[playerId];
+      if (hand) {
+        hand.push(card);
+        distribution[playerId] = (distribution[playerId] || 0) + 1;
+      }
+    });
+  } else if (state.settings.allClaimedPenalty !== "DISCARD" && window.claimers.length > 0) {
+    // CASE B: Everyone claimed - last claimer (slowest) loses
+    // (with the DISCARD house rule the pile is thrown away instead)
+    const loserId = window.claimers[window.claimers.length - 1];
+    const loserHand = game.hands[loserId];
+    if (loserHand) {
+      loserHand.push(...game.pile);
+      distribution[loserId] = game.pile.length;
+    }
+  }
+  game.pile = [];
+
+  log(draft, {
+    type: "CLAIM_RESOLVED",
+    at: now,
+    claimId: window.id,
+    claimers: [...window.claimers],
+    distribution,
+  });
+
+  // Update player statuses after distributing cards
+  updatePlayerStatuses(draft);
+
+  // Players in PENDING_EXIT who claimed and still have 0 cards become OUT
+  // (if they received cards, updatePlayerStatuses already made them ACTIVE)
+  for (const player of state.players) {
+    if (
+      game.statuses[player.id] === "PENDING_EXIT" &&
+      window.claimers.includes(player.id) &&
+      (game.hands[player.id]?.length || 0) === 0
+    ) {
+      setStatus(draft, player.id, "OUT");
+    }
+  }
+
+  clearClaim(draft);
+
+  // Reset word index to 0 ("taco") after claim resolution
+  game.wordIndex = 0;
+
+  // Advance turn index to next player with cards
+  const nextIndex = findNextPlayerWithCards(draft, (window.triggerTurnIndex + 1) % state.players.length);
+  if (nextIndex !== null) {
+    game.turnIndex = nextIndex;
+  }
+
+  checkEndGame(draft);
+}
+
+/**
+ * Finds next player with cards
+ * Only considers ACTIVE players (not PENDING_EXIT or OUT)
+ * When skipReconnecting is set, disconnected players are passed over too
+ */
+function findNextPlayerWithCards<P extends EnginePlayer>(
+  draft: ActiveDraft<P>,
+  startIndex: number,
+  skipReconnecting: boolean = false
+): number | null {
+  const { players, internalGame: game } = draft.state;
+
+  for (let i = 0; i < players.length; i++) {
+    const index = (startIndex + i) % players.length;
+    const player = players[index];
+    const status = game.statuses[player.id] || "ACTIVE";
+    // Only consider ACTIVE players (skip OUT and PENDING_EXIT)
+    if (status !== "ACTIVE") {
+      continue;
+    }
+    if (skipReconnecting && player.reconnecting) {
+      continue;
+    }
+    const hand = game.hands[player.id];
+    if (hand && hand.length > 0) {
+      return index;
+    }
+  }
+  return null;
+}
+
+/**
+ * Gesture required to claim a special card
+ */
+export function gestureForSpecialType(specialType: SpecialType): GestureType {
+  switch (specialType) {
+    case "SPECIAL_1":
+      return "CLICK_FRENZY";
+    case "SPECIAL_2":
+      return "BUBBLES";
+    case "SPECIAL_3":
+      return "CIRCLE";
+  }
+}
+
+/**
+ * Opens a claim window, scheduling its close
+ */
+function openClaimWindow<P extends EnginePlayer>(
+  draft: ActiveDraft<P>,
+  reason: "MATCH" | "SPECIAL",
+  card: Card
+): void {
+  const { state, now } = draft;
+  const game = state.internalGame;
+
+  game.claimCount = (game.claimCount ?? 0) + 1;
+  const claimId = `${game.gameId}-claim-${game.claimCount}`;
+  const closesAt = now + state.settings.claimWindowMs;
+
+  // Determine gesture type and special type if it's a SPECIAL card
+  let gestureType: GestureType | null = null;
+  let specialType: SpecialType | undefined = undefined;
+  if (reason === "SPECIAL" && card.type === "SPECIAL" && card.visual.kind === "special") {
+    specialType = card.visual.specialType;
+    gestureType = gestureForSpecialType(specialType);
+  }
+
+  const window: ClaimWindow = {
+    id: claimId,
+    opensAt: now,
+    closesAt,
+    triggerTurnIndex: game.turnIndex,
+    claimers: [],
+    claimTimes: {},
+    gestureType,
+    specialType,
+  };
+  game.claim = window;
+
+  log(draft, { type: "CLAIM_OPEN", at: now, claimId, reason, gestureType, closesAt });
+  draft.effects.push({ type: "SCHEDULE_CLAIM_CLOSE", claimId, at: closesAt });
+}
+
+/**
+ * Inserts a claimer ordered by claim time (ties keep arrival order)
+ */
+function insertClaimer(window: ClaimWindow, playerId: string, claimedAt: number): void {
+  const claimTimes = (window.claimTimes ??= {});
+  const index = window.claimers.findIndex((id) => (claimTimes[id] ?? 0) > claimedAt);
+  if (index === -1) {
+    window.claimers.push(playerId);
+  } else {
+    window.claimers.splice(index, 0, playerId);
+  }
+  claimTimes[playerId] = claimedAt;
+}
+
+/**
+ * Moves every reference to a seat in a game from one player id to another (returns a new state)
+ * Used when a reconnecting player gets a new socket id, or a bot takes over a seat
+ */
+export function renamePlayerInGame(game: InternalGameState, oldId: string, newId: string): InternalGameState {
+  const next = cloneGame(game);
+  if (oldId === newId) return next;
+
+  const rename = (id: string) => (id === oldId ? newId : id);
+  if (oldId in next.hands) {
+    next.hands[newId] = next.hands[oldId];
+    delete next.hands[oldId];
+  }
+  if (oldId in next.statuses) {
+    next.statuses[newId] = next.statuses[oldId];
+    delete next.statuses[oldId];
+  }
+  if (next.claim) {
+    next.claim.claimers = next.claim.claimers.map(rename);
+    const claimTimes = next.claim.claimTimes;
+    if (claimTimes && oldId in claimTimes) {
+      claimTimes[newId] = claimTimes[oldId];
+      delete claimTimes[oldId];
+    }
+  }
+  if (next.lastFlipPlayerId) {
+    next.lastFlipPlayerId = rename(next.lastFlipPlayerId);
+  }
+  if (next.finishOrder) {
+    next.finishOrder = next.finishOrder.map(rename);
+  }
+  if (next.placements) {
+    next.placements = next.placements.map(rename);
+  }
+  return next;
+}
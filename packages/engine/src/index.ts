@@ -0,0 +1,14 @@
+// State, actions and effects
+export * from "./types";
+
+// Reducer and rule helpers
+export * from "./engine";
+
+// Public projection of the game state
+export * from "./view";
+
+// Deck generation
+export * from "./deck";
+
+// Seeded RNG
+export * from "./rng";
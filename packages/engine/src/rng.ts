@@ -0,0 +1,46 @@
+/**
+ * Seeded pseudo-random number generator (mulberry32)
+ *
+ * The state is a plain object so it can live inside InternalGameState and be
+ * snapshotted by a RoomStore. The same seed always produces the same sequence.
+ */
+export interface RngState {
+  seed: number; // Seed the game was started with (shown to players for bug reports)
+  state: number; // Current generator state
+}
+
+/**
+ * Largest seed accepted (unsigned 32-bit)
+ */
+export const MAX_SEED = 0xffffffff;
+
+/**
+ * Stream of the bots' decisions: same seed as the deal, different sequence
+ */
+export const BOT_RNG_STREAM = 0x9e3779b9;
+
+/**
+ * Creates a generator state from a seed
+ * Streams other than 0 start elsewhere in the sequence, so drawing from one never shifts another
+ */
+export function createRng(seed: number, stream: number = 0): RngState {
+  return { seed, state: (seed ^ stream) | 0 };
+}
+
+/**
+ * Returns the next number in [0, 1) and advances the state
+ */
+export function nextRandom(rng: RngState): number {
+  rng.state = (rng.state + 0x6d2b79f5) | 0;
+  let t = rng.state;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+}
+
+/**
+ * Picks a new seed from the given random source
+ */
+export function randomSeed(random: () => number = Math.random): number {
+  return Math.floor(random() * (MAX_SEED + 1));
+}
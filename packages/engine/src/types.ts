@@ -0,0 +1,108 @@
+import type {
+  Card,
+  ErrorPayload,
+  GameLogEvent,
+  GestureProof,
+  GestureType,
+  Phase,
+  PlayerGameStatus,
+  RoomSettings,
+  SpecialType,
+} from "@acme/shared";
+import type { RngState } from "./rng";
+
+/**
+ * Claim window internal state
+ */
+export interface ClaimWindow {
+  id: string;
+  opensAt: number;
+  closesAt: number;
+  triggerTurnIndex: number; // Index of player who triggered the claim
+  claimers: string[]; // Array of player IDs in order of claim (compensated reaction time)
+  claimTimes?: Record<string, number>; // playerId -> compensated claim time (server clock)
+  gestureType?: GestureType | null; // Gesture required for this claim (null for MATCH)
+  specialType?: SpecialType; // Special card type if applicable
+}
+
+/**
+ * Internal game state (server-side only: it holds every hand)
+ */
+export interface InternalGameState {
+  gameId: string; // Unique per deal, prefixes card and claim ids
+  hands: Record<string, Card[]>; // playerId -> cards
+  pile: Card[]; // Central pile
+  turnIndex: number;
+  wordIndex: number;
+  statuses: Record<string, PlayerGameStatus>; // playerId -> status
+  claim?: ClaimWindow;
+  claimCount?: number; // Claim windows opened so far (for claim ids)
+  lastFlipPlayerId?: string; // Player who performed the last flip (for UI animations)
+  finishOrder?: string[]; // Players in the order they went OUT (first = winner)
+  placements?: string[]; // Final placings, first = winner (set when the game ends)
+  rng: RngState; // Seeded RNG for this game's deal
+  botRng: RngState; // Bot decisions, from the same seed (BOT_RNG_STREAM)
+}
+
+/**
+ * What the engine needs to know about a seat
+ */
+export interface EnginePlayer {
+  id: string;
+  isBot?: boolean; // Bots are trusted with gesture claims
+  reconnecting?: boolean; // Disconnected players can have their turn skipped
+}
+
+/**
+ * Everything the rules read and write
+ * A server Room satisfies it, so rooms can be passed to the engine as they are
+ */
+export interface EngineState<P extends EnginePlayer = EnginePlayer> {
+  phase: Phase;
+  players: P[]; // Seat order
+  settings: RoomSettings;
+  internalGame?: InternalGameState;
+}
+
+/**
+ * Actions the engine reduces
+ */
+export type EngineAction =
+  // Deals a new game to everyone seated (from the lobby or after a game ended)
+  | { type: "START"; seed: number; gameId: string }
+  // Turns over the top card of a player's hand
+  | { type: "FLIP"; playerId: string }
+  // Slap: joins the open claim window, or is a false slap if there is none
+  // claimedAt is when the reaction happened (server clock, defaults to now)
+  | { type: "CLAIM"; playerId: string; claimId?: string; proof?: GestureProof; claimedAt?: number }
+  // The claim window reached closesAt
+  | { type: "CLOSE_CLAIM"; claimId: string }
+  // Passes the turn of a disconnected player
+  | { type: "SKIP_TURN"; playerId: string }
+  // Removes a seat (its cards are lost)
+  | { type: "LEAVE"; playerId: string };
+
+/**
+ * Side effects the caller carries out, in order
+ */
+export type EngineEffect =
+  // A game was dealt (start its log before the events that follow)
+  | { type: "GAME_STARTED"; seed: number; at: number }
+  // An event for the running game's log
+  | { type: "LOG"; event: GameLogEvent }
+  // Dispatch CLOSE_CLAIM for this claim at `at`
+  | { type: "SCHEDULE_CLAIM_CLOSE"; claimId: string; at: number }
+  // The claim window closed early, drop its pending CLOSE_CLAIM
+  | { type: "CANCEL_CLAIM_CLOSE" }
+  // The game ended (the END event was logged just before)
+  | { type: "GAME_ENDED"; at: number };
+
+/**
+ * Outcome of reducing an action
+ * On error the state is returned unchanged and there are no effects
+ */
+export interface EngineResult<P extends EnginePlayer = EnginePlayer> {
+  state: EngineState<P>;
+  effects: EngineEffect[];
+  error?: ErrorPayload;
+}
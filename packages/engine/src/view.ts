@@ -0,0 +1,99 @@
+import { KINDS, type GameState, type PlayerGameStatus } from "@acme/shared";
+import type { EnginePlayer, EngineState } from "./types";
+
+/**
+ * Public game state: hand counts instead of hands
+ * Also returns state when phase is ENDED to show final results (the caller adds the summary)
+ */
+export function getPublicGameState<P extends EnginePlayer>(state: EngineState<P>): GameState | undefined {
+  const { internalGame, players } = state;
+  if (!internalGame) {
+    return undefined;
+  }
+
+  // For ENDED phase, we still need game state to show win/lose messages
+  if (state.phase !== "IN_GAME" && state.phase !== "ENDED") {
+    return undefined;
+  }
+
+  // Only players dealt into this game (spectators who took a seat after it ended are excluded)
+  const dealtPlayers = players.filter((player) => player.id in internalGame.statuses);
+
+  // Calculate hand counts
+  const handCounts: Record<string, number> = {};
+  dealtPlayers.forEach((player) => {
+    handCounts[player.id] = internalGame.hands[player.id]?.length || 0;
+  });
+
+  // Build player statuses (public)
+  const playerStatuses: Record<string, PlayerGameStatus> = {};
+  dealtPlayers.forEach((player) => {
+    playerStatuses[player.id] = internalGame.statuses[player.id] || "ACTIVE";
+  });
+
+  // For ENDED phase, send handCounts and playerStatuses and the placings
+  if (state.phase === "ENDED") {
+    const turnPlayer = players[internalGame.turnIndex];
+    const order = internalGame.placements ?? [];
+    const lastId = order[order.length - 1];
+    return {
+      turnPlayerId: turnPlayer?.id || players[0]?.id || "",
+      turnIndex: internalGame.turnIndex,
+      wordIndex: internalGame.wordIndex,
+      currentWord: KINDS[internalGame.wordIndex] || KINDS[0],
+      spokenWord: null,
+      pileCount: 0,
+      topCard: undefined,
+      handCounts,
+      playerStatuses,
+      claim: undefined,
+      lastFlipPlayerId: undefined,
+      seed: internalGame.rng?.seed,
+      winnerId: order[0],
+      loserId: lastId && handCounts[lastId] > 0 ? lastId : undefined,
+      placements: Object.fromEntries(order.map((id, index) => [id, index + 1])),
+    };
+  }
+
+  // For IN_GAME phase, return full state
+  const turnPlayer = players[internalGame.turnIndex];
+  if (!turnPlayer) {
+    return undefined;
+  }
+
+  const { pile } = internalGame;
+
+  // Get top card from pile
+  const topCard = pile.length > 0 ? pile[pile.length - 1] : undefined;
+
+  // Calculate spoken word (word that was "said" in the last flip)
+  const spokenWord = pile.length > 0 ? KINDS[(pile.length - 1) % KINDS.length] : null;
+
+  // Build claim window public state if exists
+  const claim = internalGame.claim
+    ? {
+        id: internalGame.claim.id,
+        opensAt: internalGame.claim.opensAt,
+        closesAt: internalGame.claim.closesAt,
+        claimers: [...internalGame.claim.claimers],
+        reason: topCard?.type === "SPECIAL" ? ("SPECIAL" as const) : ("MATCH" as const),
+        gestureType: internalGame.claim.gestureType ?? null,
+        specialType: internalGame.claim.specialType,
+      }
+    : undefined;
+
+  return {
+    turnPlayerId: turnPlayer.id,
+    turnIndex: internalGame.turnIndex,
+    wordIndex: internalGame.wordIndex,
+    currentWord: KINDS[internalGame.wordIndex], // NEXT word (for UI)
+    spokenWord, // Word that was "said" in the last flip
+    pileCount: pile.length,
+    topCard,
+    handCounts,
+    playerStatuses,
+    claim,
+    lastFlipPlayerId: internalGame.lastFlipPlayerId,
+    // Seed is withheld until the game ends (it would reveal every hand)
+  };
+}
@@ -16,6 +16,49 @@ export const NORMAL_COUNT = 55;
 
 export const CLAIM_WINDOW_MS = 7000; // Duration of claim window in milliseconds (7 seconds)
 
+// Room settings (house rules) defaults and limits
+export const MAX_PLAYERS = 6; // Hard cap on seats per room
+export const MIN_CLAIM_WINDOW_MS = 2000;
+export const MAX_CLAIM_WINDOW_MS = 15000;
+export const NORMAL_CARDS_PER_KIND = 11; // Default deck: 11 per kind (55) + 3 per special type (9) = 64
+export const MIN_NORMAL_CARDS_PER_KIND = 3;
+export const MAX_NORMAL_CARDS_PER_KIND = 20;
+export const SPECIALS_PER_TYPE = 3;
+export const MAX_SPECIALS_PER_TYPE = 6;
+export const FALSE_SLAP_FIXED_CARDS = 3; // Cards taken per false slap in FIXED penalty mode
+
+// Quick match constants
+export const QUICK_MATCH_MIN_PLAYERS = 2; // Players needed before a quick-match lobby starts counting down
+export const QUICK_MATCH_COUNTDOWN_MS = 20000; // Quick-match lobbies start on their own when this runs out
+
+// Chat constants
+export const CHAT_MAX_LENGTH = 200; // Characters per message
+export const CHAT_HISTORY_SIZE = 50; // Messages kept per room (sent to anyone joining)
+export const CHAT_RATE_LIMIT_COUNT = 5; // Messages (and emotes) allowed per sender...
+export const CHAT_RATE_LIMIT_WINDOW_MS = 5000; // ...within this window
+export const EMOTES = ["🌮!", "😂", "😱", "👏", "😡", "🐢", "🔥", "GG"] as const;
+
+// Room password limits
+export const ROOM_PASSWORD_MAX_LENGTH = 50;
+
+// Host moderation constants
+export const KICK_REJOIN_BAN_MS = 120000; // How long a kicked player can't join or watch the room again (2 minutes)
+
+// Abuse limits (server side)
+export const MAX_ROOMS_PER_IP = 5; // Open rooms one IP can have created at once
+export const IDLE_ROOM_TTL_MS = 30 * 60 * 1000; // Rooms outside a game are closed after this long without activity
+export const IDLE_ROOM_SWEEP_INTERVAL_MS = 60000; // How often idle rooms are looked for
+
+// Reconnection constants
+export const RECONNECT_GRACE_MS = 60000; // How long a disconnected player's seat is held (60 seconds)
+export const RECONNECT_TURN_SKIP_MS = 5000; // How long to wait before skipping a disconnected player's turn
+
+// Clock sync constants (latency-compensated claim ordering)
+export const CLOCK_SYNC_INTERVAL_MS = 2000; // How often the server pings each socket
+export const CLOCK_SYNC_SAMPLES = 8; // Ping samples kept per socket
+export const MAX_CLAIM_COMPENSATION_MS = 500; // A claim is never moved back further than this
+export const CLAIM_COMPENSATION_SLACK_MS = 50; // Allowed on top of the measured round trip
+
 // Gesture constants
 export const CLICK_FRENZY_REQUIRED_CLICKS = 10;
 export const CLICK_FRENZY_MIN_INTERVAL_MS = 40;
@@ -24,6 +67,7 @@ export const CLICK_FRENZY_MIN_INTERVAL_MS = 40;
 export const BUBBLES_COUNT = 4;
 export const BUBBLES_MIN_DISTANCE_PX = 70;
 export const BUBBLES_SIZE_PX = 56;
+export const BUBBLES_HIT_SLOP_PX = 8; // Extra reach around a bubble (it grows on hover)
 
 // Circle gesture constants
 export const CIRCLE_MIN_PATH_LEN = 300;
@@ -33,3 +77,6 @@ export const CIRCLE_MAX_RADIUS_VAR = 0.35;
 export const CIRCLE_TARGET_CENTER_TOL = 70;
 export const CIRCLE_MIN_POINTS = 12;
 
+// Gesture proof limits (claim attempts carry the raw samples for server-side checks)
+export const GESTURE_PROOF_MAX_SAMPLES = 4000;
+
@@ -0,0 +1,42 @@
+/**
+ * Codes sent in ERROR payloads - the client localises them (with their params) instead of showing server text
+ */
+export const ErrorCode = {
+  INVALID_PAYLOAD: "INVALID_PAYLOAD", // { details }
+  RATE_LIMITED: "RATE_LIMITED", // { event, retryAfterMs }
+  ROOM_QUOTA_EXCEEDED: "ROOM_QUOTA_EXCEEDED", // { max }
+  BOTS_UNAVAILABLE: "BOTS_UNAVAILABLE",
+
+  // Joining, watching and rejoining
+  ROOM_NOT_FOUND: "ROOM_NOT_FOUND", // { code }
+  ROOM_FULL: "ROOM_FULL", // { code, maxPlayers }
+  ROOM_LOCKED: "ROOM_LOCKED", // { code }
+  WRONG_PASSWORD: "WRONG_PASSWORD", // { code }
+  BANNED: "BANNED", // { code }
+  SPECTATORS_FULL: "SPECTATORS_FULL", // { code, maxSpectators }
+  ALREADY_IN_ROOM: "ALREADY_IN_ROOM", // { code }
+  SESSION_EXPIRED: "SESSION_EXPIRED", // { code }
+
+  // Lobby and host actions
+  NOT_IN_ROOM: "NOT_IN_ROOM",
+  NOT_A_SPECTATOR: "NOT_A_SPECTATOR",
+  NOT_HOST: "NOT_HOST",
+  NOT_IN_LOBBY: "NOT_IN_LOBBY",
+  NO_FREE_SEATS: "NO_FREE_SEATS", // { maxPlayers }
+  INVALID_SETTINGS: "INVALID_SETTINGS",
+  MAX_PLAYERS_BELOW_SEATED: "MAX_PLAYERS_BELOW_SEATED", // { seated }
+  INVALID_TARGET: "INVALID_TARGET",
+  NOT_ENOUGH_PLAYERS: "NOT_ENOUGH_PLAYERS", // { min }
+  PLAYERS_NOT_READY: "PLAYERS_NOT_READY",
+  GAME_ALREADY_STARTED: "GAME_ALREADY_STARTED",
+  GAME_NOT_ENDED: "GAME_NOT_ENDED",
+
+  // In game
+  GAME_NOT_IN_PROGRESS: "GAME_NOT_IN_PROGRESS",
+  NOT_PLAYING: "NOT_PLAYING",
+  NOT_YOUR_TURN: "NOT_YOUR_TURN",
+  CLAIM_IN_PROGRESS: "CLAIM_IN_PROGRESS",
+  INVALID_GESTURE: "INVALID_GESTURE",
+} as const;
+
+export type ErrorCode = (typeof ErrorCode)[keyof typeof ErrorCode];
@@ -6,16 +6,38 @@ export const EVENTS = {
   ROOM_CREATE: "ROOM_CREATE",
   ROOM_CREATE_SOLO: "ROOM_CREATE_SOLO",
   ROOM_JOIN: "ROOM_JOIN",
+  ROOM_REJOIN: "ROOM_REJOIN",
+  ROOM_SPECTATE: "ROOM_SPECTATE",
+  TAKE_SEAT: "TAKE_SEAT",
   ROOM_LEAVE: "ROOM_LEAVE",
   READY_TOGGLE: "READY_TOGGLE",
   START_GAME: "START_GAME",
   REMATCH_REQUEST: "REMATCH_REQUEST",
   FLIP_REQUEST: "FLIP_REQUEST",
   CLAIM_ATTEMPT: "CLAIM_ATTEMPT",
+  SETTINGS_UPDATE: "SETTINGS_UPDATE",
+  ADD_BOT: "ADD_BOT",
+  REMOVE_BOT: "REMOVE_BOT",
+  CLOCK_PONG: "CLOCK_PONG",
+  LOBBY_LIST_REQUEST: "LOBBY_LIST_REQUEST",
+  QUICK_MATCH: "QUICK_MATCH",
+  CHAT_SEND: "CHAT_SEND",
+  KICK_PLAYER: "KICK_PLAYER",
+  TRANSFER_HOST: "TRANSFER_HOST",
+  LOCK_ROOM: "LOCK_ROOM",
+  ROOM_RESYNC: "ROOM_RESYNC",
 
   // Server -> Client
   ROOM_STATE: "ROOM_STATE",
+  ROOM_PATCH: "ROOM_PATCH",
+  SESSION: "SESSION",
   ERROR: "ERROR",
+  CLOCK_PING: "CLOCK_PING",
+  LOBBY_LIST: "LOBBY_LIST",
+  CHAT_MESSAGE: "CHAT_MESSAGE",
+  CHAT_HISTORY: "CHAT_HISTORY",
+  KICKED: "KICKED",
+  ROOM_CLOSED: "ROOM_CLOSED",
 } as const;
 
 export type EventName = (typeof EVENTS)[keyof typeof EVENTS];
@@ -0,0 +1,286 @@
+import {
+  BUBBLES_COUNT,
+  BUBBLES_HIT_SLOP_PX,
+  BUBBLES_MIN_DISTANCE_PX,
+  BUBBLES_SIZE_PX,
+  CIRCLE_CLOSE_DIST,
+  CIRCLE_MAX_RADIUS_VAR,
+  CIRCLE_MIN_PATH_LEN,
+  CIRCLE_MIN_POINTS,
+  CIRCLE_MIN_RADIUS,
+  CIRCLE_TARGET_CENTER_TOL,
+  CLICK_FRENZY_MIN_INTERVAL_MS,
+  CLICK_FRENZY_REQUIRED_CLICKS,
+} from "./constants";
+import type { GestureProof, GesturePoint } from "./schemas";
+
+/**
+ * Gesture validation shared by the web client (live feedback) and the server (proof check)
+ */
+
+/**
+ * Validates the accepted click timestamps of a CLICK_FRENZY gesture
+ */
+export function validateClickFrenzy(
+  clicks: number[],
+  requiredClicks: number = CLICK_FRENZY_REQUIRED_CLICKS,
+  minIntervalMs: number = CLICK_FRENZY_MIN_INTERVAL_MS
+): boolean {
+  if (clicks.length < requiredClicks) {
+    return false;
+  }
+
+  for (let i = 1; i < clicks.length; i++) {
+    if (clicks[i] - clicks[i - 1] < minIntervalMs) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Simple hash function for claimId to generate seed
+ */
+function hashString(str: string): number {
+  let hash = 0;
+  for (let i = 0; i < str.length; i++) {
+    const char = str.charCodeAt(i);
+    hash = (hash << 5) - hash + char;
+    hash = hash & hash; // Convert to 32-bit integer
+  }
+  return Math.abs(hash);
+}
+
+/**
+ * Simple pseudo-random generator (Mulberry32)
+ */
+function createPRNG(seed: number) {
+  return function () {
+    let t = (seed += 0x6d2b79f5);
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Generates bubble positions (centers) deterministically based on claimId
+ */
+export function generateBubblePositions(
+  claimId: string,
+  count: number,
+  minDistance: number,
+  bubbleSize: number,
+  containerWidth: number,
+  containerHeight: number
+): Array<{ x: number; y: number }> {
+  const seed = hashString(claimId);
+  const random = createPRNG(seed);
+
+  const positions: Array<{ x: number; y: number }> = [];
+  const attemptsPerBubble = 50; // Max attempts to place each bubble
+
+  for (let i = 0; i < count; i++) {
+    let attempts = 0;
+    let position: { x: number; y: number } | null = null;
+
+    while (attempts < attemptsPerBubble && !position) {
+      // Generate position (leave margin for bubble size)
+      const margin = bubbleSize / 2;
+      const x = margin + random() * (containerWidth - bubbleSize - margin * 2);
+      const y = margin + random() * (containerHeight - bubbleSize - margin * 2);
+
+      // Check distance from existing bubbles
+      let valid = true;
+      for (const existing of positions) {
+        const dx = x - existing.x;
+        const dy = y - existing.y;
+        const distance = Math.sqrt(dx * dx + dy * dy);
+        if (distance < minDistance) {
+          valid = false;
+          break;
+        }
+      }
+
+      if (valid) {
+        position = { x, y };
+        positions.push(position);
+      }
+
+      attempts++;
+    }
+
+    // If we couldn't place it after attempts, place it anyway (better than missing bubble)
+    if (!position) {
+      const fallbackMargin = bubbleSize / 2;
+      positions.push({
+        x: fallbackMargin + random() * (containerWidth - bubbleSize - fallbackMargin * 2),
+        y: fallbackMargin + random() * (containerHeight - bubbleSize - fallbackMargin * 2),
+      });
+    }
+  }
+
+  return positions;
+}
+
+/**
+ * Validates the pops of a BUBBLES gesture
+ * Bubbles are regenerated from the claimId and the container size the client played in;
+ * every bubble must be popped once by a pop landing on it
+ */
+export function validateBubbles(
+  claimId: string,
+  containerWidth: number,
+  containerHeight: number,
+  pops: GesturePoint[],
+  bubbleCount: number = BUBBLES_COUNT,
+  minDistancePx: number = BUBBLES_MIN_DISTANCE_PX,
+  bubbleSizePx: number = BUBBLES_SIZE_PX
+): boolean {
+  if (pops.length !== bubbleCount) {
+    return false;
+  }
+
+  const positions = generateBubblePositions(
+    claimId,
+    bubbleCount,
+    minDistancePx,
+    bubbleSizePx,
+    containerWidth,
+    containerHeight
+  );
+  const hitRadius = bubbleSizePx / 2 + BUBBLES_HIT_SLOP_PX;
+  const popped = new Set<number>();
+
+  for (const pop of pops) {
+    const index = positions.findIndex(
+      (pos, i) => !popped.has(i) && Math.sqrt((pop.x - pos.x) ** 2 + (pop.y - pos.y) ** 2) <= hitRadius
+    );
+    if (index === -1) {
+      return false;
+    }
+    popped.add(index);
+  }
+
+  return popped.size === positions.length;
+}
+
+/**
+ * Validates if the drawn path forms a valid circle
+ */
+export function validateCircle(
+  points: GesturePoint[],
+  targetCenter: { x: number; y: number },
+  minPathLen: number = CIRCLE_MIN_PATH_LEN,
+  closeDist: number = CIRCLE_CLOSE_DIST,
+  minRadius: number = CIRCLE_MIN_RADIUS,
+  maxRadiusVar: number = CIRCLE_MAX_RADIUS_VAR,
+  targetCenterTol: number = CIRCLE_TARGET_CENTER_TOL,
+  minPoints: number = CIRCLE_MIN_POINTS
+): boolean {
+  if (points.length < minPoints) {
+    return false;
+  }
+
+  // Calculate path length
+  let pathLength = 0;
+  for (let i = 1; i < points.length; i++) {
+    const dx = points[i].x - points[i - 1].x;
+    const dy = points[i].y - points[i - 1].y;
+    pathLength += Math.sqrt(dx * dx + dy * dy);
+  }
+
+  if (pathLength < minPathLen) {
+    return false;
+  }
+
+  // Check if path is closed (start and end are close)
+  const start = points[0];
+  const end = points[points.length - 1];
+  const startEndDist = Math.sqrt(
+    (end.x - start.x) ** 2 + (end.y - start.y) ** 2
+  );
+
+  if (startEndDist > closeDist) {
+    return false;
+  }
+
+  // Calculate center of the drawn path (average of all points)
+  const cx = points.reduce((sum, p) => sum + p.x, 0) / points.length;
+  const cy = points.reduce((sum, p) => sum + p.y, 0) / points.length;
+
+  // Check if center is close to target center
+  const centerDist = Math.sqrt(
+    (cx - targetCenter.x) ** 2 + (cy - targetCenter.y) ** 2
+  );
+
+  if (centerDist > targetCenterTol) {
+    return false;
+  }
+
+  // Calculate radii from center to each point
+  const radii = points.map((p) =>
+    Math.sqrt((p.x - cx) ** 2 + (p.y - cy) ** 2)
+  );
+
+  const meanR = radii.reduce((sum, r) => sum + r, 0) / radii.length;
+
+  if (meanR < minRadius) {
+    return false;
+  }
+
+  // Calculate standard deviation of radii
+  const variance =
+    radii.reduce((sum, r) => sum + (r - meanR) ** 2, 0) / radii.length;
+  const stdDevR = Math.sqrt(variance);
+
+  // Check circularity (coefficient of variation)
+  const radiusVar = stdDevR / meanR;
+
+  if (radiusVar > maxRadiusVar) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Checks that a list of client timestamps is in order and fits in the claim window
+ */
+function fitsInWindow(times: number[], windowMs: number): boolean {
+  for (let i = 1; i < times.length; i++) {
+    if (times[i] < times[i - 1]) {
+      return false;
+    }
+  }
+  return times.length === 0 || times[times.length - 1] - times[0] <= windowMs;
+}
+
+/**
+ * Re-runs the gesture validation on a proof sent with a claim attempt
+ * Timestamps come from the client clock, so only their spacing is checked, never their absolute value
+ */
+export function validateGestureProof(
+  claimId: string,
+  windowMs: number,
+  proof: GestureProof
+): boolean {
+  switch (proof.type) {
+    case "CLICK_FRENZY":
+      return fitsInWindow(proof.clicks, windowMs) && validateClickFrenzy(proof.clicks);
+    case "BUBBLES":
+      return (
+        fitsInWindow(proof.pops.map((p) => p.t), windowMs) &&
+        validateBubbles(claimId, proof.width, proof.height, proof.pops)
+      );
+    case "CIRCLE":
+      // Points are relative to the target center
+      return (
+        fitsInWindow(proof.points.map((p) => p.t), windowMs) &&
+        validateCircle(proof.points, { x: 0, y: 0 })
+      );
+    default:
+      return false;
+  }
+}
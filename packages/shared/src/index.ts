@@ -4,7 +4,16 @@ export * from "./constants";
 // Events
 export * from "./events";
 
+// Error codes
+export * from "./errors";
+
 // Schemas and types
 export * from "./schemas";
 export * from "./types";
 
+// Gesture validation
+export * from "./gestures";
+
+// Room state patches
+export * from "./patches";
+
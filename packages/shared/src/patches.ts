@@ -0,0 +1,91 @@
+import type { GameState, RoomPatch, RoomState } from "./schemas";
+
+/**
+ * Room state patches shared by the server (diffing versions) and clients (applying them)
+ * Fields are compared one level deep, and one level into `game`: a changed field is sent whole
+ */
+
+type Fields = Record<string, unknown>;
+
+/**
+ * Changed and removed fields between two plain objects
+ */
+function diffFields(previous: Fields, next: Fields): { changed: Fields; removed: string[] } {
+  const changed: Fields = {};
+  const removed: string[] = [];
+  for (const [key, value] of Object.entries(next)) {
+    if (value === undefined) continue;
+    if (JSON.stringify(value) !== JSON.stringify(previous[key])) {
+      changed[key] = value;
+    }
+  }
+  for (const [key, value] of Object.entries(previous)) {
+    if (value !== undefined && next[key] === undefined) {
+      removed.push(key);
+    }
+  }
+  return { changed, removed };
+}
+
+/**
+ * Builds the patch turning one room state into the next
+ * Returns null if nothing changed
+ */
+export function diffRoomState(
+  previous: RoomState,
+  next: RoomState,
+  seq: number
+): RoomPatch | null {
+  const { game: previousGame, ...previousRest } = previous;
+  const { game: nextGame, ...nextRest } = next;
+
+  const patch: RoomPatch = { code: next.code, seq };
+  const unset: string[] = [];
+
+  const root = diffFields(previousRest, nextRest);
+  if (Object.keys(root.changed).length > 0) {
+    patch.set = root.changed;
+  }
+  unset.push(...root.removed);
+
+  if (nextGame && !previousGame) {
+    patch.game = nextGame;
+  } else if (!nextGame && previousGame) {
+    unset.push("game");
+  } else if (nextGame && previousGame) {
+    const game = diffFields(previousGame, nextGame);
+    if (Object.keys(game.changed).length > 0) {
+      patch.game = game.changed;
+    }
+    unset.push(...game.removed.map((key) => `game.${key}`));
+  }
+
+  if (unset.length > 0) {
+    patch.unset = unset;
+  }
+  return patch.set || patch.game || patch.unset ? patch : null;
+}
+
+/**
+ * Applies a patch to the state of the previous version (returns a new object)
+ */
+export function applyRoomPatch(state: RoomState, patch: RoomPatch): RoomState {
+  const next: RoomState = { ...state, ...patch.set };
+  if (patch.game) {
+    next.game = { ...state.game, ...patch.game } as GameState;
+  }
+
+  for (const path of patch.unset ?? []) {
+    if (path === "game") {
+      delete next.game;
+    } else if (path.startsWith("game.")) {
+      if (next.game) {
+        next.game = { ...next.game };
+        delete (next.game as Fields)[path.slice("game.".length)];
+      }
+    } else {
+      delete (next as Fields)[path];
+    }
+  }
+  return next;
+}
@@ -1,4 +1,21 @@
 import { z } from "zod";
+import {
+  CLAIM_WINDOW_MS,
+  MIN_CLAIM_WINDOW_MS,
+  MAX_CLAIM_WINDOW_MS,
+  MAX_PLAYERS,
+  NORMAL_CARDS_PER_KIND,
+  MIN_NORMAL_CARDS_PER_KIND,
+  MAX_NORMAL_CARDS_PER_KIND,
+  SPECIALS_PER_TYPE,
+  MAX_SPECIALS_PER_TYPE,
+  FALSE_SLAP_FIXED_CARDS,
+  GESTURE_PROOF_MAX_SAMPLES,
+  CHAT_MAX_LENGTH,
+  EMOTES,
+  ROOM_PASSWORD_MAX_LENGTH,
+} from "./constants";
+import { ErrorCode } from "./errors";
 
 /**
  * Zod schemas for validating Socket.IO payloads
@@ -9,26 +26,120 @@ export const PhaseSchema = z.enum(["LOBBY", "IN_GAME", "ENDED"]);
 export type Phase = z.infer<typeof PhaseSchema>;
 
 // Room creation payload (client -> server)
+// Guest profile id (generated and kept by the client, used to track stats across games)
+export const ProfileIdSchema = z.string().uuid();
+
+// Room password (optional, set at creation; needed to join or watch)
+export const RoomPasswordSchema = z.string().min(1).max(ROOM_PASSWORD_MAX_LENGTH);
+
 export const RoomCreateSchema = z.object({
   name: z.string().min(1).max(50),
+  profileId: ProfileIdSchema.optional(),
+  password: RoomPasswordSchema.optional(),
+});
+
+// Bot difficulty and personality (chosen when creating a solo room)
+export const BotDifficultySchema = z.enum(["easy", "normal", "hard", "insane"]);
+export const BotPersonalitySchema = z.enum([
+  "balanced",
+  "cautious", // Claims less often, almost never false-slaps
+  "trigger_happy", // Claims fast and often, false-slaps a lot
+  "slow_gesturer", // Normal reactions, takes longer to complete gestures
+]);
+export const BotProfileSchema = z.object({
+  difficulty: BotDifficultySchema,
+  personality: BotPersonalitySchema,
 });
 
 // Solo room creation payload (client -> server)
 export const RoomCreateSoloSchema = z.object({
   name: z.string().min(1).max(50),
+  difficulty: BotDifficultySchema.optional().default("normal"),
+  personality: BotPersonalitySchema.optional().default("balanced"),
+  botCount: z.number().int().min(1).max(MAX_PLAYERS - 1).optional().default(1),
+  profileId: ProfileIdSchema.optional(),
+});
+
+// Add bot payload (client -> server) - host only, LOBBY phase
+export const AddBotSchema = z.object({
+  difficulty: BotDifficultySchema.optional().default("normal"),
+  personality: BotPersonalitySchema.optional().default("balanced"),
+});
+
+// Remove bot payload (client -> server) - host only, LOBBY phase
+export const RemoveBotSchema = z.object({
+  botId: z.string().min(1),
 });
 
 // Room join payload (client -> server)
 export const RoomJoinSchema = z.object({
   code: z.string().length(5),
   name: z.string().min(1).max(50),
+  profileId: ProfileIdSchema.optional(),
+  password: RoomPasswordSchema.optional(), // Only checked if the room has one
+});
+
+// Quick match payload (client -> server) - joins the fullest open public lobby or creates one
+export const QuickMatchSchema = z.object({
+  name: z.string().min(1).max(50),
+  profileId: ProfileIdSchema.optional(),
+});
+
+// Lobby list request payload (client -> server) - no payload needed, answered with LOBBY_LIST
+export const LobbyListRequestSchema = z.object({});
+
+// Quick reaction shown over the sender's seat
+export const EmoteSchema = z.enum(EMOTES);
+
+// Chat payload (client -> server) - either a text message or an emote
+export const ChatSendSchema = z
+  .object({
+    text: z.string().trim().min(1).max(CHAT_MAX_LENGTH).optional(),
+    emote: EmoteSchema.optional(),
+  })
+  .refine((payload) => (payload.text === undefined) !== (payload.emote === undefined), {
+    message: "Send either text or an emote",
+  });
+
+// Kick payload (client -> server) - host only, removes a player or spectator and bans them for a while
+export const KickPlayerSchema = z.object({
+  playerId: z.string().min(1),
+});
+
+// Transfer host payload (client -> server) - host only, the new host must be a seated human
+export const TransferHostSchema = z.object({
+  playerId: z.string().min(1),
+});
+
+// Lock room payload (client -> server) - host only, a locked room can't be joined or watched
+export const LockRoomSchema = z.object({
+  locked: z.boolean(),
+});
+
+// Room rejoin payload (client -> server) - rebinds a new socket to a held seat
+export const RoomRejoinSchema = z.object({
+  code: z.string().length(5),
+  sessionToken: z.string().min(1),
+});
+
+// Room spectate payload (client -> server) - watch a room without being dealt in
+export const RoomSpectateSchema = z.object({
+  code: z.string().length(5),
+  name: z.string().min(1).max(50),
+  profileId: ProfileIdSchema.optional(),
+  password: RoomPasswordSchema.optional(), // Only checked if the room has one
 });
 
+// Take seat payload (client -> server) - spectator becomes a player (lobby or before a rematch)
+export const TakeSeatSchema = z.object({});
+
 // Ready toggle payload (client -> server) - no payload needed, server toggles
 export const ReadyToggleSchema = z.object({});
 
-// Start game payload (client -> server) - no payload needed
-export const StartGameSchema = z.object({});
+// Start game payload (client -> server) - optional seed to reproduce a deal
+export const StartGameSchema = z.object({
+  seed: z.number().int().min(0).max(0xffffffff).optional(),
+});
 
 // Rematch request payload (client -> server) - no payload needed
 export const RematchRequestSchema = z.object({});
@@ -39,9 +150,47 @@ export const FlipRequestSchema = z.object({});
 // Claim request payload (client -> server) - no payload needed
 export const ClaimRequestSchema = z.object({});
 
+// Gesture sample: position in pixels plus client timestamp
+export const GesturePointSchema = z.object({
+  x: z.number().finite(),
+  y: z.number().finite(),
+  t: z.number().finite(),
+});
+
+// Gesture proof sent with a claim on a SPECIAL card (re-validated by the server)
+export const GestureProofSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("CLICK_FRENZY"),
+    clicks: z.array(z.number().finite()).max(GESTURE_PROOF_MAX_SAMPLES), // Timestamps of the accepted clicks
+  }),
+  z.object({
+    type: z.literal("BUBBLES"),
+    width: z.number().positive().finite(), // Container size the bubbles were laid out in
+    height: z.number().positive().finite(),
+    pops: z.array(GesturePointSchema).max(GESTURE_PROOF_MAX_SAMPLES), // Where and when each bubble was popped
+  }),
+  z.object({
+    type: z.literal("CIRCLE"),
+    points: z.array(GesturePointSchema).max(GESTURE_PROOF_MAX_SAMPLES), // Sampled path, relative to the target center
+  }),
+]);
+
 // Claim attempt payload (client -> server)
 export const ClaimAttemptSchema = z.object({
   claimId: z.string().optional(),
+  proof: GestureProofSchema.optional(), // Required for claims on a gesture window
+  reactedAt: z.number().finite().optional(), // Client clock time of the reaction (for latency compensation)
+});
+
+// Clock sync ping (server -> client)
+export const ClockPingSchema = z.object({
+  serverTime: z.number(),
+});
+
+// Clock sync pong (client -> server) - echoes the ping and adds the client clock
+export const ClockPongSchema = z.object({
+  serverTime: z.number().finite(),
+  clientTime: z.number().finite(),
 });
 
 // Player schema
@@ -51,6 +200,17 @@ export const PlayerSchema = z.object({
   joinedAt: z.number(),
   ready: z.boolean(),
   isBot: z.boolean().optional().default(false),
+  reconnecting: z.boolean().optional().default(false), // Socket dropped, seat held during grace period
+  avatar: z.string().optional(), // Emoji shown next to the name (bots)
+  bot: BotProfileSchema.optional(), // Difficulty and personality (bots only)
+  latencyMs: z.number().optional(), // Measured round trip to the server (humans only, filled in when broadcast)
+});
+
+// Spectator schema - watches the room, never dealt in
+export const SpectatorSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  joinedAt: z.number(),
 });
 
 // Player game status (during IN_GAME phase)
@@ -107,6 +267,31 @@ export const ClaimWindowPublicSchema = z.object({
   specialType: SpecialTypeSchema.optional(), // Only present for SPECIAL cards
 });
 
+// Player as recorded in a game log
+const GameLogPlayerSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  isBot: z.boolean(),
+});
+
+// Award in the end-of-game summary
+export const GameAwardSchema = z.object({
+  playerId: z.string(),
+  value: z.number(),
+});
+
+// End-of-game summary (built from the game log once the game has ENDED)
+export const GameSummarySchema = z.object({
+  players: z.array(GameLogPlayerSchema), // Everyone dealt in, including players a bot replaced
+  finishingOrder: z.array(z.string()), // The END event's placings, then players a bot replaced
+  cardsTaken: z.record(z.string(), z.number()), // Cards picked up from the pile (claims and false slaps)
+  gesturesCompleted: z.record(z.string(), z.number()),
+  fastestClaim: GameAwardSchema.nullable(), // value = ms from the window opening
+  slowestClaimer: GameAwardSchema.nullable(), // value = average ms from the window opening
+  mostFalseSlaps: GameAwardSchema.nullable(), // value = false slaps
+  longestPile: GameAwardSchema.nullable(), // value = cards in the biggest single pickup
+});
+
 // Game state schema
 export const GameStateSchema = z.object({
   turnPlayerId: z.string(),
@@ -120,6 +305,203 @@ export const GameStateSchema = z.object({
   playerStatuses: z.record(z.string(), PlayerGameStatusSchema), // Record<playerId, status>
   claim: ClaimWindowPublicSchema.optional(),
   lastFlipPlayerId: z.string().optional(), // Player who performed the last flip (for UI animations)
+  seed: z.number().optional(), // Seed of this game's RNG, only sent once the game has ENDED
+  winnerId: z.string().optional(), // First player out (ENDED only)
+  loserId: z.string().optional(), // Player left holding cards (ENDED only, missing if nobody is)
+  placements: z.record(z.string(), z.number()).optional(), // Record<playerId, place>, 1 = winner (ENDED only)
+  summary: GameSummarySchema.optional(), // Only sent once the game has ENDED
+});
+
+// Room settings (house rules) - edited by the host in the lobby, broadcast in RoomState
+export const FalseSlapPenaltySchema = z.enum([
+  "WHOLE_PILE", // False slapper takes the whole pile
+  "FIXED", // False slapper takes falseSlapCards cards from the top of the pile
+]);
+export const AllClaimedPenaltySchema = z.enum([
+  "LAST_CLAIMER", // Slowest claimer takes the pile
+  "DISCARD", // Pile is discarded
+]);
+
+const SpecialCountSchema = z.number().int().min(0).max(MAX_SPECIALS_PER_TYPE);
+
+export const RoomSettingsSchema = z.object({
+  claimWindowMs: z.number().int().min(MIN_CLAIM_WINDOW_MS).max(MAX_CLAIM_WINDOW_MS).default(CLAIM_WINDOW_MS),
+  cardsPerKind: z
+    .number()
+    .int()
+    .min(MIN_NORMAL_CARDS_PER_KIND)
+    .max(MAX_NORMAL_CARDS_PER_KIND)
+    .default(NORMAL_CARDS_PER_KIND),
+  specialsPerType: z
+    .object({
+      SPECIAL_1: SpecialCountSchema,
+      SPECIAL_2: SpecialCountSchema,
+      SPECIAL_3: SpecialCountSchema,
+    })
+    .default({ SPECIAL_1: SPECIALS_PER_TYPE, SPECIAL_2: SPECIALS_PER_TYPE, SPECIAL_3: SPECIALS_PER_TYPE }),
+  falseSlapPenalty: FalseSlapPenaltySchema.default("WHOLE_PILE"),
+  falseSlapCards: z.number().int().min(1).max(20).default(FALSE_SLAP_FIXED_CARDS), // Only used in FIXED mode
+  allClaimedPenalty: AllClaimedPenaltySchema.default("LAST_CLAIMER"),
+  requireFinalClaim: z.boolean().default(true), // Players with no cards must claim once more to get out
+  maxPlayers: z.number().int().min(2).max(MAX_PLAYERS).default(MAX_PLAYERS),
+  isPublic: z.boolean().default(false), // Listed in the lobby browser and open to quick match
+});
+
+// Settings update payload (client -> server) - host only, LOBBY phase; omitted fields keep their value
+export const SettingsUpdateSchema = RoomSettingsSchema.partial();
+
+// Game log events (recorded by the server for every game, served once the game has ended)
+export const GameLogEventSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("DEAL"),
+    at: z.number(),
+    seed: z.number(),
+    handCounts: z.record(z.string(), z.number()),
+  }),
+  z.object({
+    type: z.literal("FLIP"),
+    at: z.number(),
+    playerId: z.string(),
+    card: CardSchema,
+    spokenWord: KindSchema, // Word "said" with this flip
+    pileCount: z.number(), // Pile size after the flip
+  }),
+  z.object({
+    type: z.literal("CLAIM_OPEN"),
+    at: z.number(),
+    claimId: z.string(),
+    reason: z.enum(["MATCH", "SPECIAL"]),
+    gestureType: GestureTypeSchema.nullable(),
+    closesAt: z.number(),
+  }),
+  z.object({
+    type: z.literal("CLAIM_ATTEMPT"),
+    at: z.number(),
+    claimId: z.string(),
+    playerId: z.string(),
+    claimedAt: z.number().optional(), // Latency-compensated claim time (claimers are ordered by it)
+  }),
+  z.object({
+    type: z.literal("FALSE_SLAP"),
+    at: z.number(),
+    playerId: z.string(),
+    cardsTaken: z.number(),
+  }),
+  z.object({
+    type: z.literal("CLAIM_RESOLVED"),
+    at: z.number(),
+    claimId: z.string(),
+    claimers: z.array(z.string()), // In order of claim
+    distribution: z.record(z.string(), z.number()), // Record<playerId, cards received>
+  }),
+  z.object({
+    type: z.literal("STATUS_CHANGE"),
+    at: z.number(),
+    playerId: z.string(),
+    from: PlayerGameStatusSchema,
+    to: PlayerGameStatusSchema,
+  }),
+  z.object({
+    type: z.literal("SEAT_FILLED"), // A bot took over the seat of a player who left mid-game
+    at: z.number(),
+    playerId: z.string(), // Player who left
+    botId: z.string(),
+    botName: z.string(),
+  }),
+  z.object({
+    type: z.literal("END"),
+    at: z.number(),
+    handCounts: z.record(z.string(), z.number()),
+    playerStatuses: z.record(z.string(), PlayerGameStatusSchema),
+    placements: z.array(z.string()), // Final placings, first = winner
+  }),
+]);
+
+export const GameLogSchema = z.object({
+  roomCode: z.string(),
+  gameNumber: z.number(), // 1-based, increases with every game played in the room
+  seed: z.number(),
+  startedAt: z.number(),
+  endedAt: z.number().optional(), // Missing while the game is in progress
+  players: z.array(GameLogPlayerSchema), // Seat order
+  events: z.array(GameLogEventSchema),
+});
+
+// Finished game listing (GET /rooms/:code/games)
+export const GameLogSummarySchema = GameLogSchema.omit({ events: true });
+
+// Nickname claim payload (POST /players/:id/nickname) - nicknames are unique across profiles
+// The first claim for a profile returns its profileSecret; later claims must send it back
+export const NicknameClaimSchema = z.object({
+  nickname: z.string().trim().min(2).max(20),
+  profileSecret: z.string().max(100).optional(),
+});
+
+// Player stats (GET /players/:id/stats)
+export const PlayerStatsSchema = z.object({
+  profileId: z.string(),
+  nickname: z.string().optional(),
+  gamesPlayed: z.number(),
+  wins: z.number(), // Games finished in first place
+  losses: z.number(), // Games finished last, still holding cards
+  averagePlacement: z.number().nullable(), // 1 = always first (null until the first placed game)
+  averageReactionMs: z.number().nullable(), // MATCH claims, from the window opening (null until the first claim)
+  falseSlaps: z.number(),
+  gestureAttempts: z.number(), // SPECIAL windows the player was still in the game for
+  gestureSuccesses: z.number(), // Of those, the ones the player claimed
+  gestureSuccessRate: z.number().nullable(), // 0..1 (null until the first SPECIAL window)
+  fastestGestureMs: z.object({
+    CLICK_FRENZY: z.number().optional(),
+    BUBBLES: z.number().optional(),
+    CIRCLE: z.number().optional(),
+  }),
+  updatedAt: z.number(),
+});
+
+// Nickname claim response (POST /players/:id/nickname) - profileSecret only on the profile's first claim
+export const NicknameClaimResponseSchema = PlayerStatsSchema.extend({
+  profileSecret: z.string().optional(),
+});
+
+// Chat message (server -> client) - broadcast to the whole room, players and spectators
+export const ChatMessageSchema = z.object({
+  id: z.string(),
+  senderId: z.string(),
+  senderName: z.string(),
+  text: z.string().optional(),
+  emote: EmoteSchema.optional(),
+  sentAt: z.number(),
+});
+
+// Chat history payload (server -> client) - the room's recent messages, sent on join, oldest first
+export const ChatHistorySchema = z.object({
+  messages: z.array(ChatMessageSchema),
+});
+
+// Kicked payload (server -> client) - sent only to the kicked socket
+export const KickedSchema = z.object({
+  code: z.string().length(5),
+});
+
+// Room closed payload (server -> client) - sent to everyone in a room the server closed
+export const RoomClosedSchema = z.object({
+  code: z.string().length(5),
+  reason: z.enum(["IDLE"]),
+});
+
+// Open public lobby (GET /rooms and LOBBY_LIST)
+export const PublicRoomSchema = z.object({
+  code: z.string().length(5),
+  hostName: z.string(),
+  playerCount: z.number(),
+  maxPlayers: z.number(),
+  quickMatch: z.boolean(), // Starts on its own (see autoStartAt in RoomState)
+  createdAt: z.number(),
+});
+
+// Lobby list payload (server -> client) - fullest lobbies first
+export const LobbyListSchema = z.object({
+  rooms: z.array(PublicRoomSchema),
 });
 
 // Room state (server -> client)
@@ -128,25 +510,75 @@ export const RoomStateSchema = z.object({
   phase: PhaseSchema,
   hostId: z.string(),
   players: z.array(PlayerSchema),
+  spectators: z.array(SpectatorSchema).optional().default([]),
+  settings: RoomSettingsSchema,
   createdAt: z.number(),
+  quickMatch: z.boolean().optional(), // Created by quick match (starts on its own)
+  autoStartAt: z.number().optional(), // When a quick-match lobby's countdown runs out
+  locked: z.boolean().optional(), // Locked by the host: nobody new can join or watch
+  hasPassword: z.boolean().optional(), // Joining or watching needs the password set at creation
   game: GameStateSchema.optional(),
 });
 
-// Error payload (server -> client)
+// Room snapshot (server -> client) - the full state, sent on join and resync only
+export const RoomSnapshotSchema = RoomStateSchema.extend({
+  seq: z.number().int(), // Version of this state; ROOM_PATCH seq numbers continue from it
+});
+
+// Room patch (server -> client) - what changed since the previous version (see patches.ts)
+export const RoomPatchSchema = z.object({
+  code: z.string().length(5),
+  seq: z.number().int(), // Applies on top of version seq - 1
+  set: RoomStateSchema.omit({ game: true }).partial().optional(), // Changed fields
+  game: GameStateSchema.partial().optional(), // Changed game fields (the whole game when one starts)
+  unset: z.array(z.string()).optional(), // Removed fields: "autoStartAt", "game" or "game.claim"
+  events: z.array(GameLogEventSchema).optional(), // Game events since the previous version (never DEAL: it carries the seed)
+});
+
+// Room resync payload (client -> server) - asks for a fresh snapshot after missing a patch
+export const RoomResyncSchema = z.object({});
+
+// Session payload (server -> client) - sent only to the owning socket
+export const SessionSchema = z.object({
+  code: z.string().length(5),
+  playerId: z.string(),
+  sessionToken: z.string(),
+});
+
+// Error payload (server -> client) - params fill in the localised text (see ErrorCode for each code's params)
 export const ErrorSchema = z.object({
-  message: z.string(),
+  code: z.nativeEnum(ErrorCode),
+  params: z.record(z.union([z.string(), z.number()])).optional(),
 });
 
 // Export inferred types
 export type RoomCreatePayload = z.infer<typeof RoomCreateSchema>;
+export type RoomCreateSoloPayload = z.infer<typeof RoomCreateSoloSchema>;
+export type AddBotPayload = z.infer<typeof AddBotSchema>;
+export type RemoveBotPayload = z.infer<typeof RemoveBotSchema>;
 export type RoomJoinPayload = z.infer<typeof RoomJoinSchema>;
+export type QuickMatchPayload = z.infer<typeof QuickMatchSchema>;
+export type LobbyListRequestPayload = z.infer<typeof LobbyListRequestSchema>;
+export type Emote = z.infer<typeof EmoteSchema>;
+export type ChatSendPayload = z.infer<typeof ChatSendSchema>;
+export type KickPlayerPayload = z.infer<typeof KickPlayerSchema>;
+export type TransferHostPayload = z.infer<typeof TransferHostSchema>;
+export type LockRoomPayload = z.infer<typeof LockRoomSchema>;
+export type RoomRejoinPayload = z.infer<typeof RoomRejoinSchema>;
+export type RoomSpectatePayload = z.infer<typeof RoomSpectateSchema>;
+export type TakeSeatPayload = z.infer<typeof TakeSeatSchema>;
 export type ReadyTogglePayload = z.infer<typeof ReadyToggleSchema>;
 export type StartGamePayload = z.infer<typeof StartGameSchema>;
 export type FlipRequestPayload = z.infer<typeof FlipRequestSchema>;
 export type ClaimRequestPayload = z.infer<typeof ClaimRequestSchema>;
 export type ClaimAttemptPayload = z.infer<typeof ClaimAttemptSchema>;
+export type ClockPingPayload = z.infer<typeof ClockPingSchema>;
+export type ClockPongPayload = z.infer<typeof ClockPongSchema>;
+export type GesturePoint = z.infer<typeof GesturePointSchema>;
+export type GestureProof = z.infer<typeof GestureProofSchema>;
 export type ClaimWindowPublic = z.infer<typeof ClaimWindowPublicSchema>;
 export type Player = z.infer<typeof PlayerSchema>;
+export type Spectator = z.infer<typeof SpectatorSchema>;
 export type Kind = z.infer<typeof KindSchema>;
 export type Word = Kind; // Legacy alias
 export type CardBgColor = z.infer<typeof CardBgColorSchema>;
@@ -157,6 +589,32 @@ export type CardVisualSpecial = z.infer<typeof CardVisualSpecialSchema>;
 export type CardVisual = z.infer<typeof CardVisualSchema>;
 export type Card = z.infer<typeof CardSchema>;
 export type GameState = z.infer<typeof GameStateSchema>;
+export type GameAward = z.infer<typeof GameAwardSchema>;
+export type GameSummary = z.infer<typeof GameSummarySchema>;
 export type RoomState = z.infer<typeof RoomStateSchema>;
+export type RoomSnapshot = z.infer<typeof RoomSnapshotSchema>;
+export type RoomPatch = z.infer<typeof RoomPatchSchema>;
+export type RoomResyncPayload = z.infer<typeof RoomResyncSchema>;
+export type PublicRoom = z.infer<typeof PublicRoomSchema>;
+export type LobbyListPayload = z.infer<typeof LobbyListSchema>;
+export type ChatMessage = z.infer<typeof ChatMessageSchema>;
+export type ChatHistoryPayload = z.infer<typeof ChatHistorySchema>;
+export type KickedPayload = z.infer<typeof KickedSchema>;
+export type SessionPayload = z.infer<typeof SessionSchema>;
 export type ErrorPayload = z.infer<typeof ErrorSchema>;
+export type ErrorParams = NonNullable<ErrorPayload["params"]>;
+export type RoomClosedPayload = z.infer<typeof RoomClosedSchema>;
+export type BotDifficulty = z.infer<typeof BotDifficultySchema>;
+export type BotPersonality = z.infer<typeof BotPersonalitySchema>;
+export type BotProfile = z.infer<typeof BotProfileSchema>;
+export type RoomSettings = z.infer<typeof RoomSettingsSchema>;
+export type SettingsUpdatePayload = z.infer<typeof SettingsUpdateSchema>;
+export type FalseSlapPenalty = z.infer<typeof FalseSlapPenaltySchema>;
+export type AllClaimedPenalty = z.infer<typeof AllClaimedPenaltySchema>;
+export type GameLogEvent = z.infer<typeof GameLogEventSchema>;
+export type GameLog = z.infer<typeof GameLogSchema>;
+export type GameLogSummary = z.infer<typeof GameLogSummarySchema>;
+export type NicknameClaimPayload = z.infer<typeof NicknameClaimSchema>;
+export type PlayerStats = z.infer<typeof PlayerStatsSchema>;
+export type NicknameClaimResponse = z.infer<typeof NicknameClaimResponseSchema>;
 
@@ -1,5 +1,8 @@
+import { RoomSettingsSchema } from "./schemas";
 import type {
   Player,
+  Spectator,
+  RoomSettings,
   RoomState,
   Phase,
   Kind,
@@ -23,6 +26,8 @@ import type {
 // Re-export types from schemas for convenience
 export type {
   Player,
+  Spectator,
+  RoomSettings,
   RoomState,
   Phase,
   Kind,
@@ -47,7 +52,30 @@ export interface Room {
   phase: Phase;
   hostId: string;
   players: Player[];
+  spectators: Spectator[];
+  settings: RoomSettings;
   createdAt: number;
+  quickMatch?: boolean; // Created by quick match
+  autoStartAt?: number; // Quick-match countdown end, while one is running
+  locked?: boolean; // Nobody new can join or watch
+}
+
+/**
+ * Helper to create room settings, filling in defaults for anything missing
+ */
+export function createRoomSettings(overrides: Partial<RoomSettings> = {}): RoomSettings {
+  return RoomSettingsSchema.parse(overrides);
+}
+
+/**
+ * Helper to create a spectator
+ */
+export function createSpectator(id: string, name: string): Spectator {
+  return {
+    id,
+    name,
+    joinedAt: Date.now(),
+  };
 }
 
 /**
@@ -60,6 +88,7 @@ export function createPlayer(id: string, name: string, isBot: boolean = false):
     joinedAt: Date.now(),
     ready: false,
     isBot,
+    reconnecting: false,
   };
 }
 